@@ -2,26 +2,39 @@
  * App root component.
  * Composes the dashboard page with bottom navigation.
  */
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import DashboardPage from './pages/DashboardPage';
 import MapPage from './pages/MapPage';
 import ModelsPage from './pages/ModelsPage';
 import DarkSkyPage from './pages/DarkSkyPage';
+import FavoritesPage from './pages/FavoritesPage';
 import BottomNav from './components/BottomNav';
 import AppErrorBoundary from './components/AppErrorBoundary';
+import { useTranslation } from './hooks/useTranslation';
 import type { NavTab } from './types';
+import type { MessageKey } from './utils/i18n';
 import './styles/global.css';
 
 /** Navigation tabs matching AI_AGENT_REFERENCE.md app sections */
-const NAV_TABS: NavTab[] = [
-  { id: 'today', label: 'Today', icon: 'today' },
-  { id: 'map', label: 'Map', icon: 'map' },
-  { id: 'models', label: 'Models', icon: 'models' },
-  { id: 'darksky', label: 'Dark Sky', icon: 'darksky' },
+const NAV_TABS: Array<Omit<NavTab, 'label'> & { labelKey: MessageKey }> = [
+  { id: 'today', labelKey: 'nav.today', icon: 'today' },
+  { id: 'map', labelKey: 'nav.map', icon: 'map' },
+  { id: 'models', labelKey: 'nav.models', icon: 'models' },
+  { id: 'favorites', labelKey: 'nav.favorites', icon: 'favorites' },
+  { id: 'darksky', labelKey: 'nav.darksky', icon: 'darksky' },
 ];
 
 export default function App() {
   const [activeTab, setActiveTab] = useState('today');
+  const { t, language } = useTranslation();
+  const tabs = useMemo<NavTab[]>(
+    () => NAV_TABS.map(({ labelKey, ...tab }) => ({ ...tab, label: t(labelKey) })),
+    [t],
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
 
   return (
     <AppErrorBoundary>
@@ -29,8 +42,13 @@ export default function App() {
       {activeTab === 'today' && <DashboardPage />}
       {activeTab === 'map' && <MapPage />}
       {activeTab === 'models' && <ModelsPage />}
+      {activeTab === 'favorites' && <FavoritesPage onOpenLocation={() => setActiveTab('today')} />}
       {activeTab === 'darksky' && <DarkSkyPage />}
-      {activeTab !== 'today' && activeTab !== 'map' && activeTab !== 'models' && activeTab !== 'darksky' && (
+      {activeTab !== 'today' &&
+        activeTab !== 'map' &&
+        activeTab !== 'models' &&
+        activeTab !== 'favorites' &&
+        activeTab !== 'darksky' && (
         <div style={{
           display: 'flex',
           alignItems: 'center',
@@ -39,10 +57,10 @@ export default function App() {
           color: 'rgba(255,255,255,0.4)',
           fontSize: '1.1rem',
         }}>
-          {NAV_TABS.find(t => t.id === activeTab)?.label ?? 'Page'} — Coming Soon
+          {t('app.comingSoon', { page: tabs.find((tab) => tab.id === activeTab)?.label ?? 'Page' })}
         </div>
       )}
-      <BottomNav tabs={NAV_TABS} activeTab={activeTab} onTabChange={setActiveTab} />
+      <BottomNav tabs={tabs} activeTab={activeTab} onTabChange={setActiveTab} />
     </AppErrorBoundary>
   );
 }
@@ -0,0 +1,44 @@
+/**
+ * AlertBanner — Compact strip announcing active weather alerts.
+ *
+ * Shows the most severe alert, colour-coded by severity, with a count of
+ * the rest. Tapping it opens the alert detail sheet.
+ */
+import type { WeatherAlert } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { getAlertSeverityColor } from './weatherIconMap';
+import './AlertBanner.css';
+
+interface AlertBannerProps {
+  /** Active alerts, most severe first */
+  alerts: WeatherAlert[];
+  onOpen: () => void;
+}
+
+export default function AlertBanner({ alerts, onOpen }: AlertBannerProps) {
+  const { t } = useTranslation();
+  const [top] = alerts;
+  if (!top) {
+    return null;
+  }
+
+  const color = getAlertSeverityColor(top.severity);
+  const moreCount = alerts.length - 1;
+
+  return (
+    <button
+      className="alert-banner"
+      type="button"
+      style={{ '--alert-color': color } as React.CSSProperties}
+      onClick={onOpen}
+      aria-label={alerts.length === 1 ? t('alerts.bannerOne') : t('alerts.bannerMany', { count: alerts.length })}
+    >
+      <span className="alert-banner-icon" aria-hidden>
+        <i className="wi wi-storm-warning" />
+      </span>
+      <span className="alert-banner-title">{top.title}</span>
+      {moreCount > 0 && <span className="alert-banner-more">{t('alerts.more', { count: moreCount })}</span>}
+      <span className="alert-banner-caret" aria-hidden>›</span>
+    </button>
+  );
+}
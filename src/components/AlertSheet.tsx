@@ -0,0 +1,119 @@
+/**
+ * AlertSheet — Bottom sheet listing every active alert in full.
+ *
+ * Alerts arrive most severe first; each entry shows its type, issue and
+ * expiry times, affected zones and the complete alert text.
+ */
+import { useEffect } from 'react';
+import type { WeatherAlert } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import type { MessageKey } from '../utils/i18n';
+import { getAlertSeverityColor } from './weatherIconMap';
+import './AlertSheet.css';
+
+interface AlertSheetProps {
+  isOpen: boolean;
+  /** Active alerts, most severe first */
+  alerts: WeatherAlert[];
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<WeatherAlert['type'], MessageKey> = {
+  warning: 'alerts.type.warning',
+  watch: 'alerts.type.watch',
+  advisory: 'alerts.type.advisory',
+  statement: 'alerts.type.statement',
+};
+
+function formatAlertTime(value: string | undefined, locale: string): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+
+  return date.toLocaleString(locale, {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function AlertSheet({ isOpen, alerts, onClose }: AlertSheetProps) {
+  const { t, locale } = useTranslation();
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+
+    const onKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="alert-sheet-overlay" role="dialog" aria-modal="true" aria-label={t('alerts.dialog')} onClick={onClose}>
+      <div className="alert-sheet-panel" onClick={(event) => event.stopPropagation()}>
+        <header className="alert-sheet-header">
+          <h2 className="alert-sheet-title">{t('alerts.title')}</h2>
+          <button className="alert-sheet-close" type="button" onClick={onClose} aria-label={t('alerts.close')}>
+            ✕
+          </button>
+        </header>
+
+        <ul className="alert-sheet-list">
+          {alerts.map((alert) => {
+            const issued = formatAlertTime(alert.issuedAt, locale);
+            const expires = formatAlertTime(alert.expiresAt, locale);
+            const typeKey = TYPE_LABELS[alert.type];
+
+            return (
+              <li
+                key={alert.id}
+                className="alert-sheet-item"
+                style={{ '--alert-color': getAlertSeverityColor(alert.severity) } as React.CSSProperties}
+              >
+                <div className="alert-sheet-item-header">
+                  <span className="alert-sheet-type">{typeKey ? t(typeKey) : alert.type}</span>
+                  <h3 className="alert-sheet-item-title">{alert.title}</h3>
+                </div>
+
+                {(issued || expires) && (
+                  <p className="alert-sheet-times">
+                    {issued && t('alerts.issued', { time: issued })}
+                    {issued && expires && ' · '}
+                    {expires && t('alerts.expires', { time: expires })}
+                  </p>
+                )}
+
+                {alert.areas.length > 0 && <p className="alert-sheet-areas">{alert.areas.join(', ')}</p>}
+
+                {alert.description && <p className="alert-sheet-description">{alert.description}</p>}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
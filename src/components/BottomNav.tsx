@@ -3,6 +3,7 @@
  * Matches the app sections defined in AI_AGENT_REFERENCE.md.
  */
 import './BottomNav.css';
+import { useTranslation } from '../hooks/useTranslation';
 import type { NavTab } from '../types';
 
 interface BottomNavProps {
@@ -47,8 +48,10 @@ function NavIcon({ icon, active }: { icon: string; active: boolean }) {
 }
 
 export default function BottomNav({ tabs, activeTab, onTabChange }: BottomNavProps) {
+  const { t } = useTranslation();
+
   return (
-    <nav className="bottom-nav" role="tablist" aria-label="Main navigation">
+    <nav className="bottom-nav" role="tablist" aria-label={t('nav.label')}>
       {tabs.map((tab) => {
         const isActive = tab.id === activeTab;
         return (
@@ -1,10 +1,16 @@
 /**
  * ConditionsCard — Glassmorphic card showing current conditions at a glance.
  *
- * Displays weather condition, sunrise/sunset, wind, moon phase,
- * plus sparkline charts for hourly temperature and precipitation.
+ * Displays weather condition, sunrise/sunset, day length, wind, moon phase,
+ * plus sparkline charts for hourly temperature and precipitation,
+ * and a footer naming the station behind the current conditions. When live
+ * stations are nearby, a picker switches between the forecast city's
+ * conditions and one station's latest report, whose temperature and
+ * humidity then show in the header.
  */
-import type { ConditionsCardData } from '../types';
+import type { ConditionsCardData, MoonPhase, NearbyStation } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import type { MessageKey } from '../utils/i18n';
 import { getMetricIconPresentation, getMoonPhaseIconPresentation, getWeatherIconPresentation } from './weatherIconMap';
 import './ConditionsCard.css';
 
@@ -19,6 +25,11 @@ interface ConditionsCardProps {
   tempCurve: SparklinePoint[];
   /** Hourly precipitation probabilities for sparkline */
   precipCurve: SparklinePoint[];
+  /** Nearby live stations, nearest first */
+  stations?: NearbyStation[];
+  /** Selected station id; `null` shows the forecast city's conditions */
+  selectedStationId?: string | null;
+  onSelectStation?: (id: string | null) => void;
 }
 
 /** Inline SVG condition icon */
@@ -149,15 +160,25 @@ function Sparkline({
   );
 }
 
-export default function ConditionsCard({ data, tempCurve, precipCurve }: ConditionsCardProps) {
+/** Short moon label: crescents and gibbous phases collapse to waxing/waning */
+function moonLabelKey(phase: MoonPhase): MessageKey {
+  if (phase === 'full-moon') return 'moon.short.full';
+  if (phase.startsWith('waning')) return 'moon.short.waning';
+  if (phase.startsWith('waxing')) return 'moon.short.waxing';
+  return `moon.${phase}`;
+}
+
+export default function ConditionsCard({
+  data,
+  tempCurve,
+  precipCurve,
+  stations = [],
+  selectedStationId = null,
+  onSelectStation,
+}: ConditionsCardProps) {
+  const { t } = useTranslation();
   const moonPresentation = getMoonPhaseIconPresentation(data.moonPhase, '#e0e0e0');
-  const moonPhaseLabel = data.moonPhase.toLowerCase().includes('full')
-    ? 'Full'
-    : data.moonPhase.toLowerCase().includes('waning')
-      ? 'Waning'
-      : data.moonPhase.toLowerCase().includes('waxing')
-        ? 'Waxing'
-        : data.moonPhase;
+  const moonPhaseLabel = t(moonLabelKey(data.moonPhase));
 
   return (
     <div className="conditions-card">
@@ -166,9 +187,20 @@ export default function ConditionsCard({ data, tempCurve, precipCurve }: Conditi
         <div className="cc-header-left">
           <ConditionIcon icon={data.conditionIcon} />
           <span className="cc-condition-label">{data.condition}</span>
+          {data.temperature !== undefined && (
+            <>
+              <span className="cc-station-temp">
+                {data.temperature === null ? '--' : `${data.temperature}°${data.tempUnit}`}
+              </span>
+              <span className="cc-station-humidity" title={t('metric.humidity')}>
+                <MiniIcon type="humidity" color="#4fc3f7" />
+                {data.humidity === null ? '--' : `${data.humidity}%`}
+              </span>
+            </>
+          )}
         </div>
         {data.sourceUpdatedAt && (
-          <span className="cc-updated-at">Last updated {data.sourceUpdatedAt}</span>
+          <span className="cc-updated-at">{t('conditions.lastUpdated', { time: data.sourceUpdatedAt })}</span>
         )}
       </div>
 
@@ -176,18 +208,20 @@ export default function ConditionsCard({ data, tempCurve, precipCurve }: Conditi
       <div className="cc-metrics">
         <div className="cc-metric">
           <MiniIcon type="wind" color="#80cbc4" />
-          <span className="cc-metric-val">{data.windSpeed} {data.windUnit}</span>
+          {data.windSpeed === null
+            ? <span className="cc-metric-val cc-metric-val--empty">{t('metric.noData')}</span>
+            : <span className="cc-metric-val">{data.windSpeed} {data.windUnit}</span>}
           <span className="cc-metric-lbl">{data.windDirection}</span>
         </div>
         <div className="cc-metric">
           <MiniIcon type="sunrise" color="#ffcc80" />
           <span className="cc-metric-val">{data.sunrise}</span>
-          <span className="cc-metric-lbl">Sunrise</span>
+          <span className="cc-metric-lbl">{t('conditions.sunrise')}</span>
         </div>
         <div className="cc-metric">
           <MiniIcon type="sunset" color="#ff8a65" />
           <span className="cc-metric-val">{data.sunset}</span>
-          <span className="cc-metric-lbl">Sunset</span>
+          <span className="cc-metric-lbl">{t('conditions.sunset')}</span>
         </div>
         <div className="cc-metric">
           <span className="cc-mini-icon cc-mini-icon--moon" style={{ color: moonPresentation.color }}>
@@ -197,23 +231,72 @@ export default function ConditionsCard({ data, tempCurve, precipCurve }: Conditi
           <span className="cc-metric-lbl">{moonPhaseLabel}</span>
         </div>
       </div>
+      <p className="cc-daylight">
+        {t('conditions.dayLength', {
+          hours: Math.floor(data.dayLengthMinutes / 60),
+          minutes: String(data.dayLengthMinutes % 60).padStart(2, '0'),
+        })}
+      </p>
 
       {/* Sparkline charts: temp curve + precip probability */}
       <div className="cc-charts">
         <Sparkline
           points={tempCurve}
           color="#ff8a65"
-          label="Temp"
+          label={t('conditions.temp')}
           unitSuffix="°"
         />
         <Sparkline
           points={precipCurve}
           color="#42a5f5"
-          label="Precip"
+          label={t('conditions.precip')}
           unitSuffix="%"
         />
       </div>
 
+      {stations.length > 0 && onSelectStation && (
+        <label className="cc-station-picker">
+          <span className="cc-station-picker-lbl">{t('conditions.stationPicker')}</span>
+          <select
+            className="cc-station-select"
+            value={selectedStationId ?? ''}
+            onChange={(event) => onSelectStation(event.target.value || null)}
+          >
+            <option value="">{t('conditions.forecastCity')}</option>
+            {stations.map((station) => (
+              <option key={station.id} value={station.id}>
+                {[
+                  station.name,
+                  formatDistance(station.distance, station.distanceUnit),
+                  t('conditions.minutesAgo', { minutes: station.ageMinutes }),
+                ].join(' · ')}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {data.source && (
+        <footer className="cc-source">
+          <span className="cc-source-station">
+            {data.source.label}
+            {data.source.distance > 0 &&
+              ` · ${t('conditions.away', { distance: formatDistance(data.source.distance, data.source.distanceUnit) })}`}
+          </span>
+          {(data.source.observedAt || data.source.forecastIssuedAt) && (
+            <span className="cc-source-times">
+              {data.source.observedAt && t('conditions.observed', { time: data.source.observedAt })}
+              {data.source.observedAt && data.source.forecastIssuedAt && ' · '}
+              {data.source.forecastIssuedAt && t('conditions.forecastIssued', { time: data.source.forecastIssuedAt })}
+            </span>
+          )}
+          <span className="cc-source-attribution">{data.source.attribution}</span>
+        </footer>
+      )}
     </div>
   );
 }
+
+function formatDistance(distance: number, unit: string): string {
+  return distance < 10 ? `${distance.toFixed(1)} ${unit}` : `${Math.round(distance)} ${unit}`;
+}
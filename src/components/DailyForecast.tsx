@@ -1,14 +1,23 @@
 /**
  * DailyForecast — Temperature range bars for multi-day forecast.
+ *
+ * Expanding a day shows its precipitation, wind and UV figures above the
+ * day and night narratives; figures the provider did not report are left out.
  */
 import { useState } from 'react';
 import type { DailyForecastItem } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import type { MessageKey } from '../utils/i18n';
 import { getWeatherIconPresentation } from './weatherIconMap';
 import './DailyForecast.css';
 
 interface DailyForecastProps {
   items: DailyForecastItem[];
   unit: string;
+  /** Wind unit label (e.g., 'km/h') */
+  windUnit: string;
+  /** Precipitation amount unit label (e.g., 'mm') */
+  precipUnit: string;
   /** Overall min/max across all days, for scaling bars */
   overallMin: number;
   overallMax: number;
@@ -23,21 +32,51 @@ function DailyIcon({ icon }: { icon: string }) {
   );
 }
 
-export default function DailyForecast({ items, unit, overallMin, overallMax }: DailyForecastProps) {
+export default function DailyForecast({ items, unit, windUnit, precipUnit, overallMin, overallMax }: DailyForecastProps) {
+  const { t } = useTranslation();
+
+  /** Reported precipitation, wind and UV figures for a day, as label/value pairs */
+  const statsFor = (item: DailyForecastItem): Array<{ labelKey: MessageKey; value: string }> => {
+    const stats: Array<{ labelKey: MessageKey; value: string | null }> = [
+      { labelKey: 'daily.precipChance', value: item.precipChance === null ? null : `${item.precipChance}%` },
+      { labelKey: 'daily.rain', value: item.rainAmount ? `${item.rainAmount} ${precipUnit}` : null },
+      { labelKey: 'daily.snow', value: item.snowAmount ? `${item.snowAmount} ${precipUnit}` : null },
+      {
+        labelKey: 'daily.wind',
+        value: item.windSpeed === null
+          ? null
+          : [
+            `${item.windSpeed} ${windUnit}`,
+            item.windDirection,
+            item.windGust === null ? undefined : t('hourly.gust', { value: item.windGust }),
+          ].filter(Boolean).join(' · '),
+      },
+      { labelKey: 'daily.uv', value: item.uvIndex === null ? null : String(item.uvIndex) },
+    ];
+
+    return stats.filter((stat): stat is { labelKey: MessageKey; value: string } => stat.value !== null);
+  };
+
   const [expandedIndex, setExpandedIndex] = useState<number | null>(items.length > 0 ? 0 : null);
   const range = overallMax - overallMin;
 
   return (
     <div className="daily-section">
-      <h3 className="daily-title">Daily Forecast</h3>
-      <p className="daily-subtitle">Tap a day to view full forecast details</p>
+      <h3 className="daily-title">{t('daily.title')}</h3>
+      <p className="daily-subtitle">{t('daily.subtitle')}</p>
       <div className="daily-list">
         {items.map((item, index) => {
-          const leftPct = range > 0 ? ((item.low - overallMin) / range) * 100 : 0;
-          const widthPct = range > 0 ? ((item.high - item.low) / range) * 100 : 50;
+          // Days missing either end get no bar rather than one anchored at a made-up value.
+          const bar = item.low !== null && item.high !== null
+            ? {
+              leftPct: range > 0 ? ((item.low - overallMin) / range) * 100 : 0,
+              widthPct: range > 0 ? ((item.high - item.low) / range) * 100 : 50,
+            }
+            : null;
           const daySummary = item.daySummary?.trim();
           const nightSummary = item.nightSummary?.trim();
-          const hasDetails = Boolean(daySummary || nightSummary);
+          const stats = statsFor(item);
+          const hasDetails = Boolean(daySummary || nightSummary || stats.length > 0);
           const isExpanded = expandedIndex === index;
 
           return (
@@ -61,17 +100,19 @@ export default function DailyForecast({ items, unit, overallMin, overallMax }: D
 
                 <div className="daily-middle">
                   <div className="daily-bar-track">
-                    <div
-                      className="daily-bar-fill"
-                      style={{
-                        left: `${leftPct}%`,
-                        width: `${Math.max(widthPct, 8)}%`,
-                      }}
-                    />
+                    {bar && (
+                      <div
+                        className="daily-bar-fill"
+                        style={{
+                          left: `${bar.leftPct}%`,
+                          width: `${Math.max(bar.widthPct, 8)}%`,
+                        }}
+                      />
+                    )}
                   </div>
                   <div className="daily-temps-inline">
-                    <span className="daily-low">{item.low}°</span>
-                    <span className="daily-high">{item.high}°{unit}</span>
+                    <span className="daily-low">{item.low === null ? '--' : `${item.low}°`}</span>
+                    <span className="daily-high">{item.high === null ? '--' : `${item.high}°${unit}`}</span>
                   </div>
                 </div>
 
@@ -84,15 +125,25 @@ export default function DailyForecast({ items, unit, overallMin, overallMax }: D
 
               {hasDetails && (
                 <div className={`daily-details ${isExpanded ? 'daily-details--open' : ''}`}>
+                  {stats.length > 0 && (
+                    <dl className="daily-stats">
+                      {stats.map((stat) => (
+                        <div className="daily-stat" key={stat.labelKey}>
+                          <dt className="daily-stat-label">{t(stat.labelKey)}</dt>
+                          <dd className="daily-stat-value">{stat.value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
                   {daySummary && (
                     <p className="daily-detail-item">
-                      <span className="daily-detail-label">Day</span>
+                      <span className="daily-detail-label">{t('daily.day')}</span>
                       {daySummary}
                     </p>
                   )}
                   {nightSummary && (
                     <p className="daily-detail-item">
-                      <span className="daily-detail-label">Night</span>
+                      <span className="daily-detail-label">{t('daily.night')}</span>
                       {nightSummary}
                     </p>
                   )}
@@ -0,0 +1,63 @@
+/**
+ * FavoritesSwitcher — Swipeable row of saved locations on the dashboard.
+ *
+ * The star saves or removes the location currently shown; each chip jumps
+ * to a favourite and shows its latest temperature when one is known.
+ */
+import type { FavoriteLocation } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { favoriteId, useFavoritesStore } from '../store/favoritesStore';
+import './FavoritesSwitcher.css';
+
+interface FavoritesSwitcherProps {
+  /** Coordinates and label of the location on screen */
+  lat: number;
+  lon: number;
+  name: string;
+  onSelect: (favorite: FavoriteLocation) => void;
+}
+
+export default function FavoritesSwitcher({ lat, lon, name, onSelect }: FavoritesSwitcherProps) {
+  const { t } = useTranslation();
+  const favorites = useFavoritesStore((state) => state.favorites);
+  const snapshots = useFavoritesStore((state) => state.snapshots);
+  const addFavorite = useFavoritesStore((state) => state.addFavorite);
+  const removeFavorite = useFavoritesStore((state) => state.removeFavorite);
+
+  const currentId = favoriteId(lat, lon);
+  const isSaved = favorites.some((favorite) => favorite.id === currentId);
+
+  return (
+    <nav className="favorites-switcher" aria-label={t('favorites.switcher')}>
+      <button
+        className={`favorites-star ${isSaved ? 'favorites-star--saved' : ''}`}
+        type="button"
+        aria-pressed={isSaved}
+        aria-label={t(isSaved ? 'favorites.remove' : 'favorites.add')}
+        onClick={() => (isSaved ? removeFavorite(currentId) : addFavorite(name, lat, lon))}
+      >
+        {isSaved ? '★' : '☆'}
+      </button>
+
+      <div className="favorites-track">
+        {favorites.map((favorite) => {
+          const snapshot = snapshots[favorite.id];
+          const isActive = favorite.id === currentId;
+
+          return (
+            <button
+              key={favorite.id}
+              type="button"
+              className={`favorites-chip ${isActive ? 'favorites-chip--active' : ''}`}
+              aria-current={isActive}
+              onClick={() => onSelect(favorite)}
+            >
+              <span className="favorites-chip-name">{favorite.name}</span>
+              {snapshot && <span className="favorites-chip-temp">{snapshot.temperature === null ? '--' : `${Math.round(snapshot.temperature)}°`}</span>}
+            </button>
+          );
+        })}
+      </div>
+    </nav>
+  );
+}
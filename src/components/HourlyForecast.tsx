@@ -1,16 +1,54 @@
 /**
- * HourlyForecast — Horizontally scrollable row of hourly weather data.
+ * HourlyForecast — Hourly chart with a metric selector above a horizontally
+ * scrollable row of hourly weather data.
+ *
+ * The selector switches both the chart (temperature, precipitation, wind or
+ * humidity) and the detail line on each hour tile. Hours a provider left
+ * empty break the chart line instead of dropping to zero.
  */
 import type { HourlyForecastItem } from '../types';
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import type { MessageKey } from '../utils/i18n';
 import { getWeatherIconPresentation } from './weatherIconMap';
 import './HourlyForecast.css';
 
 interface HourlyForecastProps {
   items: HourlyForecastItem[];
+  /** Temperature unit */
   unit: string;
+  /** Wind unit label (e.g., 'km/h') */
+  windUnit: string;
+  /** Precipitation amount unit label (e.g., 'mm') */
+  precipUnit: string;
 }
 
+type HourlyMetric = 'temp' | 'precip' | 'wind' | 'humidity';
+
+interface ChartSeries {
+  /** Main line or bars */
+  primary: Array<number | null>;
+  /** Dashed companion line (feels-like, gusts) */
+  secondary?: Array<number | null>;
+  /** Bars instead of a line */
+  bars?: boolean;
+  /** Fixed value domain; otherwise fitted to the data */
+  domain?: [number, number];
+  suffix: string;
+}
+
+const METRIC_OPTIONS: Array<{ id: HourlyMetric; labelKey: MessageKey; color: string }> = [
+  { id: 'temp', labelKey: 'hourly.metric.temp', color: '#ffb74d' },
+  { id: 'precip', labelKey: 'hourly.metric.precip', color: '#42a5f5' },
+  { id: 'wind', labelKey: 'hourly.metric.wind', color: '#80cbc4' },
+  { id: 'humidity', labelKey: 'hourly.metric.humidity', color: '#4fc3f7' },
+];
+
+const CHART_W = 320;
+const CHART_H = 96;
+const CHART_PAD_T = 14;
+const CHART_PAD_B = 14;
+
 /** Simple condition icon */
 function ConditionDot({ icon }: { icon: string }) {
   const { className, color } = getWeatherIconPresentation(icon);
@@ -21,8 +59,136 @@ function ConditionDot({ icon }: { icon: string }) {
   );
 }
 
-export default function HourlyForecast({ items, unit }: HourlyForecastProps) {
+function seriesFor(metric: HourlyMetric, items: HourlyForecastItem[]): ChartSeries {
+  switch (metric) {
+    case 'precip':
+      return { primary: items.map((item) => item.precipChance), bars: true, domain: [0, 100], suffix: '%' };
+    case 'wind':
+      return {
+        primary: items.map((item) => item.windSpeed),
+        secondary: items.map((item) => item.windGust),
+        suffix: '',
+      };
+    case 'humidity':
+      return { primary: items.map((item) => item.humidity), domain: [0, 100], suffix: '%' };
+    default:
+      return {
+        primary: items.map((item) => item.temp),
+        secondary: items.map((item) => item.feelsLike),
+        suffix: '°',
+      };
+  }
+}
+
+/** SVG path through the reported points; a null value lifts the pen. */
+function segmentedPath(points: Array<{ x: number; y: number } | null>): string {
+  let penDown = false;
+  const parts: string[] = [];
+
+  for (const point of points) {
+    if (!point) {
+      penDown = false;
+      continue;
+    }
+
+    parts.push(`${penDown ? 'L' : 'M'} ${point.x} ${point.y}`);
+    penDown = true;
+  }
+
+  return parts.join(' ');
+}
+
+/** HourlyChart — line or bar chart of one hourly metric, with min/max callouts and time ticks */
+function HourlyChart({
+  series,
+  labels,
+  color,
+  ariaLabel,
+  emptyLabel,
+}: {
+  series: ChartSeries;
+  labels: string[];
+  color: string;
+  ariaLabel: string;
+  emptyLabel: string;
+}) {
+  const reported = [...series.primary, ...(series.secondary ?? [])].filter((v): v is number => v !== null);
+  if (labels.length < 2 || reported.length === 0) {
+    return <p className="hourly-chart-empty">{emptyLabel}</p>;
+  }
+
+  const min = series.domain?.[0] ?? Math.min(...reported);
+  const max = series.domain?.[1] ?? Math.max(...reported);
+  const range = max - min || 1;
+  const plotH = CHART_H - CHART_PAD_T - CHART_PAD_B;
+  const xStep = CHART_W / labels.length;
+  const xAt = (index: number) => xStep * index + xStep / 2;
+  const yAt = (value: number) => CHART_PAD_T + (1 - (value - min) / range) * plotH;
+  const toPoints = (values: Array<number | null>) =>
+    values.map((value, index) => (value === null ? null : { x: xAt(index), y: yAt(value) }));
+
+  const primaryValues = series.primary.filter((v): v is number => v !== null);
+  const peak = primaryValues.length > 0 ? Math.max(...primaryValues) : null;
+  const peakIndex = peak === null ? -1 : series.primary.indexOf(peak);
+  const low = primaryValues.length > 0 ? Math.min(...primaryValues) : null;
+  const lowIndex = low === null ? -1 : series.primary.indexOf(low);
+
+  // Label every third hour so 24 hours stay legible.
+  const ticks = labels.map((label, index) => ({ label, x: xAt(index) })).filter((_, index) => index % 3 === 0);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} preserveAspectRatio="xMidYMid meet" className="hourly-chart-svg"
+      role="img" aria-label={ariaLabel}>
+      {series.bars
+        ? series.primary.map((value, index) =>
+          value === null ? null : (
+            <rect
+              key={index}
+              x={xAt(index) - xStep * 0.3}
+              y={yAt(value)}
+              width={xStep * 0.6}
+              height={Math.max(CHART_H - CHART_PAD_B - yAt(value), 1)}
+              rx="1.5"
+              fill={color}
+              opacity={0.35 + (value / 100) * 0.6}
+            />
+          ))
+        : (
+          <path d={segmentedPath(toPoints(series.primary))} fill="none" stroke={color} strokeWidth="1.8"
+            strokeLinejoin="round" strokeLinecap="round" />
+        )}
+
+      {series.secondary && (
+        <path d={segmentedPath(toPoints(series.secondary))} fill="none" stroke={color} strokeWidth="1.2"
+          strokeDasharray="3 3" opacity="0.6" strokeLinejoin="round" strokeLinecap="round" />
+      )}
+
+      {peak !== null && (
+        <text x={xAt(peakIndex)} y={yAt(peak) - 4} textAnchor="middle" className="hourly-chart-val" fill={color}>
+          {peak}{series.suffix}
+        </text>
+      )}
+      {low !== null && lowIndex !== peakIndex && !series.bars && (
+        <text x={xAt(lowIndex)} y={yAt(low) + 10} textAnchor="middle" className="hourly-chart-val" fill={color}
+          opacity="0.7">
+          {low}{series.suffix}
+        </text>
+      )}
+
+      {ticks.map((tick) => (
+        <text key={tick.x} x={tick.x} y={CHART_H - 2} textAnchor="middle" className="hourly-chart-tick">
+          {tick.label}
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+export default function HourlyForecast({ items, unit, windUnit, precipUnit }: HourlyForecastProps) {
+  const { t } = useTranslation();
   const scrollRef = useRef<HTMLDivElement | null>(null);
+  const [metric, setMetric] = useState<HourlyMetric>('temp');
+  const activeOption = METRIC_OPTIONS.find((option) => option.id === metric) ?? METRIC_OPTIONS[0];
 
   useEffect(() => {
     const container = scrollRef.current;
@@ -47,19 +213,77 @@ export default function HourlyForecast({ items, unit }: HourlyForecastProps) {
     };
   }, []);
 
+  /** Detail lines under each tile's temperature for the selected metric */
+  const detailFor = (item: HourlyForecastItem): [string, string?] => {
+    switch (metric) {
+      case 'precip':
+        return [
+          item.precipChance === null ? '--' : `${item.precipChance}%`,
+          item.precipAmount === null ? undefined : `${item.precipAmount} ${precipUnit}`,
+        ];
+      case 'wind':
+        return [
+          item.windSpeed === null ? '--' : `${item.windSpeed} ${windUnit}`,
+          item.windGust === null
+            ? item.windDirection
+            : t('hourly.gust', { value: item.windGust }),
+        ];
+      case 'humidity':
+        return [item.humidity === null ? '--' : `${item.humidity}%`];
+      default:
+        return [
+          item.precipChance === null ? '--' : `${item.precipChance}%`,
+          item.feelsLike === null ? undefined : t('hourly.feelsLike', { value: `${item.feelsLike}°` }),
+        ];
+    }
+  };
+
   return (
     <div className="hourly-section">
-      <h3 className="hourly-title">Hourly Forecast</h3>
+      <h3 className="hourly-title">{t('hourly.title')}</h3>
+
+      <div className="hourly-metrics" role="group" aria-label={t('hourly.metricPicker')}>
+        {METRIC_OPTIONS.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            className={`hourly-metric ${metric === option.id ? 'hourly-metric--active' : ''}`}
+            aria-pressed={metric === option.id}
+            onClick={() => setMetric(option.id)}
+          >
+            {t(option.labelKey)}
+          </button>
+        ))}
+      </div>
+
+      <div className="hourly-chart">
+        <HourlyChart
+          series={seriesFor(metric, items)}
+          labels={items.map((item) => item.time)}
+          color={activeOption?.color ?? '#ffb74d'}
+          ariaLabel={t('hourly.chartLabel', {
+            metric: activeOption ? t(activeOption.labelKey) : '',
+            count: items.length,
+          })}
+          emptyLabel={t('metric.noData')}
+        />
+      </div>
+
       <div className="hourly-carousel-viewport" ref={scrollRef}>
         <div className="hourly-track">
-          {items.map((item, index) => (
-            <div className="hourly-item" key={`${item.time}-${index}`}>
-              <span className="hourly-time">{item.time}</span>
-              <ConditionDot icon={item.icon} />
-              <span className="hourly-temp">{item.temp}°{unit}</span>
-              <span className="hourly-precip">{item.precipChance}%</span>
-            </div>
-          ))}
+          {items.map((item, index) => {
+            const [detail, subDetail] = detailFor(item);
+
+            return (
+              <div className="hourly-item" key={`${item.time}-${index}`}>
+                <span className="hourly-time">{item.time}</span>
+                <ConditionDot icon={item.icon} />
+                <span className="hourly-temp">{item.temp === null ? '--' : `${item.temp}°${unit}`}</span>
+                <span className={`hourly-detail hourly-detail--${metric}`}>{detail}</span>
+                {subDetail && <span className="hourly-subdetail">{subDetail}</span>}
+              </div>
+            );
+          })}
         </div>
       </div>
     </div>
@@ -4,6 +4,7 @@ import 'leaflet/dist/leaflet.css';
 import type { LatLngTuple, LeafletEvent, LeafletMouseEvent } from 'leaflet';
 import type { GeocodeResult } from '../services/weatherClient';
 import { reverseLocation, searchLocations } from '../services/weatherClient';
+import { useTranslation } from '../hooks/useTranslation';
 import './LocationPicker.css';
 
 type PickerMode = 'search' | 'map';
@@ -62,6 +63,7 @@ export default function LocationPicker({
   onClose,
   onConfirm,
 }: LocationPickerProps) {
+  const { t, language } = useTranslation();
   const [mode, setMode] = useState<PickerMode>('search');
   const [query, setQuery] = useState('');
   const [searchResults, setSearchResults] = useState<GeocodeResult[]>([]);
@@ -126,10 +128,10 @@ export default function LocationPicker({
         setError(null);
 
         try {
-          const results = await searchLocations(trimmed);
+          const results = await searchLocations(trimmed, language);
           setSearchResults(results);
         } catch (searchError) {
-          const message = searchError instanceof Error ? searchError.message : 'Location search failed.';
+          const message = searchError instanceof Error ? searchError.message : t('location.searchFailed');
           setError(message);
         } finally {
           setSearching(false);
@@ -138,7 +140,7 @@ export default function LocationPicker({
     }, 300);
 
     return () => clearTimeout(timeout);
-  }, [isOpen, mode, query]);
+  }, [isOpen, mode, query, language, t]);
 
   const selectedMapDisplay = useMemo(
     () => `${selectedMapPoint.lat.toFixed(4)}, ${selectedMapPoint.lon.toFixed(4)}`,
@@ -171,10 +173,10 @@ export default function LocationPicker({
     setError(null);
 
     try {
-      const resolved = await reverseLocation(selectedMapPoint.lat, selectedMapPoint.lon);
+      const resolved = await reverseLocation(selectedMapPoint.lat, selectedMapPoint.lon, language);
       onConfirm(resolved);
     } catch (reverseError) {
-      const message = reverseError instanceof Error ? reverseError.message : 'Unable to resolve selected map location.';
+      const message = reverseError instanceof Error ? reverseError.message : t('location.reverseFailed');
       setError(message);
     } finally {
       setSubmitting(false);
@@ -186,13 +188,13 @@ export default function LocationPicker({
       className="location-picker-overlay"
       role="dialog"
       aria-modal="true"
-      aria-label="Location picker"
+      aria-label={t('location.dialog')}
       onClick={onClose}
     >
       <div className="location-picker-panel" onClick={(event) => event.stopPropagation()}>
         <header className="location-picker-header">
-          <h2 className="location-picker-title">Select Location</h2>
-          <button className="location-picker-close" type="button" onClick={onClose} aria-label="Close location picker">
+          <h2 className="location-picker-title">{t('location.title')}</h2>
+          <button className="location-picker-close" type="button" onClick={onClose} aria-label={t('location.close')}>
             ✕
           </button>
         </header>
@@ -203,34 +205,34 @@ export default function LocationPicker({
             type="button"
             onClick={() => setMode('search')}
           >
-            Search
+            {t('location.tabSearch')}
           </button>
           <button
             className={`location-picker-tab ${mode === 'map' ? 'location-picker-tab--active' : ''}`}
             type="button"
             onClick={() => setMode('map')}
           >
-            Map
+            {t('location.tabMap')}
           </button>
         </div>
 
         <div className="location-picker-body">
           {mode === 'search' && (
-            <section className="location-picker-search" aria-label="Search locations">
+            <section className="location-picker-search" aria-label={t('location.search')}>
               <input
                 className="location-picker-input"
                 type="text"
-                placeholder="Search city, town, or place"
+                placeholder={t('location.placeholder')}
                 value={query}
                 onChange={(event) => setQuery(event.target.value)}
               />
 
-              {searching && <p className="location-picker-note">Searching…</p>}
+              {searching && <p className="location-picker-note">{t('location.searching')}</p>}
               {!searching && query.trim().length >= 2 && searchResults.length === 0 && !error && (
-                <p className="location-picker-note">No locations found.</p>
+                <p className="location-picker-note">{t('location.noResults')}</p>
               )}
 
-              <ul className="location-picker-results" role="listbox" aria-label="Location search results">
+              <ul className="location-picker-results" role="listbox" aria-label={t('location.results')}>
                 {searchResults.map((result) => {
                   const isActive = selectedSearch?.lat === result.lat && selectedSearch?.lon === result.lon;
 
@@ -259,13 +261,13 @@ export default function LocationPicker({
                 }}
                 disabled={!selectedSearch || submitting}
               >
-                {submitting ? 'Applying…' : 'Confirm location'}
+                {submitting ? t('location.applying') : t('location.confirm')}
               </button>
             </section>
           )}
 
           {mode === 'map' && (
-            <section className="location-picker-map" aria-label="Select location from map">
+            <section className="location-picker-map" aria-label={t('location.fromMap')}>
               <div className="location-picker-map-frame">
                 <MapContainer center={mapCenterTuple} zoom={8} className="location-picker-leaflet-map">
                   <TileLayer
@@ -282,13 +284,13 @@ export default function LocationPicker({
               </div>
 
               <div className="location-picker-map-meta">
-                <p className="location-picker-note">Selected: {selectedMapDisplay}</p>
+                <p className="location-picker-note">{t('location.selected', { point: selectedMapDisplay })}</p>
                 <button
                   className="location-picker-secondary"
                   type="button"
                   onClick={() => setSelectedMapPoint(mapCenter)}
                 >
-                  Use map center
+                  {t('location.useCenter')}
                 </button>
               </div>
 
@@ -300,7 +302,7 @@ export default function LocationPicker({
                 }}
                 disabled={submitting}
               >
-                {submitting ? 'Resolving…' : 'Confirm location'}
+                {submitting ? t('location.resolving') : t('location.confirm')}
               </button>
             </section>
           )}
@@ -3,8 +3,11 @@
  *
  * Used flanking the secondary gauge to condense data.
  * Shows icon + value + label in a small glassmorphic circle.
+ * A `null` value renders a muted "no data" line instead of a number.
+ * A metric with a `series` gets a small sparkline under its value.
  */
 import type { WeatherMetric } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
 import { getMetricIconPresentation } from './weatherIconMap';
 import './MetricBadge.css';
 
@@ -21,12 +24,39 @@ function BadgeIcon({ icon, color }: { icon: string; color: string }) {
   );
 }
 
+const SPARK_W = 48;
+const SPARK_H = 14;
+
+/** Sparkline — unlabelled line through recent values, scaled to their own range */
+function Sparkline({ values, color }: { values: number[]; color: string }) {
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const xStep = SPARK_W / (values.length - 1);
+  const yAt = (value: number) => 1 + (1 - (value - min) / range) * (SPARK_H - 2);
+  const points = values.map((value, index) => `${(index * xStep).toFixed(1)},${yAt(value).toFixed(1)}`).join(' ');
+
+  return (
+    <svg className="badge-sparkline" viewBox={`0 0 ${SPARK_W} ${SPARK_H}`} aria-hidden>
+      <polyline points={points} fill="none" stroke={color} strokeWidth="1.4" strokeLinejoin="round"
+        strokeLinecap="round" />
+    </svg>
+  );
+}
+
 export default function MetricBadge({ metric }: MetricBadgeProps) {
+  const { t } = useTranslation();
   const accentColor = metric.color ?? '#80cbc4';
+  const hasValue = metric.value !== null;
   return (
-    <div className="metric-badge" style={{ '--badge-accent': accentColor } as React.CSSProperties}>
+    <div
+      className={hasValue ? 'metric-badge' : 'metric-badge metric-badge--no-data'}
+      style={{ '--badge-accent': accentColor } as React.CSSProperties}
+    >
       <BadgeIcon icon={metric.icon} color={accentColor} />
-      <span className="badge-value">{metric.value}{metric.unitLabel}</span>
+      {hasValue
+        ? <span className="badge-value">{metric.value}{metric.unitLabel}</span>
+        : <span className="badge-value badge-value--empty">{t('metric.noData')}</span>}
+      {metric.series && metric.series.length >= 2 && <Sparkline values={metric.series} color={accentColor} />}
       <span className="badge-label">{metric.label}</span>
     </div>
   );
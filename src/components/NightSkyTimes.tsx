@@ -0,0 +1,126 @@
+/**
+ * NightSkyTimes — Tonight's twilight, darkness window and moon for the selected location.
+ *
+ * Computed locally from the astronomy module, so it needs no network and works
+ * for every provider. "Tonight" runs from this evening's sunset to tomorrow's
+ * sunrise; before solar noon it is the night that just ended.
+ */
+import { useMemo } from 'react';
+import { getMoonIllumination, getMoonTimes, getSunTimes, toMoonPhase } from '../utils/astronomy';
+import { useTranslation } from '../hooks/useTranslation';
+import './NightSkyTimes.css';
+
+interface NightSkyTimesProps {
+  lat: number;
+  lon: number;
+}
+
+const DAY_MS = 86_400_000;
+
+/** 24-hour clock time in the browser timezone, or a dash when the event does not happen. */
+function formatTime(date: Date | null): string {
+  if (!date) return '--';
+  return date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', hour12: false });
+}
+
+function formatDuration(minutes: number): string {
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+/** Earliest candidate between `start` and `end`; moon events outside the night are left out. */
+function firstBetween(start: Date, end: Date, candidates: Array<Date | null>): Date | null {
+  return candidates
+    .filter((date): date is Date => date !== null && date > start && date < end)
+    .sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+}
+
+export default function NightSkyTimes({ lat, lon }: NightSkyTimesProps) {
+  const { t } = useTranslation();
+
+  const night = useMemo(() => {
+    const now = new Date();
+    const today = getSunTimes(now, lat, lon);
+    const eveningDate = now < today.solarNoon ? new Date(now.getTime() - DAY_MS) : now;
+    const morningDate = new Date(eveningDate.getTime() + DAY_MS);
+    const evening = getSunTimes(eveningDate, lat, lon);
+    const morning = getSunTimes(morningDate, lat, lon);
+    const eveningMoon = getMoonTimes(eveningDate, lat, lon);
+    const morningMoon = getMoonTimes(morningDate, lat, lon);
+    const moon = getMoonIllumination(now);
+    const nightStart = evening.sunset ?? evening.solarNoon;
+    const nightEnd = morning.sunrise ?? morning.solarNoon;
+    const darkMinutes =
+      evening.astronomicalDusk && morning.astronomicalDawn
+        ? Math.round((morning.astronomicalDawn.getTime() - evening.astronomicalDusk.getTime()) / 60_000)
+        : null;
+
+    return {
+      evening,
+      morning,
+      darkMinutes,
+      moonrise: firstBetween(nightStart, nightEnd, [eveningMoon.rise, morningMoon.rise]),
+      moonset: firstBetween(nightStart, nightEnd, [eveningMoon.set, morningMoon.set]),
+      moonPhase: toMoonPhase(moon.phase),
+      moonIllumination: Math.round(moon.fraction * 100),
+    };
+  }, [lat, lon]);
+
+  // Evening events pair with the matching morning event, outermost first.
+  const rows = [
+    { label: 'Sunset', evening: night.evening.sunset, morningLabel: 'Sunrise', morning: night.morning.sunrise },
+    {
+      label: 'Civil dusk',
+      evening: night.evening.civilDusk,
+      morningLabel: 'Civil dawn',
+      morning: night.morning.civilDawn,
+    },
+    {
+      label: 'Nautical dusk',
+      evening: night.evening.nauticalDusk,
+      morningLabel: 'Nautical dawn',
+      morning: night.morning.nauticalDawn,
+    },
+    {
+      label: 'Astro dusk',
+      evening: night.evening.astronomicalDusk,
+      morningLabel: 'Astro dawn',
+      morning: night.morning.astronomicalDawn,
+    },
+  ];
+
+  return (
+    <div className="night-section">
+      <div className="night-header">🌗 Tonight's Sky</div>
+
+      <div className="night-darkness">
+        {night.darkMinutes === null
+          ? 'No astronomical darkness tonight'
+          : `Fully dark ${formatTime(night.evening.astronomicalDusk)}–${formatTime(night.morning.astronomicalDawn)}`
+            + ` (${formatDuration(night.darkMinutes)})`}
+      </div>
+
+      <div className="night-grid">
+        {rows.map((row) => (
+          <div key={row.label} className="night-row">
+            <span className="night-row__label">{row.label}</span>
+            <span className="night-row__time">{formatTime(row.evening)}</span>
+            <span className="night-row__label">{row.morningLabel}</span>
+            <span className="night-row__time">{formatTime(row.morning)}</span>
+          </div>
+        ))}
+        <div className="night-row night-row--moon">
+          <span className="night-row__label">Moonrise</span>
+          <span className="night-row__time">{formatTime(night.moonrise)}</span>
+          <span className="night-row__label">Moonset</span>
+          <span className="night-row__time">{formatTime(night.moonset)}</span>
+        </div>
+      </div>
+
+      <div className="night-footer">
+        {t(`moon.${night.moonPhase}`)} · {night.moonIllumination}% illuminated
+        {' · '}Day length {formatDuration(night.evening.dayLengthMinutes)}
+        {' · '}Times in browser timezone
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * PastDaysStrip — Observed highs, lows and precipitation for the past week.
+ *
+ * Each day's high is tinted by how far it sat from the month's normal high.
+ * Days the climate station did not report show a dash.
+ */
+import type { WeatherHistory } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import './PastDaysStrip.css';
+
+interface PastDaysStripProps {
+  history: WeatherHistory;
+  /** Temperature unit */
+  unit: string;
+  /** Precipitation amount unit label (e.g., 'mm') */
+  precipUnit: string;
+}
+
+/** Highs within this many degrees of normal are not tinted */
+const NORMAL_BAND = 2;
+
+export default function PastDaysStrip({ history, unit, precipUnit }: PastDaysStripProps) {
+  const { t } = useTranslation();
+  const normalHigh = history.normals?.high ?? null;
+  const normalLow = history.normals?.low ?? null;
+
+  const toneFor = (high: number | null): string => {
+    if (high === null || normalHigh === null || Math.abs(high - normalHigh) <= NORMAL_BAND) {
+      return '';
+    }
+
+    return high > normalHigh ? 'past-high--above' : 'past-high--below';
+  };
+
+  return (
+    <div className="past-section">
+      <h3 className="past-title">{t('history.title', { count: history.days.length })}</h3>
+      <p className="past-subtitle">
+        {[
+          history.stationName && t('history.station', { station: history.stationName }),
+          history.normals && t('history.normal', {
+            high: normalHigh === null ? '--' : `${normalHigh}°`,
+            low: normalLow === null ? '--' : `${normalLow}°`,
+          }),
+        ].filter(Boolean).join(' · ')}
+      </p>
+
+      <div className="past-strip">
+        {history.days.map((item) => (
+          <div className="past-day" key={item.date}>
+            <span className="past-day-label">{item.day}</span>
+            <span className={`past-high ${toneFor(item.high)}`}>
+              {item.high === null ? '--' : `${item.high}°${unit}`}
+            </span>
+            <span className="past-low">{item.low === null ? '--' : `${item.low}°`}</span>
+            <span className={`past-precip ${item.precipitation ? '' : 'past-precip--dry'}`}>
+              {item.precipitation === null ? '--' : `${item.precipitation} ${precipUnit}`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
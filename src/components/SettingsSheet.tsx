@@ -0,0 +1,126 @@
+/**
+ * SettingsSheet — Bottom sheet for language and unit preferences.
+ *
+ * Each preference is a row of segmented options. Changes apply immediately
+ * and persist through the preferences store; the dashboard refetches so the
+ * Worker converts values into the new units.
+ */
+import { useEffect } from 'react';
+import type { Language, UnitPreferences } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { usePreferencesStore } from '../store/preferencesStore';
+import type { MessageKey } from '../utils/i18n';
+import {
+  DISTANCE_UNIT_LABELS,
+  PRECIP_UNIT_LABELS,
+  PRESSURE_UNIT_LABELS,
+  TEMPERATURE_UNIT_LABELS,
+  WIND_UNIT_LABELS,
+} from '../utils/units';
+import './SettingsSheet.css';
+
+interface SettingsSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const UNIT_ROWS: Array<{ key: keyof UnitPreferences; labelKey: MessageKey; options: Record<string, string> }> = [
+  { key: 'temperature', labelKey: 'settings.temperature', options: TEMPERATURE_UNIT_LABELS },
+  { key: 'wind', labelKey: 'settings.wind', options: WIND_UNIT_LABELS },
+  { key: 'pressure', labelKey: 'settings.pressure', options: PRESSURE_UNIT_LABELS },
+  { key: 'distance', labelKey: 'settings.distance', options: DISTANCE_UNIT_LABELS },
+  { key: 'precipitation', labelKey: 'settings.precipitation', options: PRECIP_UNIT_LABELS },
+];
+
+const LANGUAGE_OPTIONS: Array<{ id: Language; labelKey: MessageKey }> = [
+  { id: 'en', labelKey: 'language.en' },
+  { id: 'fr', labelKey: 'language.fr' },
+];
+
+export default function SettingsSheet({ isOpen, onClose }: SettingsSheetProps) {
+  const { t, language } = useTranslation();
+  const units = usePreferencesStore((state) => state.units);
+  const setLanguage = usePreferencesStore((state) => state.setLanguage);
+  const setUnits = usePreferencesStore((state) => state.setUnits);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+
+    const onKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="settings-sheet-overlay" role="dialog" aria-modal="true" aria-label={t('settings.dialog')} onClick={onClose}>
+      <div className="settings-sheet-panel" onClick={(event) => event.stopPropagation()}>
+        <header className="settings-sheet-header">
+          <h2 className="settings-sheet-title">{t('settings.title')}</h2>
+          <button className="settings-sheet-close" type="button" onClick={onClose} aria-label={t('settings.close')}>
+            ✕
+          </button>
+        </header>
+
+        <div className="settings-sheet-body">
+          <fieldset className="settings-sheet-row">
+            <legend className="settings-sheet-label">{t('settings.language')}</legend>
+            <div className="settings-sheet-options">
+              {LANGUAGE_OPTIONS.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  className={`settings-sheet-option ${language === option.id ? 'settings-sheet-option--active' : ''}`}
+                  aria-pressed={language === option.id}
+                  onClick={() => setLanguage(option.id)}
+                >
+                  {t(option.labelKey)}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          {UNIT_ROWS.map((row) => (
+            <fieldset key={row.key} className="settings-sheet-row">
+              <legend className="settings-sheet-label">{t(row.labelKey)}</legend>
+              <div className="settings-sheet-options">
+                {Object.entries(row.options).map(([id, label]) => {
+                  const isActive = units[row.key] === id;
+
+                  return (
+                    <button
+                      key={id}
+                      type="button"
+                      className={`settings-sheet-option ${isActive ? 'settings-sheet-option--active' : ''}`}
+                      aria-pressed={isActive}
+                      onClick={() => setUnits({ [row.key]: id } as Partial<UnitPreferences>)}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </fieldset>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
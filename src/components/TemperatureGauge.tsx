@@ -9,13 +9,17 @@
  *   - Today's high (small orange dot)
  *   - Current temperature (larger pulsing white dot)
  *
- * Center displays current temp + feels-like.
+ * Center displays current temp + feels-like, and how today's high compares
+ * with the month's normal high when climate normals are available.
  */
-import type { TemperatureGaugeData } from '../types';
+import type { TemperatureGaugeData, TemperatureNormals } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
 import './TemperatureGauge.css';
 
 interface TemperatureGaugeProps {
   data: TemperatureGaugeData;
+  /** Climate normals for today's month */
+  normals?: TemperatureNormals | null;
 }
 
 /* ---- Gauge geometry ---- */
@@ -142,18 +146,34 @@ function colorAtRatio(ratio: number) {
   return lastStop?.color ?? '#d84315';
 }
 
-export default function TemperatureGauge({ data }: TemperatureGaugeProps) {
-  const { current, feelsLike, low, high, min, max, unit } = data;
+function marker(angle: number) {
+  const point = pt(angle);
+  return { point, label: markerLabelPlacement(angle, point) };
+}
 
-  const curA = tempAngle(current, min, max);
-  const loA = tempAngle(low, min, max);
-  const hiA = tempAngle(high, min, max);
+/** Degree reading for labels, or a dash when the provider reported nothing */
+function formatReading(value: number | null, unit = '') {
+  return value === null ? '--' : `${value}°${unit}`;
+}
 
-  const curPt = pt(curA);
-  const loPt = pt(loA);
-  const hiPt = pt(hiA);
-  const lowLabel = markerLabelPlacement(loA, loPt);
-  const highLabel = markerLabelPlacement(hiA, hiPt);
+/** Signed difference label such as '+3°', '-2°' or '±0°' */
+function formatDeparture(diff: number) {
+  if (diff === 0) {
+    return '±0°';
+  }
+
+  return `${diff > 0 ? '+' : ''}${diff}°`;
+}
+
+export default function TemperatureGauge({ data, normals }: TemperatureGaugeProps) {
+  const { current, feelsLike, low, high, min, max, unit } = data;
+  const { t } = useTranslation();
+  const normalHigh = normals?.high ?? null;
+  const departure = high === null || normalHigh === null ? null : high - normalHigh;
+
+  const curPt = current === null ? null : pt(tempAngle(current, min, max));
+  const lowMarker = low === null ? null : marker(tempAngle(low, min, max));
+  const highMarker = high === null ? null : marker(tempAngle(high, min, max));
 
   const mainArc = arc(ARC_START, ARC_END);
   const innerArc = arc(ARC_START, ARC_END, R_INNER);
@@ -161,7 +181,9 @@ export default function TemperatureGauge({ data }: TemperatureGaugeProps) {
   return (
     <div className="gauge-container">
       <svg viewBox="0 0 400 400" className="gauge-svg" role="img"
-        aria-label={`Temperature: ${current}°${unit}, feels like ${feelsLike}°${unit}`}>
+        aria-label={current === null
+          ? t('gauge.noData')
+          : t('gauge.label', { current: formatReading(current, unit), feelsLike: formatReading(feelsLike, unit) })}>
         <defs>
           {/* Inner ring gradient — cool blue to warm orange/red, subtle */}
           <linearGradient id="hg-ig" x1="0%" y1="100%" x2="100%" y2="0%">
@@ -242,34 +264,47 @@ export default function TemperatureGauge({ data }: TemperatureGaugeProps) {
         </g>
 
         {/* Low indicator */}
-        <g filter="url(#hg-mg)">
-          <circle cx={loPt.x} cy={loPt.y} r="9" fill="#00d4ff" opacity="0.28" />
-          <circle cx={loPt.x} cy={loPt.y} r="6.5" fill="#00d4ff" stroke="rgba(255,255,255,0.95)" strokeWidth="1.4" />
-          <text x={lowLabel.x} y={lowLabel.y} textAnchor={lowLabel.textAnchor}
-            className="gauge-marker-label" fill="#00d4ff" stroke="rgba(10,12,20,0.9)" strokeWidth="0.85" paintOrder="stroke fill">{low}°</text>
-        </g>
+        {lowMarker && (
+          <g filter="url(#hg-mg)">
+            <circle cx={lowMarker.point.x} cy={lowMarker.point.y} r="9" fill="#00d4ff" opacity="0.28" />
+            <circle cx={lowMarker.point.x} cy={lowMarker.point.y} r="6.5" fill="#00d4ff" stroke="rgba(255,255,255,0.95)" strokeWidth="1.4" />
+            <text x={lowMarker.label.x} y={lowMarker.label.y} textAnchor={lowMarker.label.textAnchor}
+              className="gauge-marker-label" fill="#00d4ff" stroke="rgba(10,12,20,0.9)" strokeWidth="0.85" paintOrder="stroke fill">{formatReading(low)}</text>
+          </g>
+        )}
 
         {/* High indicator */}
-        <g filter="url(#hg-mg)">
-          <circle cx={hiPt.x} cy={hiPt.y} r="9" fill="#ff8a3d" opacity="0.3" />
-          <circle cx={hiPt.x} cy={hiPt.y} r="6.5" fill="#ff8a3d" stroke="rgba(255,255,255,0.95)" strokeWidth="1.4" />
-          <text x={highLabel.x} y={highLabel.y} textAnchor={highLabel.textAnchor}
-            className="gauge-marker-label" fill="#ff8a3d" stroke="rgba(10,12,20,0.9)" strokeWidth="0.85" paintOrder="stroke fill">{high}°</text>
-        </g>
+        {highMarker && (
+          <g filter="url(#hg-mg)">
+            <circle cx={highMarker.point.x} cy={highMarker.point.y} r="9" fill="#ff8a3d" opacity="0.3" />
+            <circle cx={highMarker.point.x} cy={highMarker.point.y} r="6.5" fill="#ff8a3d" stroke="rgba(255,255,255,0.95)" strokeWidth="1.4" />
+            <text x={highMarker.label.x} y={highMarker.label.y} textAnchor={highMarker.label.textAnchor}
+              className="gauge-marker-label" fill="#ff8a3d" stroke="rgba(10,12,20,0.9)" strokeWidth="0.85" paintOrder="stroke fill">{formatReading(high)}</text>
+          </g>
+        )}
 
         {/* Current temperature indicator — pulsing white dot */}
-        <g filter="url(#hg-dg)">
-          <circle cx={curPt.x} cy={curPt.y} r="7" fill="#ffffff"
-            className="gauge-current-indicator" />
-        </g>
-
-        {/* Center temperature text */}
-        <text x={CX} y={CY - 6} textAnchor="middle" className="gauge-temp-text">
-          {current}°{unit}
+        {curPt && (
+          <g filter="url(#hg-dg)">
+            <circle cx={curPt.x} cy={curPt.y} r="7" fill="#ffffff"
+              className="gauge-current-indicator" />
+          </g>
+        )}
+
+        {/* Center temperature text; a dash and a no-data line when there is no reading */}
+        <text x={CX} y={CY - 6} textAnchor="middle"
+          className={current === null ? 'gauge-temp-text gauge-temp-text--empty' : 'gauge-temp-text'}>
+          {formatReading(current, unit)}
         </text>
         <text x={CX} y={CY + 26} textAnchor="middle" className="gauge-feelslike-text">
-          Feels Like {feelsLike}°{unit}
+          {current === null ? t('gauge.noData') : t('gauge.feelsLike', { value: formatReading(feelsLike, unit) })}
         </text>
+        {departure !== null && (
+          <text x={CX} y={CY + 52} textAnchor="middle"
+            className={`gauge-normal-text ${departure > 0 ? 'gauge-normal-text--above' : departure < 0 ? 'gauge-normal-text--below' : ''}`}>
+            {t('gauge.vsNormal', { diff: formatDeparture(departure) })}
+          </text>
+        )}
       </svg>
     </div>
   );
@@ -2,15 +2,17 @@
  * Core Leaflet map component for the weather map page.
  *
  * Renders a full-bleed dark-themed base map with optional WMS overlays
- * (radar, satellite) passed via props.  Supports pre-cached animation
+ * (radar, satellite) and alert polygons passed via props.  Supports pre-cached animation
  * frames for flicker-free playback.
  */
-import { MapContainer, TileLayer, useMap } from 'react-leaflet';
+import { GeoJSON, MapContainer, Popup, TileLayer, useMap } from 'react-leaflet';
 import { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import './WeatherMap.css';
 import type { WmsOverlayDef } from '../../types/map';
+import type { WeatherAlert } from '../../types';
+import { getAlertSeverityColor } from '../weatherIconMap';
 
 /** CartoDB Dark Matter — dark base tiles, free, no key */
 const BASE_TILE_URL =
@@ -34,6 +36,8 @@ export interface WeatherMapProps {
   lon: number;
   zoom?: number;
   overlays?: WmsOverlayDef[];
+  /** Alert areas drawn above the WMS overlays */
+  alerts?: WeatherAlert[];
   /** Reports per-overlay cache status during pre-loading */
   onCacheStatus?: (overlayId: string, loaded: number, total: number) => void;
 }
@@ -213,11 +217,42 @@ function WmsAnimatedLayer({
   return null; // All layers managed imperatively
 }
 
+/**
+ * One GeoJSON layer per alert, outlined and tinted by severity.
+ * Keyed on id + issue time because react-leaflet's GeoJSON ignores data changes.
+ */
+function AlertPolygons({ alerts }: { alerts: WeatherAlert[] }) {
+  return (
+    <>
+      {alerts.map((alert) => {
+        if (!alert.geometry) return null;
+        const color = getAlertSeverityColor(alert.severity);
+        return (
+          <GeoJSON
+            key={`${alert.id}-${alert.issuedAt ?? ''}`}
+            data={alert.geometry}
+            style={{ color, weight: 2, fillColor: color, fillOpacity: 0.18 }}
+          >
+            <Popup maxWidth={280}>
+              <div className="map-alert-popup">
+                <strong>{alert.title}</strong>
+                {alert.areas.length > 0 && <p className="map-alert-popup-areas">{alert.areas.join(', ')}</p>}
+                {alert.description && <p className="map-alert-popup-text">{alert.description}</p>}
+              </div>
+            </Popup>
+          </GeoJSON>
+        );
+      })}
+    </>
+  );
+}
+
 export default function WeatherMap({
   lat,
   lon,
   zoom = 7,
   overlays = [],
+  alerts = [],
   onCacheStatus,
 }: WeatherMapProps) {
   return (
@@ -240,6 +275,8 @@ export default function WeatherMap({
         />
       ))}
 
+      <AlertPolygons alerts={alerts} />
+
       <RecenterOnChange lat={lat} lon={lon} zoom={zoom ?? 7} />
     </MapContainer>
   );
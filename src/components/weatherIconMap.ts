@@ -94,7 +94,7 @@ export function getMetricIconPresentation(icon: string, fallbackColor: string):
 }
 
 export function getMoonPhaseIconPresentation(phase: string, fallbackColor = '#e0e0e0'): MoonIconPresentation {
-  const normalized = phase.toLowerCase();
+  const normalized = phase.toLowerCase().replace(/-/g, ' ');
 
   if (normalized.includes('new')) {
     return { className: 'wi-moon-new', color: fallbackColor };
@@ -129,4 +129,23 @@ export function getMoonPhaseIconPresentation(phase: string, fallbackColor = '#e0
   }
 
   return { className: 'wi-moon-alt-full', color: fallbackColor };
-}
\ No newline at end of file
+}
+
+/**
+ * Badge colour for an alert severity, following EC's risk scale
+ * (yellow → orange → red); unknown severities render grey.
+ */
+export function getAlertSeverityColor(severity: string): string {
+  switch (severity) {
+    case 'extreme':
+      return '#ef5350';
+    case 'severe':
+      return '#ff9800';
+    case 'moderate':
+      return '#ffd54f';
+    case 'minor':
+      return '#90caf9';
+    default:
+      return '#b0bec5';
+  }
+}
@@ -1,16 +1,21 @@
 import { useEffect, useRef } from 'react';
-import { fetchHomeWeather, mapHomeResponseToSnapshot } from '../services/weatherClient';
+import { fetchHomeWeather, mapHomeResponseToFavoriteSnapshot, mapHomeResponseToSnapshot } from '../services/weatherClient';
+import { favoriteId, useFavoritesStore } from '../store/favoritesStore';
+import { usePreferencesStore } from '../store/preferencesStore';
 import { useWeatherStore } from '../store/weatherStore';
 
 export function useDashboardWeather(): void {
   const lat = useWeatherStore((state) => state.lat);
   const lon = useWeatherStore((state) => state.lon);
   const provider = useWeatherStore((state) => state.provider);
+  const language = usePreferencesStore((state) => state.language);
+  const units = usePreferencesStore((state) => state.units);
   const lastRequestKeyRef = useRef<string>('');
 
   useEffect(() => {
     let cancelled = false;
-    const requestKey = `${provider}:${lat.toFixed(4)}:${lon.toFixed(4)}`;
+    const unitKey = [units.temperature, units.wind, units.pressure, units.distance, units.precipitation].join(',');
+    const requestKey = `${provider}:${language}:${unitKey}:${lat.toFixed(4)}:${lon.toFixed(4)}`;
 
     if (lastRequestKeyRef.current === requestKey) {
       return;
@@ -28,15 +33,23 @@ export function useDashboardWeather(): void {
           lat,
           lon,
           provider,
-          unit: 'C',
+          units,
+          lang: language,
         });
 
         if (cancelled) {
           return;
         }
 
-        const snapshot = mapHomeResponseToSnapshot(response);
+        const snapshot = mapHomeResponseToSnapshot(response, language);
         setWeatherSnapshot(snapshot);
+
+        // Keep the favourite's summary in step when the dashboard shows a saved location.
+        const favorites = useFavoritesStore.getState();
+        const id = favoriteId(lat, lon);
+        if (favorites.favorites.some((favorite) => favorite.id === id)) {
+          favorites.setSnapshot(id, mapHomeResponseToFavoriteSnapshot(response));
+        }
       } catch (error) {
         if (cancelled) {
           return;
@@ -56,5 +69,5 @@ export function useDashboardWeather(): void {
     return () => {
       cancelled = true;
     };
-  }, [lat, lon, provider]);
+  }, [lat, lon, provider, language, units]);
 }
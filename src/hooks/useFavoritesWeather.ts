@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { fetchHomeWeatherBatch, mapHomeResponseToFavoriteSnapshot } from '../services/weatherClient';
+import { useFavoritesStore } from '../store/favoritesStore';
+import { usePreferencesStore } from '../store/preferencesStore';
+import { useWeatherStore } from '../store/weatherStore';
+
+/** Matches the Worker's per-request point limit. */
+const BATCH_LIMIT = 20;
+
+interface FavoritesWeatherStatus {
+  /** True while any favourite is still loading */
+  isLoading: boolean;
+  /** Favourites whose last request failed */
+  failedIds: string[];
+}
+
+/**
+ * Fetches current conditions for every favourite through the batch endpoint
+ * with the active provider, language and units, storing each result as that
+ * favourite's snapshot.
+ */
+export function useFavoritesWeather(): FavoritesWeatherStatus {
+  const favorites = useFavoritesStore((state) => state.favorites);
+  const provider = useWeatherStore((state) => state.provider);
+  const language = usePreferencesStore((state) => state.language);
+  const units = usePreferencesStore((state) => state.units);
+  const [isLoading, setLoading] = useState(false);
+  const [failedIds, setFailedIds] = useState<string[]>([]);
+
+  // Renames and reorders must not refetch, so depend on the coordinates only.
+  const coordsKey = favorites.map((favorite) => favorite.id).sort().join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    const targets = useFavoritesStore.getState().favorites;
+
+    if (targets.length === 0) {
+      setFailedIds([]);
+      setLoading(false);
+      return;
+    }
+
+    const load = async (): Promise<void> => {
+      setLoading(true);
+
+      const chunks: Array<typeof targets> = [];
+      for (let start = 0; start < targets.length; start += BATCH_LIMIT) {
+        chunks.push(targets.slice(start, start + BATCH_LIMIT));
+      }
+
+      const failed: string[] = [];
+      await Promise.all(
+        chunks.map(async (chunk) => {
+          try {
+            const { results } = await fetchHomeWeatherBatch({
+              points: chunk.map(({ lat, lon }) => ({ lat, lon })),
+              provider,
+              units,
+              lang: language,
+            });
+
+            chunk.forEach((favorite, index) => {
+              const result = results[index];
+              if (result?.ok) {
+                if (!cancelled) {
+                  useFavoritesStore.getState().setSnapshot(favorite.id, mapHomeResponseToFavoriteSnapshot(result.data));
+                }
+              } else {
+                failed.push(favorite.id);
+              }
+            });
+          } catch {
+            failed.push(...chunk.map((favorite) => favorite.id));
+          }
+        }),
+      );
+
+      if (cancelled) {
+        return;
+      }
+
+      setFailedIds(failed);
+      setLoading(false);
+    };
+
+    void load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [coordsKey, provider, language, units]);
+
+  return { isLoading, failedIds };
+}
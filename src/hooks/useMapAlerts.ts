@@ -0,0 +1,60 @@
+/**
+ * useMapAlerts — active warning/watch polygons around the map centre.
+ *
+ * Fetches only while the alerts layer is on, and re-fetches on the same
+ * cadence as the WMS timelines so alerts and radar stay in step.
+ */
+import { useEffect, useState } from 'react';
+import { fetchAlertsInBounds } from '../services/alertsClient';
+import { usePreferencesStore } from '../store/preferencesStore';
+import type { WeatherAlert } from '../types';
+import { MAP_REFRESH_INTERVAL_MS } from './useWmsAnimation';
+
+/** Half-size of the fetched box in degrees — comfortably larger than the viewport at zoom 7 */
+const LAT_SPAN = 6;
+const LON_SPAN = 10;
+
+export function useMapAlerts(active: boolean, lat: number, lon: number): WeatherAlert[] {
+  const [alerts, setAlerts] = useState<WeatherAlert[]>([]);
+  const language = usePreferencesStore((state) => state.language);
+
+  useEffect(() => {
+    if (!active) {
+      setAlerts([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async (): Promise<void> => {
+      try {
+        const result = await fetchAlertsInBounds(
+          {
+            west: lon - LON_SPAN,
+            south: lat - LAT_SPAN,
+            east: lon + LON_SPAN,
+            north: lat + LAT_SPAN,
+          },
+          language,
+        );
+
+        if (!cancelled) {
+          // The overlay highlights warnings and watches only.
+          setAlerts(result.filter((alert) => alert.geometry && (alert.type === 'warning' || alert.type === 'watch')));
+        }
+      } catch (err) {
+        console.error('[useMapAlerts] Failed to fetch alerts', err);
+      }
+    };
+
+    void load();
+    const id = setInterval(() => void load(), MAP_REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [active, lat, lon, language]);
+
+  return alerts;
+}
@@ -0,0 +1,60 @@
+/**
+ * useNearbyStations — live observation stations around the dashboard location.
+ *
+ * Holds which station the conditions card shows; `null` means the forecast
+ * city's conditions. The choice resets when the location changes.
+ */
+import { useEffect, useState } from 'react';
+import { fetchNearbyStations, mapStationsResponse } from '../services/weatherClient';
+import { usePreferencesStore } from '../store/preferencesStore';
+import { useWeatherStore } from '../store/weatherStore';
+import type { NearbyStation } from '../types';
+
+interface NearbyStations {
+  stations: NearbyStation[];
+  /** The selected station, or `null` for forecast-city conditions */
+  selectedStation: NearbyStation | null;
+  selectStation: (id: string | null) => void;
+}
+
+export function useNearbyStations(): NearbyStations {
+  const lat = useWeatherStore((state) => state.lat);
+  const lon = useWeatherStore((state) => state.lon);
+  const language = usePreferencesStore((state) => state.language);
+  const units = usePreferencesStore((state) => state.units);
+  const [stations, setStations] = useState<NearbyStation[]>([]);
+  // Remember which location the choice was made at, so moving drops it.
+  const locationKey = `${lat.toFixed(4)},${lon.toFixed(4)}`;
+  const [selection, setSelection] = useState<{ locationKey: string; id: string } | null>(null);
+  const selectedId = selection?.locationKey === locationKey ? selection.id : null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async (): Promise<void> => {
+      try {
+        const response = await fetchNearbyStations({ lat, lon, units });
+        if (!cancelled) {
+          setStations(mapStationsResponse(response, language));
+        }
+      } catch (err) {
+        console.error('[useNearbyStations] Failed to fetch station observations', err);
+        if (!cancelled) {
+          setStations([]);
+        }
+      }
+    };
+
+    void load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lat, lon, language, units]);
+
+  return {
+    stations,
+    selectedStation: stations.find((station) => station.id === selectedId) ?? null,
+    selectStation: (id) => setSelection(id === null ? null : { locationKey, id }),
+  };
+}
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { fetchProviders } from '../services/weatherClient';
+import { useWeatherStore } from '../store/weatherStore';
+
+/**
+ * Loads the worker's provider registry (plus modes such as `blend`) into the
+ * store so the source picker renders from data. Keeps the built-in fallback
+ * list if the request fails.
+ */
+export function useProviders(): void {
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async (): Promise<void> => {
+      try {
+        const { providers, modes } = await fetchProviders();
+        if (cancelled || providers.length === 0) {
+          return;
+        }
+
+        useWeatherStore.getState().setProviders(
+          [...providers, ...modes].map((option) => ({
+            id: option.id,
+            name: option.name,
+            shortName: option.shortName,
+          })),
+        );
+      } catch {
+        // Fallback providers remain selectable.
+      }
+    };
+
+    void load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+}
@@ -0,0 +1,20 @@
+import { useCallback } from 'react';
+import { usePreferencesStore } from '../store/preferencesStore';
+import { toLocale, translate } from '../utils/i18n';
+import type { MessageKey, TranslateParams } from '../utils/i18n';
+import type { Language } from '../types';
+
+export interface Translation {
+  /** Translate a UI string into the active language */
+  t: (key: MessageKey, params?: TranslateParams) => string;
+  language: Language;
+  /** Locale for `toLocale*String` formatting */
+  locale: string;
+}
+
+export function useTranslation(): Translation {
+  const language = usePreferencesStore((state) => state.language);
+  const t = useCallback((key: MessageKey, params?: TranslateParams) => translate(language, key, params), [language]);
+
+  return { t, language, locale: toLocale(language) };
+}
@@ -0,0 +1,51 @@
+/**
+ * useWeatherHistory — observed past week and climate normals for the dashboard location.
+ *
+ * History only changes a few times a day, so it loads once per location,
+ * unit and language rather than on the dashboard's refresh cycle.
+ */
+import { useEffect, useState } from 'react';
+import { fetchWeatherHistory, mapHistoryResponse } from '../services/weatherClient';
+import { usePreferencesStore } from '../store/preferencesStore';
+import { useWeatherStore } from '../store/weatherStore';
+import type { WeatherHistory } from '../types';
+
+export function useWeatherHistory(): WeatherHistory | null {
+  const lat = useWeatherStore((state) => state.lat);
+  const lon = useWeatherStore((state) => state.lon);
+  const language = usePreferencesStore((state) => state.language);
+  const temperatureUnit = usePreferencesStore((state) => state.units.temperature);
+  const precipUnit = usePreferencesStore((state) => state.units.precipitation);
+  const [history, setHistory] = useState<WeatherHistory | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async (): Promise<void> => {
+      try {
+        const response = await fetchWeatherHistory({
+          lat,
+          lon,
+          units: { temperature: temperatureUnit, precipitation: precipUnit },
+        });
+        if (!cancelled) {
+          setHistory(mapHistoryResponse(response, language));
+        }
+      } catch (err) {
+        // The strip and the normals indicator are extras; the dashboard works without them.
+        console.error('[useWeatherHistory] Failed to fetch history', err);
+        if (!cancelled) {
+          setHistory(null);
+        }
+      }
+    };
+
+    void load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lat, lon, language, temperatureUnit, precipUnit]);
+
+  return history;
+}
@@ -27,6 +27,12 @@ import {
  */
 const MAX_ANIMATION_FRAMES = 18;
 
+/**
+ * How often map data is re-fetched while the map is open.
+ * Radar publishes every 6 minutes; other map overlays reuse this cadence.
+ */
+export const MAP_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
 /**
  * Virtual layer key used to store HRRR forecast timeline data
  * in `layerTimes` / `layerAllTimes`.
@@ -68,6 +74,23 @@ interface LayerTimeline {
   times: string[];
 }
 
+/**
+ * Frame in `times` showing `time`, so a refresh keeps the frame being viewed.
+ * A time that aged out of the list maps to the oldest newer frame (the last
+ * frame when none is newer); an unparseable one keeps `fallback`, clamped.
+ */
+function frameForTime(times: string[], time: string | undefined, fallback: number): number {
+  if (times.length === 0) return 0;
+  const exact = time === undefined ? -1 : times.indexOf(time);
+  if (exact >= 0) return exact;
+
+  const target = time === undefined ? Number.NaN : Date.parse(time);
+  if (Number.isNaN(target)) return Math.min(Math.max(fallback, 0), times.length - 1);
+
+  const newer = times.findIndex((candidate) => Date.parse(candidate) >= target);
+  return newer >= 0 ? newer : times.length - 1;
+}
+
 /**
  * Given a list of active WMS layer names, fetch their time dimensions
  * and return animation state + controls.
@@ -89,12 +112,16 @@ export function useWmsAnimation(
   const [playing, setPlaying] = useState(false);
   const [loading, setLoading] = useState(false);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const timelinesRef = useRef<LayerTimeline[]>([]);
 
-  /* ---- Fetch time metadata when active layers change ---- */
+  /* ---- Fetch time metadata when active layers change ----
+   * `keepFrame` (periodic refresh) stays on the frame time being viewed;
+   * otherwise playback jumps to the initial frame. */
   const fetchRef = useRef(0);
-  const fetchTimelines = useCallback(async () => {
+  const fetchTimelines = useCallback(async (keepFrame = false) => {
     const nothing = activeLayerNames.length === 0 && !hrrrActive;
     if (nothing) {
+      timelinesRef.current = [];
       setTimelines([]);
       setFrameIndex(0);
       setPlaying(false);
@@ -126,13 +153,17 @@ export function useWmsAnimation(
         ? [...ecResults, hrrrTimeline]
         : ecResults;
 
+      const previousTimes = timelinesRef.current[0]?.times ?? [];
+      timelinesRef.current = combined;
       setTimelines(combined);
 
       /* Choose initial frame:
        *  • HRRR-only  → frame 0 (+0 h, the analysis)
        *  • EC primary → last frame (most recent observation) */
       const primary = combined[0];
-      if (primary) {
+      if (primary && keepFrame) {
+        setFrameIndex((prev) => frameForTime(primary.times, previousTimes[prev], prev));
+      } else if (primary) {
         const hrrrIsPrimary = primary.wmsLayer === HRRR_TIMELINE_KEY;
         setFrameIndex(hrrrIsPrimary ? 0 : primary.times.length - 1);
       }
@@ -150,6 +181,15 @@ export function useWmsAnimation(
     setPlaying(false);
   }, [fetchTimelines]);
 
+  /* ---- Periodic refresh so new frames appear without a reload;
+   * the frame being viewed stays put ---- */
+  useEffect(() => {
+    const id = setInterval(() => {
+      fetchTimelines(true);
+    }, MAP_REFRESH_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [fetchTimelines]);
+
   /* ---- Playback timer ---- */
   const totalFrames = timelines[0]?.times.length ?? 0;
 
@@ -7,11 +7,13 @@
  */
 import { useEffect, useMemo, useState } from 'react';
 import { useWeatherStore } from '../store/weatherStore';
+import { usePreferencesStore } from '../store/preferencesStore';
 import { fetchDarkSkyForecast } from '../services/darkSkyClient';
 import type { DarkSkyForecast, DarkSkyForecastItem } from '../types/darksky';
 import DarkSkyHero from '../components/DarkSkyHero';
 import DarkSkyChart from '../components/DarkSkyChart';
 import SatellitePasses from '../components/SatellitePasses';
+import NightSkyTimes from '../components/NightSkyTimes';
 import './DarkSkyPage.css';
 
 /**
@@ -52,6 +54,7 @@ export default function DarkSkyPage() {
   const lat = useWeatherStore((s) => s.lat);
   const lon = useWeatherStore((s) => s.lon);
   const location = useWeatherStore((s) => s.location);
+  const language = usePreferencesStore((s) => s.language);
 
   const [forecast, setForecast] = useState<DarkSkyForecast | null>(null);
   const [loading, setLoading] = useState(false);
@@ -63,7 +66,7 @@ export default function DarkSkyPage() {
     setLoading(true);
     setError(null);
 
-    fetchDarkSkyForecast(lat, lon)
+    fetchDarkSkyForecast(lat, lon, language)
       .then((result) => {
         if (!cancelled) {
           setForecast(result);
@@ -78,7 +81,7 @@ export default function DarkSkyPage() {
       });
 
     return () => { cancelled = true; };
-  }, [lat, lon]);
+  }, [lat, lon, language]);
 
   /** Tonight's highlight entry */
   const tonight = useMemo(() => {
@@ -105,6 +108,9 @@ export default function DarkSkyPage() {
       {/* Interactive forecast chart */}
       {!loading && forecast && <DarkSkyChart items={forecast.items} />}
 
+      {/* Twilight, darkness window and moon — computed locally */}
+      {!loading && <NightSkyTimes lat={lat} lon={lon} />}
+
       {/* Upcoming visible satellite passes */}
       {!loading && <SatellitePasses lat={lat} lon={lon} />}
 
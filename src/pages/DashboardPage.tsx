@@ -3,27 +3,29 @@
  * Layout: hero gauge → badge stacks flanking conditions card → forecasts.
  */
 import { useWeatherStore } from '../store/weatherStore';
+import { usePreferencesStore } from '../store/preferencesStore';
 import { useDashboardWeather } from '../hooks/useDashboardWeather';
+import { useNearbyStations } from '../hooks/useNearbyStations';
+import { useProviders } from '../hooks/useProviders';
+import { useTranslation } from '../hooks/useTranslation';
+import { useWeatherHistory } from '../hooks/useWeatherHistory';
 import TemperatureGauge from '../components/TemperatureGauge';
 import ConditionsCard from '../components/ConditionsCard';
 import MetricBadge from '../components/MetricBadge';
 import HourlyForecast from '../components/HourlyForecast';
 import DailyForecast from '../components/DailyForecast';
+import PastDaysStrip from '../components/PastDaysStrip';
 import LocationPicker from '../components/LocationPicker';
+import AlertBanner from '../components/AlertBanner';
+import AlertSheet from '../components/AlertSheet';
+import SettingsSheet from '../components/SettingsSheet';
+import FavoritesSwitcher from '../components/FavoritesSwitcher';
 import { useEffect, useMemo, useRef, useState } from 'react';
+import { applyStationObservation } from '../services/weatherClient';
 import type { GeocodeResult } from '../services/weatherClient';
+import { PRECIP_UNIT_LABELS } from '../utils/units';
 import './DashboardPage.css';
 
-const providerLabels = {
-  ec: 'EC',
-  twn: 'TWN',
-} as const;
-
-const providerOptions: Array<{ value: 'ec' | 'twn'; label: string }> = [
-  { value: 'ec', label: 'Environment Canada' },
-  { value: 'twn', label: 'Weather Network' },
-];
-
 const CANADIAN_PROVINCES = [
   'alberta',
   'british columbia',
@@ -167,18 +169,27 @@ function formatSelectedLocation(selection: GeocodeResult): string {
 
 export default function DashboardPage() {
   useDashboardWeather();
+  useProviders();
+  const history = useWeatherHistory();
+  const { stations, selectedStation, selectStation } = useNearbyStations();
+  const { t } = useTranslation();
   const [isLocationPickerOpen, setLocationPickerOpen] = useState(false);
   const [isSourceMenuOpen, setSourceMenuOpen] = useState(false);
+  const [isAlertSheetOpen, setAlertSheetOpen] = useState(false);
+  const [isSettingsOpen, setSettingsOpen] = useState(false);
   const sourceMenuRef = useRef<HTMLDivElement | null>(null);
 
   const {
     provider,
+    providers,
+    resolvedProvider,
     location,
     temperature,
     metrics,
     conditions,
     hourlyForecast,
     dailyForecast,
+    alerts,
     isLoading,
     error,
     lat,
@@ -188,6 +199,7 @@ export default function DashboardPage() {
     setLocation,
   } =
     useWeatherStore();
+  const units = usePreferencesStore((state) => state.units);
 
   useEffect(() => {
     if (!isSourceMenuOpen) {
@@ -222,17 +234,28 @@ export default function DashboardPage() {
     };
   }, [isSourceMenuOpen]);
 
-  const overallMin = Math.min(...dailyForecast.map((d) => d.low));
-  const overallMax = Math.max(...dailyForecast.map((d) => d.high));
+  const dailyTemps = dailyForecast.flatMap((d) => [d.low, d.high]).filter((v): v is number => v !== null);
+  const overallMin = Math.min(...dailyTemps);
+  const overallMax = Math.max(...dailyTemps);
 
   const humidity = metrics.find((m) => m.id === 'humidity');
   const pressure = metrics.find((m) => m.id === 'pressure') ?? metrics.find((m) => m.id === 'uv');
   const precip = metrics.find((m) => m.id === 'precip');
   const locationLabel = useMemo(() => formatLocationLabel(location), [location]);
-
-  /** Build sparkline data from hourly forecast */
-  const tempCurve = hourlyForecast.map((h) => ({ label: h.time, value: h.temp }));
-  const precipCurve = hourlyForecast.map((h) => ({ label: h.time, value: h.precipChance }));
+  const providerLabel = useMemo(() => {
+    const shortNameFor = (id: string): string => providers.find((option) => option.id === id)?.shortName ?? id.toUpperCase();
+    const label = shortNameFor(provider);
+    // Modes such as auto resolve to a concrete provider; show which one answered.
+    return resolvedProvider && resolvedProvider !== provider && provider === 'auto'
+      ? `${label} · ${shortNameFor(resolvedProvider)}`
+      : label;
+  }, [provider, providers, resolvedProvider]);
+
+  /** Build sparkline data from hourly forecast, skipping hours the provider left empty */
+  const tempCurve = hourlyForecast.flatMap((h) => (h.temp === null ? [] : [{ label: h.time, value: h.temp }]));
+  const precipCurve = hourlyForecast.flatMap((h) =>
+    h.precipChance === null ? [] : [{ label: h.time, value: h.precipChance }],
+  );
 
   const handleLocationConfirm = (selection: GeocodeResult): void => {
     setCoords(selection.lat, selection.lon);
@@ -247,43 +270,43 @@ export default function DashboardPage() {
         <header className="dashboard-header">
           <div className="header-content">
             <h1 className="dashboard-location">{locationLabel}</h1>
-            {isLoading && <p className="dashboard-status">Updating weather…</p>}
-            {error && !isLoading && <p className="dashboard-error">Live data unavailable. Showing latest data.</p>}
+            {isLoading && <p className="dashboard-status">{t('dashboard.updating')}</p>}
+            {error && !isLoading && <p className="dashboard-error">{t('dashboard.liveUnavailable')}</p>}
           </div>
           <div className="header-actions">
             <div className="source-switch" ref={sourceMenuRef}>
               <button
                 className="source-chip"
-                aria-label="Change weather source"
+                aria-label={t('dashboard.changeSource')}
                 aria-expanded={isSourceMenuOpen}
                 type="button"
                 onClick={() => setSourceMenuOpen((open) => !open)}
               >
-                <span className="source-chip-label">Source</span>
-                <span className="source-chip-value">{providerLabels[provider]}</span>
+                <span className="source-chip-label">{t('dashboard.source')}</span>
+                <span className="source-chip-value">{providerLabel}</span>
                 <span className={`source-chip-caret ${isSourceMenuOpen ? 'source-chip-caret--open' : ''}`} aria-hidden>▾</span>
               </button>
 
               {isSourceMenuOpen && (
-                <div className="source-menu" role="menu" aria-label="Weather source options">
-                  {providerOptions.map((option) => {
-                    const isSelected = option.value === provider;
+                <div className="source-menu" role="menu" aria-label={t('dashboard.sourceOptions')}>
+                  {providers.map((option) => {
+                    const isSelected = option.id === provider;
 
                     return (
                       <button
-                        key={option.value}
+                        key={option.id}
                         type="button"
                         role="menuitemradio"
                         aria-checked={isSelected}
                         className={`source-menu-item ${isSelected ? 'source-menu-item--selected' : ''}`}
                         onClick={() => {
                           if (!isSelected) {
-                            setProvider(option.value);
+                            setProvider(option.id);
                           }
                           setSourceMenuOpen(false);
                         }}
                       >
-                        <span>{option.label}</span>
+                        <span>{option.name}</span>
                         {isSelected && <span aria-hidden>✓</span>}
                       </button>
                     );
@@ -292,9 +315,23 @@ export default function DashboardPage() {
               )}
             </div>
 
+            <button
+              className="settings-btn"
+              type="button"
+              aria-label={t('settings.open')}
+              onClick={() => setSettingsOpen(true)}
+            >
+              <svg viewBox="0 0 24 24" width="20" height="20" fill="none" stroke="rgba(255,255,255,0.8)" strokeWidth="1.9" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M4 6h10M18 6h2M4 12h4M12 12h8M4 18h12" />
+                <circle cx="16" cy="6" r="2" />
+                <circle cx="10" cy="12" r="2" />
+                <circle cx="18" cy="18" r="2" />
+              </svg>
+            </button>
+
             <button
               className="location-map-btn"
-              aria-label="Open location picker"
+              aria-label={t('dashboard.openLocationPicker')}
               type="button"
               onClick={() => setLocationPickerOpen(true)}
             >
@@ -306,23 +343,42 @@ export default function DashboardPage() {
           </div>
         </header>
 
+        <FavoritesSwitcher
+          lat={lat}
+          lon={lon}
+          name={locationLabel}
+          onSelect={(favorite) => {
+            setCoords(favorite.lat, favorite.lon);
+            setLocation(favorite.name);
+          }}
+        />
+
+        <AlertBanner alerts={alerts} onOpen={() => setAlertSheetOpen(true)} />
+
         {/* Hero temperature gauge */}
-        <section className="gauge-section" aria-label="Current temperature">
-          <TemperatureGauge data={temperature} />
+        <section className="gauge-section" aria-label={t('dashboard.currentTemperature')}>
+          <TemperatureGauge data={temperature} normals={history?.normals} />
         </section>
 
         {/* Metrics row: stacked badges flanking conditions card */}
-        <section className="metrics-row" aria-label="Current conditions">
+        <section className="metrics-row" aria-label={t('dashboard.currentConditions')}>
           <div className="badge-stack">
             {humidity && <MetricBadge metric={humidity} />}
             {pressure && <MetricBadge metric={pressure} />}
           </div>
-          <ConditionsCard data={conditions} tempCurve={tempCurve} precipCurve={precipCurve} />
+          <ConditionsCard
+            data={selectedStation ? applyStationObservation(conditions, selectedStation) : conditions}
+            tempCurve={tempCurve}
+            precipCurve={precipCurve}
+            stations={stations}
+            selectedStationId={selectedStation?.id ?? null}
+            onSelectStation={selectStation}
+          />
           <div className="badge-stack">
             {precip && <MetricBadge metric={precip} />}
             <MetricBadge metric={{
               id: 'feelslike',
-              label: 'Feels Like',
+              label: t('metric.feelsLike'),
               value: temperature.feelsLike,
               unitLabel: `°${temperature.unit}`,
               icon: 'dewpoint',
@@ -332,20 +388,38 @@ export default function DashboardPage() {
         </section>
 
         {/* Hourly forecast */}
-        <section aria-label="Hourly forecast">
-          <HourlyForecast items={hourlyForecast} unit={temperature.unit} />
+        <section aria-label={t('dashboard.hourlyForecast')}>
+          <HourlyForecast
+            items={hourlyForecast}
+            unit={temperature.unit}
+            windUnit={conditions.windUnit}
+            precipUnit={PRECIP_UNIT_LABELS[units.precipitation]}
+          />
         </section>
 
         {/* Daily forecast */}
-        <section aria-label="Daily forecast">
+        <section aria-label={t('dashboard.dailyForecast')}>
           <DailyForecast
             items={dailyForecast}
             unit={temperature.unit}
+            windUnit={conditions.windUnit}
+            precipUnit={PRECIP_UNIT_LABELS[units.precipitation]}
             overallMin={overallMin}
             overallMax={overallMax}
           />
         </section>
 
+        {/* Observed past days; hidden where no climate station reports */}
+        {history?.stationName && (
+          <section aria-label={t('dashboard.pastDays')}>
+            <PastDaysStrip
+              history={history}
+              unit={temperature.unit}
+              precipUnit={PRECIP_UNIT_LABELS[units.precipitation]}
+            />
+          </section>
+        )}
+
         <div className="nav-spacer" />
       </main>
 
@@ -356,6 +430,10 @@ export default function DashboardPage() {
         onClose={() => setLocationPickerOpen(false)}
         onConfirm={handleLocationConfirm}
       />
+
+      <AlertSheet isOpen={isAlertSheetOpen} alerts={alerts} onClose={() => setAlertSheetOpen(false)} />
+
+      <SettingsSheet isOpen={isSettingsOpen} onClose={() => setSettingsOpen(false)} />
     </>
   );
 }
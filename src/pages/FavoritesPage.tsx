@@ -0,0 +1,152 @@
+/**
+ * FavoritesPage — Summary of every saved location.
+ *
+ * Shows current temperature and condition side by side for each favourite
+ * and manages the list: rename, reorder and delete. Tapping a card opens
+ * that location on the Today screen.
+ */
+import { useState } from 'react';
+import type { FavoriteLocation } from '../types';
+import { useFavoritesWeather } from '../hooks/useFavoritesWeather';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFavoritesStore } from '../store/favoritesStore';
+import { useWeatherStore } from '../store/weatherStore';
+import { getWeatherIconPresentation } from '../components/weatherIconMap';
+import './FavoritesPage.css';
+
+interface FavoritesPageProps {
+  /** Called after a favourite becomes the active location */
+  onOpenLocation: () => void;
+}
+
+export default function FavoritesPage({ onOpenLocation }: FavoritesPageProps) {
+  const { t } = useTranslation();
+  const { isLoading, failedIds } = useFavoritesWeather();
+  const favorites = useFavoritesStore((state) => state.favorites);
+  const snapshots = useFavoritesStore((state) => state.snapshots);
+  const renameFavorite = useFavoritesStore((state) => state.renameFavorite);
+  const moveFavorite = useFavoritesStore((state) => state.moveFavorite);
+  const removeFavorite = useFavoritesStore((state) => state.removeFavorite);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const openFavorite = (favorite: FavoriteLocation): void => {
+    const { setCoords, setLocation } = useWeatherStore.getState();
+    setCoords(favorite.lat, favorite.lon);
+    setLocation(favorite.name);
+    onOpenLocation();
+  };
+
+  const startRename = (favorite: FavoriteLocation): void => {
+    setEditingId(favorite.id);
+    setDraftName(favorite.name);
+  };
+
+  const commitRename = (id: string): void => {
+    const name = draftName.trim();
+    if (name) {
+      renameFavorite(id, name);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="favorites-page">
+      <header className="favorites-header">
+        <h1 className="favorites-title">{t('favorites.title')}</h1>
+        {isLoading && <p className="favorites-status">{t('favorites.loading')}</p>}
+      </header>
+
+      {favorites.length === 0 && <p className="favorites-empty">{t('favorites.empty')}</p>}
+
+      <ul className="favorites-grid">
+        {favorites.map((favorite, index) => {
+          const snapshot = snapshots[favorite.id];
+          const failed = failedIds.includes(favorite.id);
+          const icon = snapshot ? getWeatherIconPresentation(snapshot.conditionIcon) : null;
+
+          return (
+            <li key={favorite.id} className="favorites-card">
+              {editingId === favorite.id ? (
+                <form
+                  className="favorites-rename"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    commitRename(favorite.id);
+                  }}
+                >
+                  <input
+                    className="favorites-rename-input"
+                    aria-label={t('favorites.renameLabel')}
+                    value={draftName}
+                    autoFocus
+                    onChange={(event) => setDraftName(event.target.value)}
+                  />
+                  <button className="favorites-rename-btn" type="submit">
+                    {t('favorites.save')}
+                  </button>
+                  <button className="favorites-rename-btn" type="button" onClick={() => setEditingId(null)}>
+                    {t('favorites.cancel')}
+                  </button>
+                </form>
+              ) : (
+                <button
+                  className="favorites-card-main"
+                  type="button"
+                  aria-label={t('favorites.open', { name: favorite.name })}
+                  onClick={() => openFavorite(favorite)}
+                >
+                  <span className="favorites-card-name">{favorite.name}</span>
+                  {snapshot && icon ? (
+                    <span className="favorites-card-now">
+                      <i className={`wi ${icon.className}`} style={{ color: icon.color }} aria-hidden />
+                      <span className="favorites-card-temp">
+                        {snapshot.temperature === null ? '--' : `${Math.round(snapshot.temperature)}°${snapshot.tempUnit}`}
+                      </span>
+                      <span className="favorites-card-condition">{snapshot.condition}</span>
+                    </span>
+                  ) : (
+                    <span className="favorites-card-condition">{failed ? t('favorites.unavailable') : '…'}</span>
+                  )}
+                </button>
+              )}
+
+              <div className="favorites-card-actions">
+                <button
+                  type="button"
+                  aria-label={t('favorites.moveUp', { name: favorite.name })}
+                  disabled={index === 0}
+                  onClick={() => moveFavorite(favorite.id, -1)}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  aria-label={t('favorites.moveDown', { name: favorite.name })}
+                  disabled={index === favorites.length - 1}
+                  onClick={() => moveFavorite(favorite.id, 1)}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  aria-label={t('favorites.rename', { name: favorite.name })}
+                  onClick={() => startRename(favorite)}
+                >
+                  ✎
+                </button>
+                <button
+                  type="button"
+                  aria-label={t('favorites.delete', { name: favorite.name })}
+                  onClick={() => removeFavorite(favorite.id)}
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 /**
- * MapPage — full-bleed weather map with radar & satellite WMS overlays.
+ * MapPage — full-bleed weather map with radar & satellite WMS overlays
+ * and active alert polygons.
  *
  * Owns layer toggle state and composes WeatherMap + MapLayerControl.
  * Overlays are served directly by EC GeoMet WMS.
@@ -21,6 +22,7 @@ import {
 } from '../services/ecGeometLayers';
 import type { RadarProductId, SatelliteProductId } from '../services/ecGeometLayers';
 import { useWmsAnimation, HRRR_TIMELINE_KEY } from '../hooks/useWmsAnimation';
+import { useMapAlerts } from '../hooks/useMapAlerts';
 import { useWeatherStore } from '../store/weatherStore';
 import type { MapLayerDefinition, MapLayerId, WmsOverlayDef } from '../types/map';
 import './MapPage.css';
@@ -31,6 +33,7 @@ const DEFAULT_LAYERS: MapLayerDefinition[] = [
   { id: 'satellite', label: 'Satellite', active: false, available: true, color: '#e040fb' },
   { id: 'lightning', label: 'Lightning', active: false, available: true, color: '#ffea00' },
   { id: 'hrrr', label: 'HRRR', active: false, available: true, color: '#ff6d00' },
+  { id: 'alerts', label: 'Alerts', active: false, available: true, color: '#ff5252' },
 ];
 
 export default function MapPage() {
@@ -53,6 +56,10 @@ export default function MapPage() {
   const satelliteActive = layers.find((l) => l.id === 'satellite')?.active ?? false;
   const lightningActive = layers.find((l) => l.id === 'lightning')?.active ?? false;
   const hrrrActive = layers.find((l) => l.id === 'hrrr')?.active ?? false;
+  const alertsActive = layers.find((l) => l.id === 'alerts')?.active ?? false;
+
+  /** Alert polygons, refreshed on the WMS timeline cadence */
+  const mapAlerts = useMapAlerts(alertsActive, lat, lon);
 
   /**
    * Build list of active EC WMS layer names for the animation hook.
@@ -200,6 +207,7 @@ export default function MapPage() {
         lat={lat}
         lon={lon}
         overlays={overlays}
+        alerts={mapAlerts}
         onCacheStatus={handleCacheStatus}
       />
       <MapLayerControl
@@ -0,0 +1,22 @@
+/**
+ * Client for active weather alerts via our Cloudflare Worker.
+ * The worker reads Environment Canada's weather-alerts collection.
+ */
+import type { Language, WeatherAlert } from '../types';
+import { apiGet } from './apiClient';
+
+export interface AlertBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+/**
+ * Fetch every active alert touching the box, including polygon geometry.
+ */
+export async function fetchAlertsInBounds(bounds: AlertBounds, lang: Language): Promise<WeatherAlert[]> {
+  const bbox = [bounds.west, bounds.south, bounds.east, bounds.north].map((value) => value.toFixed(2)).join(',');
+  const payload = await apiGet('/alerts', { bbox, lang }, 'Alerts request failed');
+  return payload.alerts ?? [];
+}
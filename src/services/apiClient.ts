@@ -0,0 +1,44 @@
+/**
+ * Typed client for our Cloudflare Worker. Paths, query parameters and
+ * response types come from the contract in `workers/src/contract.ts`, so a
+ * route or type change on the worker breaks the build here, and responses
+ * are validated against the contract's schemas at runtime.
+ */
+import { API_RESPONSE_SCHEMAS } from '../../workers/src/contract';
+import type { ApiPath, ApiQuery, ApiResponse } from '../../workers/src/contract';
+import type { ErrorEnvelope } from '../../workers/src/types';
+import { parseWith } from '../../workers/src/utils/schema';
+
+export function getApiBaseUrl(): string {
+  const fromEnv = (import.meta as ImportMeta & { env?: Record<string, string | undefined> }).env
+    ?.VITE_API_BASE_URL;
+  return (fromEnv && fromEnv.trim().length > 0 ? fromEnv : '/api/v1').replace(/\/$/, '');
+}
+
+/**
+ * GET a worker route. Undefined query values are left out. Failures throw
+ * with the envelope's message, or `failure` and the status when there is none;
+ * a 200 body that does not match the route's schema throws `SchemaError`.
+ */
+export async function apiGet<P extends ApiPath>(path: P, query: ApiQuery<P>, failure: string): Promise<ApiResponse<P>> {
+  const url = new URL(`${getApiBaseUrl()}${path}`, window.location.origin);
+  for (const [name, value] of Object.entries(query as Record<string, string | number | undefined>)) {
+    if (value !== undefined) {
+      url.searchParams.set(name, String(value));
+    }
+  }
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: {
+      Accept: 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const envelope = (await response.json().catch(() => null)) as Partial<ErrorEnvelope> | null;
+    throw new Error(envelope?.error?.message ?? `${failure} (${response.status})`);
+  }
+
+  return parseWith(API_RESPONSE_SCHEMAS[path], await response.json(), `Weather API ${path}`);
+}
@@ -10,7 +10,6 @@
  * @see https://www.7timer.info/doc.php?lang=en
  */
 import type {
-  AstroApiResponse,
   AstroTimestep,
   DarkSkyForecast,
   DarkSkyForecastItem,
@@ -20,12 +19,10 @@ import type {
   WindSpeedValue,
   LiftedIndexValue,
 } from '../types/darksky';
-
-function getApiBaseUrl(): string {
-  const fromEnv = (import.meta as ImportMeta & { env?: Record<string, string | undefined> }).env
-    ?.VITE_API_BASE_URL;
-  return (fromEnv && fromEnv.trim().length > 0 ? fromEnv : '/api/v1').replace(/\/$/, '');
-}
+import type { Language } from '../types';
+import { apiGet } from './apiClient';
+import { toLocale, translate } from '../utils/i18n';
+import type { MessageKey } from '../utils/i18n';
 
 /**
  * 7Timer uses -9999 as a sentinel "no data" value for numeric fields.
@@ -38,41 +35,41 @@ const CLOUD_COVER_PCT: Record<CloudCoverValue, number> = {
   1: 3, 2: 12, 3: 25, 4: 37, 5: 50, 6: 62, 7: 75, 8: 87, 9: 97,
 };
 
-/** Cloud cover value → human label */
-const CLOUD_COVER_LABEL: Record<CloudCoverValue, string> = {
-  1: 'Clear', 2: 'Mostly Clear', 3: 'Partly Clear',
-  4: 'Partly Cloudy', 5: 'Half Cloudy', 6: 'Mostly Cloudy',
-  7: 'Cloudy', 8: 'Very Cloudy', 9: 'Overcast',
+/** Cloud cover value → label key */
+const CLOUD_COVER_LABEL: Record<CloudCoverValue, MessageKey> = {
+  1: 'darksky.cloud.1', 2: 'darksky.cloud.2', 3: 'darksky.cloud.3',
+  4: 'darksky.cloud.4', 5: 'darksky.cloud.5', 6: 'darksky.cloud.6',
+  7: 'darksky.cloud.7', 8: 'darksky.cloud.8', 9: 'darksky.cloud.9',
 };
 
-/** Seeing value → human label */
-const SEEING_LABEL: Record<SeeingValue, string> = {
-  1: 'Superb (<0.5″)', 2: 'Excellent (0.5–0.75″)', 3: 'Very Good (0.75–1″)',
-  4: 'Good (1–1.25″)', 5: 'Average (1.25–1.5″)', 6: 'Below Avg (1.5–2″)',
-  7: 'Poor (2–2.5″)', 8: 'Very Poor (>2.5″)',
+/** Seeing value → label key */
+const SEEING_LABEL: Record<SeeingValue, MessageKey> = {
+  1: 'darksky.seeing.1', 2: 'darksky.seeing.2', 3: 'darksky.seeing.3',
+  4: 'darksky.seeing.4', 5: 'darksky.seeing.5', 6: 'darksky.seeing.6',
+  7: 'darksky.seeing.7', 8: 'darksky.seeing.8',
 };
 
-/** Transparency value → human label */
-const TRANSPARENCY_LABEL: Record<TransparencyValue, string> = {
-  1: 'Superb (<0.3)', 2: 'Excellent (0.3–0.4)', 3: 'Very Good (0.4–0.5)',
-  4: 'Good (0.5–0.6)', 5: 'Average (0.6–0.7)', 6: 'Below Avg (0.7–0.85)',
-  7: 'Poor (0.85–1)', 8: 'Very Poor (>1)',
+/** Transparency value → label key */
+const TRANSPARENCY_LABEL: Record<TransparencyValue, MessageKey> = {
+  1: 'darksky.transparency.1', 2: 'darksky.transparency.2', 3: 'darksky.transparency.3',
+  4: 'darksky.transparency.4', 5: 'darksky.transparency.5', 6: 'darksky.transparency.6',
+  7: 'darksky.transparency.7', 8: 'darksky.transparency.8',
 };
 
-/** Wind speed value → human label */
-const WIND_LABEL: Record<WindSpeedValue, string> = {
-  1: 'Calm', 2: 'Light', 3: 'Moderate', 4: 'Fresh',
-  5: 'Strong', 6: 'Gale', 7: 'Storm', 8: 'Hurricane',
+/** Wind speed value → label key */
+const WIND_LABEL: Record<WindSpeedValue, MessageKey> = {
+  1: 'darksky.wind.1', 2: 'darksky.wind.2', 3: 'darksky.wind.3', 4: 'darksky.wind.4',
+  5: 'darksky.wind.5', 6: 'darksky.wind.6', 7: 'darksky.wind.7', 8: 'darksky.wind.8',
 };
 
-/** Lifted index → stability label */
-function stabilityLabel(li: LiftedIndexValue): string {
-  if (li <= -6) return 'Very Unstable';
-  if (li <= -4) return 'Unstable';
-  if (li <= -1) return 'Slightly Unstable';
-  if (li <= 2) return 'Neutral';
-  if (li <= 6) return 'Stable';
-  return 'Very Stable';
+/** Lifted index → stability label key */
+function stabilityLabel(li: LiftedIndexValue): MessageKey {
+  if (li <= -6) return 'darksky.stability.veryUnstable';
+  if (li <= -4) return 'darksky.stability.unstable';
+  if (li <= -1) return 'darksky.stability.slightlyUnstable';
+  if (li <= 2) return 'darksky.stability.neutral';
+  if (li <= 6) return 'darksky.stability.stable';
+  return 'darksky.stability.veryStable';
 }
 
 /** Humidity code → approximate percentage (7Timer astro uses -4 to 16 scale) */
@@ -126,10 +123,12 @@ function parseInitTime(init: string): Date {
 /**
  * Process a raw ASTRO API timestep into a display-ready item.
  */
-function processTimestep(ts: AstroTimestep, initDate: Date): DarkSkyForecastItem {
+function processTimestep(ts: AstroTimestep, initDate: Date, lang: Language): DarkSkyForecastItem {
   const dt = new Date(initDate.getTime() + ts.timepoint * 3600_000);
+  const label = (key: MessageKey | undefined): string => translate(lang, key ?? 'darksky.unknown');
+
   return {
-    timeLabel: dt.toLocaleString(undefined, {
+    timeLabel: dt.toLocaleString(toLocale(lang), {
       weekday: 'short',
       hour: '2-digit',
       minute: '2-digit',
@@ -137,18 +136,18 @@ function processTimestep(ts: AstroTimestep, initDate: Date): DarkSkyForecastItem
     }),
     dateTime: dt.toISOString(),
     cloudCoverPct: CLOUD_COVER_PCT[ts.cloudcover as CloudCoverValue] ?? 50,
-    cloudCoverLabel: CLOUD_COVER_LABEL[ts.cloudcover as CloudCoverValue] ?? 'Unknown',
-    seeingLabel: SEEING_LABEL[ts.seeing as SeeingValue] ?? 'Unknown',
+    cloudCoverLabel: label(CLOUD_COVER_LABEL[ts.cloudcover as CloudCoverValue]),
+    seeingLabel: label(SEEING_LABEL[ts.seeing as SeeingValue]),
     seeingValue: ts.seeing,
-    transparencyLabel: TRANSPARENCY_LABEL[ts.transparency as TransparencyValue] ?? 'Unknown',
+    transparencyLabel: label(TRANSPARENCY_LABEL[ts.transparency as TransparencyValue]),
     transparencyValue: ts.transparency,
     stargazingScore: computeStargazingScore(ts),
     temp: ts.temp2m,
-    windLabel: WIND_LABEL[ts.wind10m.speed as WindSpeedValue] ?? 'Unknown',
+    windLabel: label(WIND_LABEL[ts.wind10m.speed as WindSpeedValue]),
     windDirection: ts.wind10m.direction,
     humidityPct: humidityPct(ts.rh2m),
     precipType: ts.prec_type,
-    stabilityLabel: stabilityLabel(ts.lifted_index as LiftedIndexValue),
+    stabilityLabel: label(stabilityLabel(ts.lifted_index as LiftedIndexValue)),
   };
 }
 
@@ -158,17 +157,13 @@ function processTimestep(ts: AstroTimestep, initDate: Date): DarkSkyForecastItem
 export async function fetchDarkSkyForecast(
   lat: number,
   lon: number,
+  lang: Language,
 ): Promise<DarkSkyForecast> {
-  const apiBase = getApiBaseUrl();
-  const proxyUrl = new URL(`${apiBase}/darksky`, window.location.origin);
-  proxyUrl.searchParams.set('lat', lat.toFixed(3));
-  proxyUrl.searchParams.set('lon', lon.toFixed(3));
-
-  const res = await fetch(proxyUrl.toString());
-  if (!res.ok) {
-    throw new Error(`Dark sky proxy returned ${res.status}`);
-  }
-  const data = (await res.json()) as AstroApiResponse;
+  const data = await apiGet(
+    '/darksky',
+    { lat: Number(lat.toFixed(3)), lon: Number(lon.toFixed(3)) },
+    'Dark sky proxy request failed',
+  );
   const initDate = parseInitTime(data.init);
 
   // Filter out timesteps where 7Timer has emitted -9999 sentinel values.
@@ -182,7 +177,7 @@ export async function fetchDarkSkyForecast(
       (ts.lifted_index as number) !== SENTINEL,
   );
 
-  const items = validSeries.map((ts) => processTimestep(ts, initDate));
+  const items = validSeries.map((ts) => processTimestep(ts, initDate, lang));
 
   return {
     lat,
@@ -3,12 +3,7 @@
  * The worker queries N2YO.com for ISS, Hubble, Tiangong, etc.
  */
 import type { SatellitePassesResponse } from '../types/darksky';
-
-function getApiBaseUrl(): string {
-  const fromEnv = (import.meta as ImportMeta & { env?: Record<string, string | undefined> }).env
-    ?.VITE_API_BASE_URL;
-  return (fromEnv && fromEnv.trim().length > 0 ? fromEnv : '/api/v1').replace(/\/$/, '');
-}
+import { apiGet } from './apiClient';
 
 /**
  * Fetch upcoming bright/visible satellite passes for a location.
@@ -17,14 +12,9 @@ export async function fetchSatellitePasses(
   lat: number,
   lon: number,
 ): Promise<SatellitePassesResponse> {
-  const apiBase = getApiBaseUrl();
-  const url = new URL(`${apiBase}/satellites/passes`, window.location.origin);
-  url.searchParams.set('lat', lat.toFixed(4));
-  url.searchParams.set('lon', lon.toFixed(4));
-
-  const res = await fetch(url.toString(), { method: 'GET' });
-  if (!res.ok) {
-    throw new Error(`Satellite passes API returned ${res.status}`);
-  }
-  return (await res.json()) as SatellitePassesResponse;
+  return apiGet(
+    '/satellites/passes',
+    { lat: Number(lat.toFixed(4)), lon: Number(lon.toFixed(4)) },
+    'Satellite passes request failed',
+  );
 }
@@ -1,168 +1,166 @@
 import type {
   ConditionsCardData,
+  ConditionsSource,
   DailyForecastItem,
+  FavoriteSnapshot,
   HourlyForecastItem,
+  Language,
+  NearbyStation,
   TemperatureGaugeData,
+  TemperatureUnit,
+  UnitPreferences,
+  WeatherAlert,
+  WeatherHistory,
   WeatherMetric,
 } from '../types';
 import type { WeatherProvider, WeatherSnapshot } from '../store/weatherStore';
+import type { UnitQuery } from '../../workers/src/contract';
+import type {
+  BatchWeatherResponse,
+  DailyItem,
+  GeocodeResult,
+  HomeWeatherResponse,
+  HourlyItem,
+  NearbyStationsResponse,
+  ProviderMode,
+  ProviderSummary,
+  SourceMetadata,
+  WeatherHistoryResponse,
+} from '../../workers/src/types';
+import { apiGet } from './apiClient';
+import { getMoonIllumination, getSunTimes, toMoonPhase } from '../utils/astronomy';
+import { toLocale, translate } from '../utils/i18n';
+import { DISTANCE_UNIT_LABELS, PRESSURE_UNIT_LABELS, WIND_UNIT_LABELS } from '../utils/units';
 
-export type TemperatureUnit = 'C' | 'F';
-
-interface WorkerLocation {
-  name: string;
+interface HomeWeatherRequest {
   lat: number;
   lon: number;
+  provider: WeatherProvider;
+  units: UnitPreferences;
+  lang: Language;
 }
 
-interface WorkerCurrent {
-  temperature: number;
-  feelsLike: number;
-  condition: string;
-  icon: string;
-  humidity: number;
-  windKph: number;
-  pressureKpa: number;
-  pressureTrend: 'rising' | 'falling' | 'steady';
-  visibilityKm: number;
-  uvIndex: number;
-  sunrise?: string;
-  sunset?: string;
-}
-
-interface WorkerHourly {
-  time: string;
-  temp: number;
-  icon: string;
-  precipChance: number;
-}
-
-interface WorkerDaily {
-  day: string;
-  high: number;
-  low: number;
-  icon: string;
-  daySummary?: string;
-  nightSummary?: string;
-}
-
-interface WorkerHomeResponse {
-  provider: WeatherProvider;
-  location: WorkerLocation;
-  current: WorkerCurrent;
-  hourly: WorkerHourly[];
-  daily: WorkerDaily[];
-  alerts: unknown[];
-  updatedAt: string;
+interface BatchWeatherRequest extends Omit<HomeWeatherRequest, 'lat' | 'lon'> {
+  points: Array<{ lat: number; lon: number }>;
 }
 
-interface HomeWeatherRequest {
+interface HistoryRequest {
   lat: number;
   lon: number;
-  provider: WeatherProvider;
-  unit: TemperatureUnit;
+  units: Pick<UnitPreferences, 'temperature' | 'precipitation'>;
 }
 
-export interface GeocodeResult {
-  name: string;
+interface StationsRequest {
   lat: number;
   lon: number;
-  country?: string;
-  region?: string;
+  units: UnitPreferences;
 }
 
-function getApiBaseUrl(): string {
-  const fromEnv = (import.meta as ImportMeta & { env?: Record<string, string | undefined> }).env
-    ?.VITE_API_BASE_URL;
-  return (fromEnv && fromEnv.trim().length > 0 ? fromEnv : '/api/v1').replace(/\/$/, '');
+export type { GeocodeResult, ProviderMode, ProviderSummary };
+
+export interface ProviderCatalog {
+  providers: ProviderSummary[];
+  modes: ProviderMode[];
 }
 
-export async function fetchHomeWeather(request: HomeWeatherRequest): Promise<WorkerHomeResponse> {
-  const apiBase = getApiBaseUrl();
-  const url = new URL(`${apiBase}/weather/home`, window.location.origin);
+export async function fetchHomeWeather(request: HomeWeatherRequest): Promise<HomeWeatherResponse> {
+  return apiGet(
+    '/weather/home',
+    { lat: request.lat, lon: request.lon, provider: request.provider, ...toUnitParams(request.units), lang: request.lang },
+    'Weather request failed',
+  );
+}
 
-  url.searchParams.set('lat', String(request.lat));
-  url.searchParams.set('lon', String(request.lon));
-  url.searchParams.set('provider', request.provider);
-  url.searchParams.set('unit', request.unit);
+/** One request for many locations; results come back in the order of `points`. */
+export async function fetchHomeWeatherBatch(request: BatchWeatherRequest): Promise<BatchWeatherResponse> {
+  return apiGet(
+    '/weather/batch',
+    {
+      points: request.points.map((point) => `${point.lat},${point.lon}`).join(';'),
+      provider: request.provider,
+      ...toUnitParams(request.units),
+      lang: request.lang,
+    },
+    'Batch weather request failed',
+  );
+}
 
-  const response = await fetch(url.toString(), {
-    method: 'GET',
-    headers: {
-      Accept: 'application/json',
+/** Observed highs, lows and precipitation for the past week, with the month's climate normals. */
+export async function fetchWeatherHistory(request: HistoryRequest): Promise<WeatherHistoryResponse> {
+  return apiGet(
+    '/weather/history',
+    {
+      lat: Number(request.lat.toFixed(4)),
+      lon: Number(request.lon.toFixed(4)),
+      unit: request.units.temperature,
+      precip: request.units.precipitation,
     },
-  });
+    'History request failed',
+  );
+}
 
-  if (!response.ok) {
-    const message = await response.text();
-    throw new Error(message || `Weather request failed (${response.status})`);
-  }
+/** Latest observations at the nearest live stations, nearest first. */
+export async function fetchNearbyStations(request: StationsRequest): Promise<NearbyStationsResponse> {
+  return apiGet(
+    '/weather/stations',
+    { lat: Number(request.lat.toFixed(4)), lon: Number(request.lon.toFixed(4)), ...toUnitParams(request.units) },
+    'Station observations request failed',
+  );
+}
 
-  return (await response.json()) as WorkerHomeResponse;
+export async function fetchProviders(): Promise<ProviderCatalog> {
+  const payload = await apiGet('/providers', {}, 'Provider list request failed');
+  return {
+    providers: payload.providers ?? [],
+    modes: payload.modes ?? [],
+  };
+}
+
+function toUnitParams(units: UnitPreferences): UnitQuery {
+  return {
+    unit: units.temperature,
+    wind: units.wind,
+    pressure: units.pressure,
+    distance: units.distance,
+    precip: units.precipitation,
+  };
 }
 
-export async function searchLocations(query: string): Promise<GeocodeResult[]> {
+export async function searchLocations(query: string, lang: Language): Promise<GeocodeResult[]> {
   const normalizedQuery = query.trim();
   if (normalizedQuery.length < 2) {
     return [];
   }
 
-  const apiBase = getApiBaseUrl();
-  const url = new URL(`${apiBase}/geocode/search`, window.location.origin);
-  url.searchParams.set('q', normalizedQuery);
-
-  const response = await fetch(url.toString(), {
-    method: 'GET',
-    headers: {
-      Accept: 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const message = await response.text();
-    throw new Error(message || `Location search failed (${response.status})`);
-  }
-
-  const payload = (await response.json()) as { results: GeocodeResult[] };
+  const payload = await apiGet('/geocode/search', { q: normalizedQuery, lang }, 'Location search failed');
   return payload.results ?? [];
 }
 
-export async function reverseLocation(lat: number, lon: number): Promise<GeocodeResult> {
-  const apiBase = getApiBaseUrl();
-  const url = new URL(`${apiBase}/geocode/reverse`, window.location.origin);
-  url.searchParams.set('lat', String(lat));
-  url.searchParams.set('lon', String(lon));
-
-  const response = await fetch(url.toString(), {
-    method: 'GET',
-    headers: {
-      Accept: 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const message = await response.text();
-    throw new Error(message || `Reverse geocode failed (${response.status})`);
-  }
-
-  const payload = (await response.json()) as { result: GeocodeResult };
+export async function reverseLocation(lat: number, lon: number, lang: Language): Promise<GeocodeResult> {
+  const payload = await apiGet('/geocode/reverse', { lat, lon, lang }, 'Reverse geocode failed');
   return payload.result;
 }
 
-export function mapHomeResponseToSnapshot(response: WorkerHomeResponse): WeatherSnapshot {
-  const hourlyForecast = mapHourly(response.hourly);
-  const dailyForecast = mapDaily(response.daily);
+export function mapHomeResponseToSnapshot(response: HomeWeatherResponse, lang: Language): WeatherSnapshot {
+  const locale = toLocale(lang);
+  const { units } = response;
+  const windUnit = WIND_UNIT_LABELS[units.wind];
+  const hourlyForecast = mapHourly(response.hourly, lang);
+  const dailyForecast = mapDaily(response.daily, locale);
   const gaugeRange = selectGaugeRangeFromHourly(response.hourly, response.current.temperature);
-  const moon = getMoonData(new Date(response.updatedAt));
-  const pressureTrend = inferPressureTrend(
-    response.location.lat,
-    response.location.lon,
-    response.current.pressureKpa,
-    response.current.pressureTrend,
+  // Today at the site, not the forecast issue time: a cached forecast can date from yesterday.
+  const astronomyDate = toSiteNoon(new Date(), response.location.lon);
+  const moon = getMoonIllumination(astronomyDate);
+  // Providers that omit sunrise and sunset (TWN, NWS) fall back to the computed times.
+  const sun = getSunTimes(astronomyDate, response.location.lat, response.location.lon);
+
+  const gaugeScale = createDynamicGaugeScale(
+    gaugeRange.low,
+    gaugeRange.high,
+    response.current.temperature,
+    units.temperature,
   );
 
-  const gaugeScale = createDynamicGaugeScale(gaugeRange.low, gaugeRange.high, response.current.temperature);
-
   const temperature: TemperatureGaugeData = {
     current: response.current.temperature,
     feelsLike: response.current.feelsLike,
@@ -170,13 +168,13 @@ export function mapHomeResponseToSnapshot(response: WorkerHomeResponse): Weather
     high: gaugeRange.high,
     min: gaugeScale.min,
     max: gaugeScale.max,
-    unit: 'C',
+    unit: units.temperature,
   };
 
   const metrics: WeatherMetric[] = [
     {
       id: 'humidity',
-      label: 'Humidity',
+      label: translate(lang, 'metric.humidity'),
       value: response.current.humidity,
       unitLabel: '%',
       icon: 'humidity',
@@ -184,25 +182,26 @@ export function mapHomeResponseToSnapshot(response: WorkerHomeResponse): Weather
     },
     {
       id: 'pressure',
-      label: 'Pressure',
-      value: Number(response.current.pressureKpa.toFixed(1)),
-      unitLabel: 'kPa',
-      icon: `pressure-${pressureTrend}`,
+      label: translate(lang, 'metric.pressure'),
+      value: response.current.pressure,
+      unitLabel: PRESSURE_UNIT_LABELS[units.pressure],
+      icon: `pressure-${response.current.pressureTrend}`,
       color: '#ffd180',
+      series: response.current.pressureHistory.map((reading) => reading.pressure),
     },
     {
       id: 'precip',
-      label: 'Precip',
-      value: hourlyForecast[0]?.precipChance ?? 0,
+      label: translate(lang, 'metric.precip'),
+      value: hourlyForecast[0]?.precipChance ?? null,
       unitLabel: '%',
       icon: 'precip',
       color: '#90caf9',
     },
     {
       id: 'wind',
-      label: 'Wind',
-      value: response.current.windKph,
-      unitLabel: 'km/h',
+      label: translate(lang, 'metric.wind'),
+      value: response.current.windSpeed,
+      unitLabel: windUnit,
       icon: 'wind',
       color: '#80cbc4',
     },
@@ -211,23 +210,29 @@ export function mapHomeResponseToSnapshot(response: WorkerHomeResponse): Weather
   const conditions: ConditionsCardData = {
     condition: response.current.condition,
     conditionIcon: mapIcon(response.current.icon),
-    windSpeed: response.current.windKph,
-    windDirection: '--',
-    windUnit: 'km/h',
+    windSpeed: response.current.windSpeed,
+    windDirection: response.current.windDirection ?? '--',
+    windUnit,
     humidity: response.current.humidity,
     uvIndex: response.current.uvIndex,
-    precipChance: hourlyForecast[0]?.precipChance ?? 0,
+    precipChance: hourlyForecast[0]?.precipChance ?? null,
     feelsLike: response.current.feelsLike,
-    tempUnit: 'C',
-    sunrise: formatLocalTime(response.current.sunrise),
-    sunset: formatLocalTime(response.current.sunset),
-    moonPhase: moon.phase,
-    moonIllumination: moon.illumination,
-    sourceUpdatedAt: formatSourceUpdatedAt(response.updatedAt),
+    tempUnit: units.temperature,
+    sunrise: formatLocalTime(response.current.sunrise || sun.sunrise?.toISOString(), locale),
+    sunset: formatLocalTime(response.current.sunset || sun.sunset?.toISOString(), locale),
+    dayLengthMinutes: sun.dayLengthMinutes,
+    moonPhase: toMoonPhase(moon.phase),
+    moonIllumination: Math.round(moon.fraction * 100),
+    sourceUpdatedAt: formatSourceUpdatedAt(response.updatedAt, locale),
+    source: response.source
+      ? mapSource(response.source, response.location.name, DISTANCE_UNIT_LABELS[units.distance], locale)
+      : undefined,
   };
 
   return {
     location: response.location.name,
+    resolvedProvider: response.selection?.provider ?? response.provider,
+    alerts: sortAlertsBySeverity(response.alerts ?? []),
     temperature,
     metrics,
     conditions,
@@ -236,40 +241,118 @@ export function mapHomeResponseToSnapshot(response: WorkerHomeResponse): Weather
   };
 }
 
-function createDynamicGaugeScale(low: number, high: number, current: number): { min: number; max: number } {
-  const PADDING_C = 12;
-  const MIN_SPAN_C = 28;
-  const CLAMP_MIN_C = -50;
-  const CLAMP_MAX_C = 50;
+/** Reduce a home response to the current conditions shown in the favourites views. */
+export function mapHomeResponseToFavoriteSnapshot(response: HomeWeatherResponse): FavoriteSnapshot {
+  return {
+    temperature: response.current.temperature,
+    tempUnit: response.units.temperature,
+    condition: response.current.condition,
+    conditionIcon: mapIcon(response.current.icon),
+    updatedAt: response.updatedAt,
+  };
+}
+
+export function mapHistoryResponse(response: WeatherHistoryResponse, lang: Language): WeatherHistory {
+  const locale = toLocale(lang);
 
-  const lowValue = Number.isFinite(low) ? low : current;
-  const highValue = Number.isFinite(high) ? high : current;
+  return {
+    days: response.days.map((item) => ({
+      date: item.date,
+      day: formatDay(item.date, locale),
+      high: roundOrNull(item.high),
+      low: roundOrNull(item.low),
+      precipitation: item.precipitation,
+    })),
+    stationName: response.station?.name,
+    normals: response.normals
+      ? { high: roundOrNull(response.normals.high), low: roundOrNull(response.normals.low) }
+      : null,
+  };
+}
+
+export function mapStationsResponse(response: NearbyStationsResponse, lang: Language): NearbyStation[] {
+  const locale = toLocale(lang);
+  const distanceUnit = DISTANCE_UNIT_LABELS[response.units.distance];
+
+  return response.stations.map((station) => ({
+    id: station.id,
+    name: station.name,
+    distance: station.distance,
+    distanceUnit,
+    observedAt: formatSourceUpdatedAt(station.observedAt, locale),
+    ageMinutes: station.ageMinutes,
+    temperature: roundOrNull(station.temperature),
+    humidity: station.humidity === null ? null : clampPercent(station.humidity),
+    windSpeed: roundOrNull(station.windSpeed),
+    windGust: roundOrNull(station.windGust),
+    windDirection: station.windDirection,
+    attribution: response.attribution,
+  }));
+}
+
+/** Conditions card data with the observed values and provenance of a selected nearby station. */
+export function applyStationObservation(conditions: ConditionsCardData, station: NearbyStation): ConditionsCardData {
+  return {
+    ...conditions,
+    windSpeed: station.windSpeed,
+    windDirection: station.windDirection ?? conditions.windDirection,
+    humidity: station.humidity,
+    temperature: station.temperature,
+    sourceUpdatedAt: station.observedAt || undefined,
+    source: {
+      label: `${station.name} (${station.id})`,
+      distance: station.distance,
+      distanceUnit: station.distanceUnit,
+      observedAt: station.observedAt || undefined,
+      forecastIssuedAt: conditions.source?.forecastIssuedAt,
+      attribution: station.attribution,
+    },
+  };
+}
+
+function createDynamicGaugeScale(
+  low: number | null,
+  high: number | null,
+  current: number | null,
+  unit: TemperatureUnit,
+): { min: number; max: number } {
+  // Tuned in °C; Fahrenheit scales the spans and converts the clamps.
+  const degree = unit === 'F' ? 1.8 : 1;
+  const PADDING = 12 * degree;
+  const MIN_SPAN = 28 * degree;
+  const CLAMP_MIN = unit === 'F' ? -58 : -50;
+  const CLAMP_MAX = unit === 'F' ? 122 : 50;
+
+  // With no temperatures at all, centre an empty gauge on a mild day.
+  const anchor = current ?? low ?? high ?? (unit === 'F' ? 50 : 10);
+  const lowValue = low ?? anchor;
+  const highValue = high ?? anchor;
   const dayLow = Math.min(lowValue, highValue);
   const dayHigh = Math.max(lowValue, highValue);
 
-  let min = dayLow - PADDING_C;
-  let max = dayHigh + PADDING_C;
+  let min = dayLow - PADDING;
+  let max = dayHigh + PADDING;
 
-  if (max - min < MIN_SPAN_C) {
+  if (max - min < MIN_SPAN) {
     const midpoint = (min + max) / 2;
-    min = midpoint - MIN_SPAN_C / 2;
-    max = midpoint + MIN_SPAN_C / 2;
+    min = midpoint - MIN_SPAN / 2;
+    max = midpoint + MIN_SPAN / 2;
   }
 
-  min = Math.max(min, CLAMP_MIN_C);
-  max = Math.min(max, CLAMP_MAX_C);
+  min = Math.max(min, CLAMP_MIN);
+  max = Math.min(max, CLAMP_MAX);
 
   if (max <= min) {
-    const center = Math.max(CLAMP_MIN_C, Math.min(CLAMP_MAX_C, current));
-    min = Math.max(CLAMP_MIN_C, center - MIN_SPAN_C / 2);
-    max = Math.min(CLAMP_MAX_C, center + MIN_SPAN_C / 2);
+    const center = Math.max(CLAMP_MIN, Math.min(CLAMP_MAX, anchor));
+    min = Math.max(CLAMP_MIN, center - MIN_SPAN / 2);
+    max = Math.min(CLAMP_MAX, center + MIN_SPAN / 2);
   }
 
-  if (max - min < MIN_SPAN_C) {
-    if (min <= CLAMP_MIN_C) {
-      max = Math.min(CLAMP_MAX_C, min + MIN_SPAN_C);
-    } else if (max >= CLAMP_MAX_C) {
-      min = Math.max(CLAMP_MIN_C, max - MIN_SPAN_C);
+  if (max - min < MIN_SPAN) {
+    if (min <= CLAMP_MIN) {
+      max = Math.min(CLAMP_MAX, min + MIN_SPAN);
+    } else if (max >= CLAMP_MAX) {
+      min = Math.max(CLAMP_MIN, max - MIN_SPAN);
     }
   }
 
@@ -279,27 +362,43 @@ function createDynamicGaugeScale(low: number, high: number, current: number): {
   };
 }
 
-function mapHourly(hourly: WorkerHourly[]): HourlyForecastItem[] {
+function mapHourly(hourly: HourlyItem[], lang: Language): HourlyForecastItem[] {
   return hourly.slice(0, 24).map((item) => ({
-    time: formatHour(item.time),
-    temp: Math.round(item.temp),
+    time: formatHour(item.time, lang),
+    temp: roundOrNull(item.temp),
+    feelsLike: roundOrNull(item.feelsLike),
     icon: mapIcon(item.icon),
-    precipChance: clampPercent(item.precipChance),
+    precipChance: item.precipChance === null ? null : clampPercent(item.precipChance),
+    precipAmount: item.precipAmount,
+    humidity: item.humidity === null ? null : clampPercent(item.humidity),
+    windSpeed: roundOrNull(item.windSpeed),
+    windGust: roundOrNull(item.windGust),
+    windDirection: item.windDirection,
   }));
 }
 
-function mapDaily(daily: WorkerDaily[]): DailyForecastItem[] {
+function mapDaily(daily: DailyItem[], locale: string): DailyForecastItem[] {
   return daily.slice(0, 7).map((item) => ({
-    day: formatDay(item.day),
-    high: Math.round(item.high),
-    low: Math.round(item.low),
+    day: formatDay(item.date, locale),
+    high: roundOrNull(item.high),
+    low: roundOrNull(item.low),
     icon: mapIcon(item.icon),
     daySummary: item.daySummary,
     nightSummary: item.nightSummary,
+    precipChance: item.precipChance === null ? null : clampPercent(item.precipChance),
+    rainAmount: item.rainAmount,
+    snowAmount: item.snowAmount,
+    windSpeed: roundOrNull(item.windSpeed),
+    windGust: roundOrNull(item.windGust),
+    windDirection: item.windDirection,
+    uvIndex: roundOrNull(item.uvIndex),
   }));
 }
 
-function selectGaugeRangeFromHourly(hourly: WorkerHourly[], fallbackTemp: number): { low: number; high: number } {
+function selectGaugeRangeFromHourly(
+  hourly: HourlyItem[],
+  fallbackTemp: number | null,
+): { low: number | null; high: number | null } {
   const now = new Date();
 
   const todayValues = hourly
@@ -313,12 +412,12 @@ function selectGaugeRangeFromHourly(hourly: WorkerHourly[], fallbackTemp: number
       );
     })
     .map((item) => item.temp)
-    .filter((value) => Number.isFinite(value));
+    .filter((value): value is number => value !== null && Number.isFinite(value));
 
   if (todayValues.length === 0) {
     return {
-      low: Math.round(fallbackTemp),
-      high: Math.round(fallbackTemp),
+      low: roundOrNull(fallbackTemp),
+      high: roundOrNull(fallbackTemp),
     };
   }
 
@@ -328,36 +427,58 @@ function selectGaugeRangeFromHourly(hourly: WorkerHourly[], fallbackTemp: number
   };
 }
 
-function formatHour(value: string): string {
+/**
+ * Noon of the site's current date. Responses carry no time zone, so the date
+ * is taken in local mean solar time (15° of longitude per hour), which agrees
+ * with the civil date everywhere but close to midnight.
+ */
+function toSiteNoon(now: Date, lon: number): Date {
+  const offsetMs = (lon / 15) * 3_600_000;
+  const localDay = Math.floor((now.getTime() + offsetMs) / 86_400_000);
+  return new Date(localDay * 86_400_000 + 43_200_000 - offsetMs);
+}
+
+function roundOrNull(value: number | null): number | null {
+  return value === null ? null : Math.round(value);
+}
+
+function formatHour(value: string, lang: Language): string {
   const date = new Date(value);
   if (Number.isNaN(date.getTime())) {
     return value;
   }
 
   const hours = date.getHours();
+  if (lang === 'fr') {
+    // French Canada uses the 24-hour clock (e.g. `14 h`).
+    return `${hours} h`;
+  }
+
   const suffix = hours >= 12 ? 'PM' : 'AM';
   const normalized = hours % 12 || 12;
   return `${normalized}${suffix}`;
 }
 
-function formatDay(value: string): string {
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) {
+/** `YYYY-MM-DD` is a calendar date at the forecast point; build it in local time so it is not shifted a day. */
+function formatDay(value: string, locale: string): string {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
     return value;
   }
 
-  const weekday = date.toLocaleDateString(undefined, { weekday: 'short' });
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  const weekday = date.toLocaleDateString(locale, { weekday: 'short' });
   const dayNumber = date.getDate();
   return `${weekday} ${dayNumber}`;
 }
 
-function formatSourceUpdatedAt(value: string): string {
+function formatSourceUpdatedAt(value: string, locale: string): string {
   const date = new Date(value);
   if (Number.isNaN(date.getTime())) {
     return '';
   }
 
-  return date.toLocaleString(undefined, {
+  return date.toLocaleString(locale, {
     month: 'short',
     day: 'numeric',
     hour: 'numeric',
@@ -365,9 +486,66 @@ function formatSourceUpdatedAt(value: string): string {
   });
 }
 
+const ALERT_SEVERITY_RANK: Record<WeatherAlert['severity'], number> = {
+  extreme: 4,
+  severe: 3,
+  moderate: 2,
+  minor: 1,
+  unknown: 0,
+};
+
+const ALERT_TYPE_RANK: Record<WeatherAlert['type'], number> = {
+  warning: 3,
+  watch: 2,
+  advisory: 1,
+  statement: 0,
+};
+
+function sortAlertsBySeverity(alerts: WeatherAlert[]): WeatherAlert[] {
+  return [...alerts].sort(
+    (a, b) =>
+      (ALERT_SEVERITY_RANK[b.severity] ?? 0) - (ALERT_SEVERITY_RANK[a.severity] ?? 0) ||
+      (ALERT_TYPE_RANK[b.type] ?? 0) - (ALERT_TYPE_RANK[a.type] ?? 0),
+  );
+}
+
+function mapSource(
+  source: SourceMetadata,
+  locationName: string,
+  distanceUnit: string,
+  locale: string,
+): ConditionsSource {
+  const stationLabel = source.stationName
+    ? `${source.stationName}${source.stationId ? ` (${source.stationId})` : ''}`
+    : source.siteId ?? locationName;
+
+  return {
+    label: stationLabel,
+    distance: source.distance,
+    distanceUnit,
+    observedAt: source.observedAt ? formatSourceUpdatedAt(source.observedAt, locale) || undefined : undefined,
+    forecastIssuedAt: source.forecastIssuedAt
+      ? formatSourceUpdatedAt(source.forecastIssuedAt, locale) || undefined
+      : undefined,
+    attribution: source.attribution,
+  };
+}
+
 function mapIcon(icon: string): string {
   const normalized = icon.toLowerCase();
 
+  if (normalized.includes('snow') || normalized.includes('sleet')) {
+    return 'snow';
+  }
+
+  if (normalized.includes('thunder')) {
+    return 'thunderstorm';
+  }
+
+  if (normalized.includes('fog')) {
+    return 'fog';
+  }
+
   if (normalized.includes('rain') || normalized.includes('shower') || normalized.includes('drizzle')) {
     return 'rain';
   }
@@ -404,7 +582,7 @@ function mapIcon(icon: string): string {
   return 'partly-cloudy';
 }
 
-function formatLocalTime(value?: string): string {
+function formatLocalTime(value: string | undefined, locale: string): string {
   if (!value) {
     return '--';
   }
@@ -414,68 +592,12 @@ function formatLocalTime(value?: string): string {
     return '--';
   }
 
-  return date.toLocaleTimeString([], {
+  return date.toLocaleTimeString(locale, {
     hour: 'numeric',
     minute: '2-digit',
   });
 }
 
-function inferPressureTrend(
-  lat: number,
-  lon: number,
-  currentPressure: number,
-  apiTrend?: 'rising' | 'falling' | 'steady',
-): 'rising' | 'falling' | 'steady' {
-  if (apiTrend && apiTrend !== 'steady') {
-    return apiTrend;
-  }
-
-  const storageKey = `pressure:${lat.toFixed(2)}:${lon.toFixed(2)}`;
-  const previousRaw = window.localStorage.getItem(storageKey);
-  window.localStorage.setItem(storageKey, String(currentPressure));
-
-  if (!previousRaw) {
-    return apiTrend ?? 'steady';
-  }
-
-  const previous = Number(previousRaw);
-  if (!Number.isFinite(previous)) {
-    return apiTrend ?? 'steady';
-  }
-
-  const delta = currentPressure - previous;
-  if (delta >= 0.15) {
-    return 'rising';
-  }
-
-  if (delta <= -0.15) {
-    return 'falling';
-  }
-
-  return apiTrend ?? 'steady';
-}
-
-function getMoonData(date: Date): { phase: string; illumination: number } {
-  const synodicMonth = 29.53058867;
-  const knownNewMoon = Date.UTC(2000, 0, 6, 18, 14, 0);
-  const daysSinceKnown = (date.getTime() - knownNewMoon) / 86400000;
-  const phaseAge = ((daysSinceKnown % synodicMonth) + synodicMonth) % synodicMonth;
-  const phaseFraction = phaseAge / synodicMonth;
-  const illumination = Math.round(((1 - Math.cos(2 * Math.PI * phaseFraction)) / 2) * 100);
-
-  const phase =
-    phaseFraction < 0.03 || phaseFraction >= 0.97 ? 'New Moon'
-      : phaseFraction < 0.22 ? 'Waxing Crescent'
-        : phaseFraction < 0.28 ? 'First Quarter'
-          : phaseFraction < 0.47 ? 'Waxing Gibbous'
-            : phaseFraction < 0.53 ? 'Full Moon'
-              : phaseFraction < 0.72 ? 'Waning Gibbous'
-                : phaseFraction < 0.78 ? 'Last Quarter'
-                  : 'Waning Crescent';
-
-  return { phase, illumination };
-}
-
 function clampPercent(value: number): number {
   if (value < 0) return 0;
   if (value > 100) return 100;
@@ -0,0 +1,86 @@
+/**
+ * Zustand store for saved locations.
+ * The list is persisted; per-location snapshots are refetched each session.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { FavoriteLocation, FavoriteSnapshot } from '../types';
+
+interface FavoritesState {
+  /** Saved locations in display order */
+  favorites: FavoriteLocation[];
+  /** Latest current conditions keyed by favourite id */
+  snapshots: Record<string, FavoriteSnapshot>;
+  /** Save a location; ignored when the coordinates are already saved */
+  addFavorite: (name: string, lat: number, lon: number) => void;
+  /** Rename a favourite */
+  renameFavorite: (id: string, name: string) => void;
+  /** Move a favourite up (negative) or down (positive) the list */
+  moveFavorite: (id: string, offset: number) => void;
+  /** Delete a favourite */
+  removeFavorite: (id: string) => void;
+  /** Record the latest conditions for a favourite */
+  setSnapshot: (id: string, snapshot: FavoriteSnapshot) => void;
+}
+
+/** Coordinates rounded to ~10 m identify a favourite. */
+export function favoriteId(lat: number, lon: number): string {
+  return `${lat.toFixed(4)},${lon.toFixed(4)}`;
+}
+
+export const useFavoritesStore = create<FavoritesState>()(
+  persist(
+    (set) => ({
+      favorites: [],
+      snapshots: {},
+
+      addFavorite: (name, lat, lon) =>
+        set((state) => {
+          const id = favoriteId(lat, lon);
+          if (state.favorites.some((favorite) => favorite.id === id)) {
+            return state;
+          }
+
+          return { favorites: [...state.favorites, { id, name, lat, lon }] };
+        }),
+
+      renameFavorite: (id, name) =>
+        set((state) => ({
+          favorites: state.favorites.map((favorite) => (favorite.id === id ? { ...favorite, name } : favorite)),
+        })),
+
+      moveFavorite: (id, offset) =>
+        set((state) => {
+          const from = state.favorites.findIndex((favorite) => favorite.id === id);
+          const to = from + offset;
+          if (from < 0 || to < 0 || to >= state.favorites.length) {
+            return state;
+          }
+
+          const favorites = [...state.favorites];
+          const [moved] = favorites.splice(from, 1);
+          if (moved) {
+            favorites.splice(to, 0, moved);
+          }
+          return { favorites };
+        }),
+
+      removeFavorite: (id) =>
+        set((state) => {
+          const { [id]: _removed, ...snapshots } = state.snapshots;
+          return {
+            favorites: state.favorites.filter((favorite) => favorite.id !== id),
+            snapshots,
+          };
+        }),
+
+      setSnapshot: (id, snapshot) => set((state) => ({ snapshots: { ...state.snapshots, [id]: snapshot } })),
+    }),
+    {
+      name: 'liivsky-favorites',
+      partialize: (state) => ({
+        favorites: state.favorites,
+      }),
+    },
+  ),
+);
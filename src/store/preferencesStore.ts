@@ -0,0 +1,34 @@
+/**
+ * Zustand store for user preferences that apply across every page.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Language, UnitPreferences } from '../types';
+import { detectLanguage } from '../utils/i18n';
+import { DEFAULT_UNITS } from '../utils/units';
+
+interface PreferencesState {
+  /** UI and provider text language */
+  language: Language;
+  /** Units the Worker converts weather values into */
+  units: UnitPreferences;
+  /** Set language */
+  setLanguage: (language: Language) => void;
+  /** Update one or more unit preferences */
+  setUnits: (units: Partial<UnitPreferences>) => void;
+}
+
+export const usePreferencesStore = create<PreferencesState>()(
+  persist(
+    (set) => ({
+      language: detectLanguage(),
+      units: DEFAULT_UNITS,
+
+      setLanguage: (language) => set({ language }),
+      setUnits: (units) => set((state) => ({ units: { ...state.units, ...units } })),
+    }),
+    {
+      name: 'liivsky-preferences',
+    },
+  ),
+);
@@ -10,12 +10,32 @@ import type {
   HourlyForecastItem,
   DailyForecastItem,
   ConditionsCardData,
+  WeatherAlert,
 } from '../types';
 
-export type WeatherProvider = 'ec' | 'twn';
+/** Provider id as advertised by the worker's `/providers` endpoint */
+export type WeatherProvider = string;
+
+/** Source picker entry */
+export interface ProviderOption {
+  id: WeatherProvider;
+  name: string;
+  shortName: string;
+}
+
+/** Used until the worker's provider list has loaded */
+const FALLBACK_PROVIDERS: ProviderOption[] = [
+  { id: 'auto', name: 'Automatic (best for location)', shortName: 'Auto' },
+  { id: 'ec', name: 'Environment Canada', shortName: 'EC' },
+  { id: 'twn', name: 'Weather Network', shortName: 'TWN' },
+];
 
 export interface WeatherSnapshot {
   location: string;
+  /** Provider that actually answered (differs from the selection for modes like auto) */
+  resolvedProvider: WeatherProvider;
+  /** Active alerts, most severe first */
+  alerts: WeatherAlert[];
   temperature: TemperatureGaugeData;
   metrics: WeatherMetric[];
   conditions: ConditionsCardData;
@@ -26,6 +46,10 @@ export interface WeatherSnapshot {
 interface WeatherState {
   /** Active provider */
   provider: WeatherProvider;
+  /** Providers available for selection */
+  providers: ProviderOption[];
+  /** Provider that answered the last request, null before the first load */
+  resolvedProvider: WeatherProvider | null;
   /** Selected latitude */
   lat: number;
   /** Selected longitude */
@@ -46,8 +70,12 @@ interface WeatherState {
   hourlyForecast: HourlyForecastItem[];
   /** Daily forecast items */
   dailyForecast: DailyForecastItem[];
+  /** Active alerts, most severe first */
+  alerts: WeatherAlert[];
   /** Set provider */
   setProvider: (provider: WeatherProvider) => void;
+  /** Replace the selectable provider list */
+  setProviders: (providers: ProviderOption[]) => void;
   /** Set location label */
   setLocation: (location: string) => void;
   /** Set selected coordinates */
@@ -64,7 +92,9 @@ interface WeatherState {
 export const useWeatherStore = create<WeatherState>()(
   persist(
     (set) => ({
-  provider: 'ec',
+  provider: 'auto',
+  providers: FALLBACK_PROVIDERS,
+  resolvedProvider: null,
   lat: 43.6532,
   lon: -79.3832,
   isLoading: false,
@@ -101,36 +131,37 @@ export const useWeatherStore = create<WeatherState>()(
     tempUnit: 'F',
     sunrise: '6:42 AM',
     sunset: '8:15 PM',
-    moonPhase: 'Waxing Crescent',
+    dayLengthMinutes: 813,
+    moonPhase: 'waxing-crescent',
     moonIllumination: 34,
     sourceUpdatedAt: 'Aug 27, 3:12 PM',
   },
 
   hourlyForecast: [
-    { time: '12PM', temp: 76, icon: 'partly-cloudy', precipChance: 20 },
-    { time: '1PM', temp: 77, icon: 'partly-cloudy', precipChance: 30 },
-    { time: '2PM', temp: 78, icon: 'cloudy', precipChance: 30 },
-    { time: '3PM', temp: 78, icon: 'cloudy', precipChance: 47 },
-    { time: '4PM', temp: 76, icon: 'rain', precipChance: 72 },
-    { time: '5PM', temp: 74, icon: 'rain', precipChance: 99 },
-    { time: '6PM', temp: 72, icon: 'partly-cloudy', precipChance: 40 },
-    { time: '7PM', temp: 70, icon: 'clear', precipChance: 10 },
-    { time: '8PM', temp: 68, icon: 'clear', precipChance: 5 },
-    { time: '9PM', temp: 66, icon: 'clear', precipChance: 3 },
-    { time: '10PM', temp: 65, icon: 'clear', precipChance: 2 },
-    { time: '11PM', temp: 64, icon: 'clear', precipChance: 2 },
-    { time: '12AM', temp: 63, icon: 'clear', precipChance: 1 },
-    { time: '1AM', temp: 62, icon: 'clear', precipChance: 1 },
-    { time: '2AM', temp: 61, icon: 'clear', precipChance: 1 },
-    { time: '3AM', temp: 60, icon: 'clear', precipChance: 2 },
-    { time: '4AM', temp: 59, icon: 'clear', precipChance: 5 },
-    { time: '5AM', temp: 58, icon: 'clear', precipChance: 8 },
-    { time: '6AM', temp: 59, icon: 'partly-cloudy', precipChance: 12 },
-    { time: '7AM', temp: 61, icon: 'partly-cloudy', precipChance: 15 },
-    { time: '8AM', temp: 64, icon: 'partly-cloudy', precipChance: 18 },
-    { time: '9AM', temp: 67, icon: 'partly-cloudy', precipChance: 20 },
-    { time: '10AM', temp: 71, icon: 'cloudy', precipChance: 25 },
-    { time: '11AM', temp: 74, icon: 'cloudy', precipChance: 30 },
+    { time: '12PM', temp: 76, feelsLike: 74, icon: 'partly-cloudy', precipChance: 20, precipAmount: 0, humidity: 60, windSpeed: 8, windGust: 15, windDirection: 'W' },
+    { time: '1PM', temp: 77, feelsLike: 75, icon: 'partly-cloudy', precipChance: 30, precipAmount: 0, humidity: 65, windSpeed: 15, windGust: 22, windDirection: 'W' },
+    { time: '2PM', temp: 78, feelsLike: 76, icon: 'cloudy', precipChance: 30, precipAmount: 0, humidity: 65, windSpeed: 13, windGust: 20, windDirection: 'NW' },
+    { time: '3PM', temp: 78, feelsLike: 76, icon: 'cloudy', precipChance: 47, precipAmount: 1.2, humidity: 73, windSpeed: 11, windGust: 18, windDirection: 'NW' },
+    { time: '4PM', temp: 76, feelsLike: 74, icon: 'rain', precipChance: 72, precipAmount: 1.8, humidity: 86, windSpeed: 9, windGust: 16, windDirection: 'NW' },
+    { time: '5PM', temp: 74, feelsLike: 72, icon: 'rain', precipChance: 99, precipAmount: 2.5, humidity: 95, windSpeed: 16, windGust: 23, windDirection: 'N' },
+    { time: '6PM', temp: 72, feelsLike: 70, icon: 'partly-cloudy', precipChance: 40, precipAmount: 1.0, humidity: 70, windSpeed: 14, windGust: 21, windDirection: 'N' },
+    { time: '7PM', temp: 70, feelsLike: 68, icon: 'clear', precipChance: 10, precipAmount: 0, humidity: 55, windSpeed: 12, windGust: 19, windDirection: 'N' },
+    { time: '8PM', temp: 68, feelsLike: 66, icon: 'clear', precipChance: 5, precipAmount: 0, humidity: 52, windSpeed: 10, windGust: 17, windDirection: 'NE' },
+    { time: '9PM', temp: 66, feelsLike: 64, icon: 'clear', precipChance: 3, precipAmount: 0, humidity: 51, windSpeed: 8, windGust: 15, windDirection: 'NE' },
+    { time: '10PM', temp: 65, feelsLike: 63, icon: 'clear', precipChance: 2, precipAmount: 0, humidity: 51, windSpeed: 15, windGust: 22, windDirection: 'E' },
+    { time: '11PM', temp: 64, feelsLike: 62, icon: 'clear', precipChance: 2, precipAmount: 0, humidity: 51, windSpeed: 13, windGust: 20, windDirection: 'E' },
+    { time: '12AM', temp: 63, feelsLike: 61, icon: 'clear', precipChance: 1, precipAmount: 0, humidity: 50, windSpeed: 11, windGust: 18, windDirection: 'E' },
+    { time: '1AM', temp: 62, feelsLike: 60, icon: 'clear', precipChance: 1, precipAmount: 0, humidity: 50, windSpeed: 9, windGust: 16, windDirection: 'SE' },
+    { time: '2AM', temp: 61, feelsLike: 59, icon: 'clear', precipChance: 1, precipAmount: 0, humidity: 50, windSpeed: 16, windGust: 23, windDirection: 'SE' },
+    { time: '3AM', temp: 60, feelsLike: 58, icon: 'clear', precipChance: 2, precipAmount: 0, humidity: 51, windSpeed: 14, windGust: 21, windDirection: 'S' },
+    { time: '4AM', temp: 59, feelsLike: 57, icon: 'clear', precipChance: 5, precipAmount: 0, humidity: 52, windSpeed: 12, windGust: 19, windDirection: 'S' },
+    { time: '5AM', temp: 58, feelsLike: 56, icon: 'clear', precipChance: 8, precipAmount: 0, humidity: 54, windSpeed: 10, windGust: 17, windDirection: 'SW' },
+    { time: '6AM', temp: 59, feelsLike: 57, icon: 'partly-cloudy', precipChance: 12, precipAmount: 0, humidity: 56, windSpeed: 8, windGust: 15, windDirection: 'SW' },
+    { time: '7AM', temp: 61, feelsLike: 59, icon: 'partly-cloudy', precipChance: 15, precipAmount: 0, humidity: 57, windSpeed: 15, windGust: 22, windDirection: 'SW' },
+    { time: '8AM', temp: 64, feelsLike: 62, icon: 'partly-cloudy', precipChance: 18, precipAmount: 0, humidity: 59, windSpeed: 13, windGust: 20, windDirection: 'W' },
+    { time: '9AM', temp: 67, feelsLike: 65, icon: 'partly-cloudy', precipChance: 20, precipAmount: 0, humidity: 60, windSpeed: 11, windGust: 18, windDirection: 'W' },
+    { time: '10AM', temp: 71, feelsLike: 69, icon: 'cloudy', precipChance: 25, precipAmount: 0, humidity: 62, windSpeed: 9, windGust: 16, windDirection: 'W' },
+    { time: '11AM', temp: 74, feelsLike: 72, icon: 'cloudy', precipChance: 30, precipAmount: 0, humidity: 65, windSpeed: 16, windGust: 23, windDirection: 'W' },
   ],
 
   dailyForecast: [
@@ -141,6 +172,13 @@ export const useWeatherStore = create<WeatherState>()(
       icon: 'partly-cloudy',
       daySummary: 'A mix of sun and cloud with a warmer afternoon and light west wind.',
       nightSummary: 'Partly cloudy overnight. Mild evening before cooling toward dawn.',
+      precipChance: 10,
+      rainAmount: 0,
+      snowAmount: 0,
+      windSpeed: 14,
+      windGust: 22,
+      windDirection: 'W',
+      uvIndex: 7,
     },
     {
       day: 'Tue',
@@ -149,6 +187,13 @@ export const useWeatherStore = create<WeatherState>()(
       icon: 'rain',
       daySummary: 'Clouds build early with scattered showers developing through the afternoon.',
       nightSummary: 'Periods of rain taper to patchy drizzle late. Breezy at times.',
+      precipChance: 80,
+      rainAmount: 12.5,
+      snowAmount: 0,
+      windSpeed: 24,
+      windGust: 41,
+      windDirection: 'SW',
+      uvIndex: 4,
     },
     {
       day: 'Wed',
@@ -157,6 +202,13 @@ export const useWeatherStore = create<WeatherState>()(
       icon: 'cloudy',
       daySummary: 'Mostly cloudy and cooler with occasional breaks in the cloud deck.',
       nightSummary: 'Overcast through much of the night with a slight chance of a brief shower.',
+      precipChance: 40,
+      rainAmount: 2,
+      snowAmount: 0,
+      windSpeed: 18,
+      windGust: 30,
+      windDirection: 'NW',
+      uvIndex: 5,
     },
     {
       day: 'Thu',
@@ -165,6 +217,13 @@ export const useWeatherStore = create<WeatherState>()(
       icon: 'partly-cloudy',
       daySummary: 'Partly cloudy skies with improving conditions by midday.',
       nightSummary: 'Clearer in the evening, then some high cloud drifting in overnight.',
+      precipChance: 20,
+      rainAmount: 0,
+      snowAmount: 0,
+      windSpeed: 12,
+      windGust: 20,
+      windDirection: 'N',
+      uvIndex: 6,
     },
     {
       day: 'Fri',
@@ -173,6 +232,13 @@ export const useWeatherStore = create<WeatherState>()(
       icon: 'clear',
       daySummary: 'Hot and mainly sunny with dry air and low precipitation risk.',
       nightSummary: 'Clear and warm in the evening; comfortable late night temperatures.',
+      precipChance: 5,
+      rainAmount: 0,
+      snowAmount: 0,
+      windSpeed: 9,
+      windGust: 15,
+      windDirection: 'S',
+      uvIndex: 8,
     },
     {
       day: 'Sat',
@@ -181,6 +247,13 @@ export const useWeatherStore = create<WeatherState>()(
       icon: 'clear',
       daySummary: 'Peak heat of the week under mostly clear skies and light wind.',
       nightSummary: 'Mostly clear and muggy overnight with little cloud cover.',
+      precipChance: 0,
+      rainAmount: 0,
+      snowAmount: 0,
+      windSpeed: 11,
+      windGust: 18,
+      windDirection: 'SW',
+      uvIndex: 9,
     },
     {
       day: 'Sun',
@@ -189,17 +262,30 @@ export const useWeatherStore = create<WeatherState>()(
       icon: 'partly-cloudy',
       daySummary: 'Warm with filtered sun and a slight chance of a late isolated shower.',
       nightSummary: 'Partly cloudy with a gentle cooldown through the night.',
+      precipChance: 30,
+      rainAmount: 1.5,
+      snowAmount: 0,
+      windSpeed: 16,
+      windGust: 26,
+      windDirection: 'W',
+      uvIndex: 7,
     },
   ],
 
+  alerts: [],
+
   setProvider: (provider) => set({ provider }),
 
+  setProviders: (providers) => set({ providers }),
+
   setLocation: (location) => set({ location }),
 
   setCoords: (lat, lon) => set({ lat, lon }),
 
   setWeatherSnapshot: (snapshot) =>
     set({
+      resolvedProvider: snapshot.resolvedProvider,
+      alerts: snapshot.alerts,
       temperature: snapshot.temperature,
       metrics: snapshot.metrics,
       conditions: snapshot.conditions,
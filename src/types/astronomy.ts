@@ -0,0 +1,34 @@
+/**
+ * Types for the sun and moon calculations in `utils/astronomy`.
+ * Times are absolute instants; format them for display in the component.
+ */
+
+export interface SunTimes {
+  /** `null` when the sun does not rise or set that day (polar day or night). */
+  sunrise: Date | null;
+  sunset: Date | null;
+  solarNoon: Date;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+  nauticalDawn: Date | null;
+  nauticalDusk: Date | null;
+  astronomicalDawn: Date | null;
+  astronomicalDusk: Date | null;
+  /** Minutes from sunrise to sunset; 0 or 1440 when the sun stays down or up. */
+  dayLengthMinutes: number;
+}
+
+export interface MoonTimes {
+  /** `null` when the moon does not rise (or set) during the day. */
+  rise: Date | null;
+  set: Date | null;
+  alwaysUp: boolean;
+  alwaysDown: boolean;
+}
+
+export interface MoonIllumination {
+  /** Illuminated fraction of the disc, 0–1. */
+  fraction: number;
+  /** Position in the synodic cycle: 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter. */
+  phase: number;
+}
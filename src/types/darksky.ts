@@ -2,70 +2,25 @@
  * Types for the Dark Sky / Astronomy forecast feature.
  * Based on the 7Timer! ASTRO API response format.
  *
+ * The raw 7Timer and satellite-pass payloads are what the worker returns, so
+ * they live with the worker API types and are re-exported here.
+ *
  * @see https://www.7timer.info/doc.php?lang=en#api
  */
+import type { PrecipType } from '../../workers/src/types';
 
-/**
- * Cloud cover scale (1–9) from the 7Timer API.
- * 1 = 0–6%, 9 = 94–100%.
- */
-export type CloudCoverValue = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
-
-/**
- * Astronomical seeing scale (1–8).
- * 1 = <0.5" (excellent), 8 = >2.5" (poor).
- */
-export type SeeingValue = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
-
-/**
- * Atmospheric transparency scale (1–8).
- * 1 = <0.3 mag/airmass (excellent), 8 = >1 mag/airmass (poor).
- */
-export type TransparencyValue = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
-
-/** Lifted index values from the 7Timer API */
-export type LiftedIndexValue = -10 | -6 | -4 | -1 | 2 | 6 | 10 | 15;
-
-/** 10m wind speed scale (1–8) */
-export type WindSpeedValue = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
-
-/** Precipitation type from the 7Timer API */
-export type PrecipType = 'snow' | 'rain' | 'frzr' | 'icep' | 'none';
-
-/** A single 3-hourly forecast timestep from the ASTRO product */
-export interface AstroTimestep {
-  /** Hours offset from forecast init time */
-  timepoint: number;
-  /** Cloud cover (1–9 scale) */
-  cloudcover: CloudCoverValue;
-  /** Astronomical seeing (1–8 scale) */
-  seeing: SeeingValue;
-  /** Atmospheric transparency (1–8 scale) */
-  transparency: TransparencyValue;
-  /** Atmospheric instability / lifted index */
-  lifted_index: LiftedIndexValue;
-  /** 2m relative humidity (-4 to 16 scale) */
-  rh2m: number;
-  /** 10m wind direction */
-  wind10m: {
-    direction: string;
-    speed: WindSpeedValue;
-  };
-  /** 2m temperature in °C */
-  temp2m: number;
-  /** Precipitation type */
-  prec_type: PrecipType;
-}
-
-/** Raw 7Timer ASTRO API response */
-export interface AstroApiResponse {
-  /** Forecast product identifier */
-  product: string;
-  /** Forecast initialization time (YYYYMMDDHH format) */
-  init: string;
-  /** Array of 3-hourly forecast data */
-  dataseries: AstroTimestep[];
-}
+export type {
+  CloudCoverValue,
+  SeeingValue,
+  TransparencyValue,
+  LiftedIndexValue,
+  WindSpeedValue,
+  PrecipType,
+  AstroTimestep,
+  AstroApiResponse,
+  SatellitePass,
+  SatellitePassesResponse,
+} from '../../workers/src/types';
 
 /** Processed astronomy forecast entry for display */
 export interface DarkSkyForecastItem {
@@ -112,34 +67,3 @@ export interface DarkSkyForecast {
   /** 3-hourly forecast items */
   items: DarkSkyForecastItem[];
 }
-
-// ======== Satellite visual passes (N2YO) ========
-
-/** A single visible satellite pass. */
-export interface SatellitePass {
-  /** Satellite name (e.g. "ISS (ZARYA)") */
-  satName: string;
-  /** NORAD catalog ID */
-  satId: number;
-  /** Pass start UTC timestamp (seconds) */
-  startUTC: number;
-  /** Max elevation in degrees above horizon */
-  maxEl: number;
-  /** Duration of visibility in seconds */
-  duration: number;
-  /** Start azimuth label (e.g. "NW") */
-  startAz: string;
-  /** Start compass degrees */
-  startAzCompass: number;
-  /** End azimuth label */
-  endAz: string;
-  /** End compass degrees */
-  endAzCompass: number;
-  /** Apparent magnitude (lower = brighter, e.g. -3.5 for ISS) */
-  mag: number;
-}
-
-/** Response from our worker satellite passes endpoint. */
-export interface SatellitePassesResponse {
-  passes: SatellitePass[];
-}
@@ -1,12 +1,30 @@
 /** Barrel export for all shared types */
 export type {
   TemperatureUnit,
+  WindUnit,
+  PressureUnit,
+  DistanceUnit,
+  PrecipUnit,
+  UnitPreferences,
+  Language,
+  MoonPhase,
   TemperatureGaugeData,
+  TemperatureNormals,
   WeatherMetric,
   HourlyForecastItem,
   DailyForecastItem,
+  PastDayItem,
+  WeatherHistory,
   NavTab,
+  FavoriteLocation,
+  FavoriteSnapshot,
   ConditionsCardData,
+  ConditionsSource,
+  NearbyStation,
+  AlertType,
+  AlertSeverity,
+  WeatherAlert,
+  AlertGeometry,
 } from './weather';
 
 export type {
@@ -3,7 +3,7 @@
  */
 
 /** Available overlay layer identifiers */
-export type MapLayerId = 'radar' | 'satellite' | 'hrrr' | 'lightning';
+export type MapLayerId = 'radar' | 'satellite' | 'hrrr' | 'lightning' | 'alerts';
 
 /** Metadata for a single map overlay layer */
 export interface MapLayerDefinition {
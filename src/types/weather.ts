@@ -6,16 +6,51 @@
 /** Temperature unit preference */
 export type TemperatureUnit = 'C' | 'F';
 
-/** Props for the main temperature gauge component */
+/** Wind speed unit preference */
+export type WindUnit = 'kmh' | 'mph' | 'ms' | 'kn';
+
+/** Pressure unit preference */
+export type PressureUnit = 'kpa' | 'hpa' | 'inhg';
+
+/** Distance unit preference */
+export type DistanceUnit = 'km' | 'mi';
+
+/** Precipitation amount unit preference */
+export type PrecipUnit = 'mm' | 'in';
+
+/** Units the Worker converts every quantity into */
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  wind: WindUnit;
+  pressure: PressureUnit;
+  distance: DistanceUnit;
+  precipitation: PrecipUnit;
+}
+
+/** UI and provider text language */
+export type Language = 'en' | 'fr';
+
+/** Lunar phase id; display names come from the i18n tables */
+export type MoonPhase =
+  | 'new-moon'
+  | 'waxing-crescent'
+  | 'first-quarter'
+  | 'waxing-gibbous'
+  | 'full-moon'
+  | 'waning-gibbous'
+  | 'last-quarter'
+  | 'waning-crescent';
+
+/** Props for the main temperature gauge component; `null` means the provider has no data */
 export interface TemperatureGaugeData {
   /** Current temperature reading */
-  current: number;
+  current: number | null;
   /** Feels-like temperature */
-  feelsLike: number;
+  feelsLike: number | null;
   /** Today's forecasted low */
-  low: number;
+  low: number | null;
   /** Today's forecasted high */
-  high: number;
+  high: number | null;
   /** Gauge scale minimum (extreme low) */
   min: number;
   /** Gauge scale maximum (extreme high) */
@@ -24,48 +59,108 @@ export interface TemperatureGaugeData {
   unit: TemperatureUnit;
 }
 
+/** Climate normals for today's month, for the gauge's "vs normal" indicator */
+export interface TemperatureNormals {
+  /** Mean daily high for the month */
+  high: number | null;
+  /** Mean daily low for the month */
+  low: number | null;
+}
+
 /** A single weather metric for display in a card */
 export interface WeatherMetric {
   /** Unique identifier */
   id: string;
   /** Display label */
   label: string;
-  /** Numeric value */
-  value: number;
+  /** Numeric value, or `null` when the provider has no data */
+  value: number | null;
   /** Unit string for display (e.g., '%', '°F', 'UV') */
   unitLabel: string;
   /** Icon identifier */
   icon: string;
   /** Optional accent color */
   color?: string;
+  /** Recent values, oldest first, drawn as a sparkline when there are at least two */
+  series?: number[];
 }
 
 /** A single hour in the hourly forecast */
 export interface HourlyForecastItem {
   /** Hour label (e.g., '2PM') */
   time: string;
-  /** Temperature for this hour */
-  temp: number;
+  /** Temperature for this hour, or `null` when not forecast */
+  temp: number | null;
+  /** Feels-like temperature */
+  feelsLike: number | null;
   /** Icon identifier for conditions */
   icon: string;
-  /** Precipitation probability as percentage */
-  precipChance: number;
+  /** Precipitation probability as percentage, or `null` when not forecast */
+  precipChance: number | null;
+  /** Precipitation amount for the hour */
+  precipAmount: number | null;
+  /** Relative humidity percentage */
+  humidity: number | null;
+  /** Wind speed */
+  windSpeed: number | null;
+  /** Wind gust speed */
+  windGust: number | null;
+  /** Wind direction label (e.g., 'NW') */
+  windDirection?: string;
 }
 
 /** A single day in the daily forecast */
 export interface DailyForecastItem {
   /** Day label (e.g., 'Mon', 'Tue') */
   day: string;
-  /** High temperature */
-  high: number;
-  /** Low temperature */
-  low: number;
+  /** High temperature, or `null` when not forecast */
+  high: number | null;
+  /** Low temperature, or `null` when not forecast */
+  low: number | null;
   /** Icon identifier for conditions */
   icon: string;
   /** Optional daytime narrative forecast */
   daySummary?: string;
   /** Optional nighttime narrative forecast */
   nightSummary?: string;
+  /** Highest precipitation probability percentage */
+  precipChance: number | null;
+  /** Expected rain amount */
+  rainAmount: number | null;
+  /** Expected snowfall depth */
+  snowAmount: number | null;
+  /** Strongest wind speed */
+  windSpeed: number | null;
+  /** Strongest wind gust */
+  windGust: number | null;
+  /** Wind direction label (e.g., 'NW') */
+  windDirection?: string;
+  /** Peak UV index */
+  uvIndex: number | null;
+}
+
+/** An observed past day; `null` values were not reported by the station */
+export interface PastDayItem {
+  /** Local date (`YYYY-MM-DD`) */
+  date: string;
+  /** Day label (e.g., 'Mon 12') */
+  day: string;
+  /** Observed high */
+  high: number | null;
+  /** Observed low */
+  low: number | null;
+  /** Total precipitation */
+  precipitation: number | null;
+}
+
+/** Recent observations and climate normals for the dashboard location */
+export interface WeatherHistory {
+  /** Oldest first, ending yesterday */
+  days: PastDayItem[];
+  /** Climate station the days were observed at */
+  stationName?: string;
+  /** Normals for today's month, or `null` when no normals station is nearby */
+  normals: TemperatureNormals | null;
 }
 
 /** Navigation tab definition */
@@ -78,36 +173,145 @@ export interface NavTab {
   icon: string;
 }
 
-/** Data for the glassmorphic conditions card */
+/** A saved location in the favourites list */
+export interface FavoriteLocation {
+  /** Stable id derived from the rounded coordinates */
+  id: string;
+  /** User-editable display name */
+  name: string;
+  /** Latitude */
+  lat: number;
+  /** Longitude */
+  lon: number;
+}
+
+/** Latest current conditions fetched for a favourite */
+export interface FavoriteSnapshot {
+  /** Current temperature, or `null` when the provider has no data */
+  temperature: number | null;
+  /** Temperature unit */
+  tempUnit: TemperatureUnit;
+  /** Current weather condition label */
+  condition: string;
+  /** Icon identifier for condition */
+  conditionIcon: string;
+  /** Provider update timestamp (ISO) */
+  updatedAt: string;
+}
+
+/** Data for the glassmorphic conditions card; `null` numbers mean the provider has no data */
 export interface ConditionsCardData {
   /** Current weather condition label (e.g., 'Partly Cloudy') */
   condition: string;
   /** Icon identifier for condition */
   conditionIcon: string;
   /** Wind speed */
-  windSpeed: number;
+  windSpeed: number | null;
   /** Wind direction label (e.g., 'NW') */
   windDirection: string;
   /** Wind unit label */
   windUnit: string;
-  /** Humidity percentage */
-  humidity: number;
+  /** Humidity percentage; shown in the header with the temperature when a station is selected */
+  humidity: number | null;
   /** UV index */
-  uvIndex: number;
+  uvIndex: number | null;
   /** Precipitation probability percentage */
-  precipChance: number;
+  precipChance: number | null;
   /** Feels-like temperature */
-  feelsLike: number;
+  feelsLike: number | null;
   /** Temperature unit */
   tempUnit: string;
   /** Sunrise time string (e.g., '6:42 AM') */
   sunrise: string;
   /** Sunset time string (e.g., '8:15 PM') */
   sunset: string;
-  /** Moon phase label (e.g., 'Waxing Crescent') */
-  moonPhase: string;
+  /** Minutes from sunrise to sunset */
+  dayLengthMinutes: number;
+  /** Moon phase (e.g., 'waxing-crescent') */
+  moonPhase: MoonPhase;
   /** Moon illumination percentage (0–100) */
   moonIllumination: number;
   /** Source update timestamp display text */
   sourceUpdatedAt?: string;
+  /** Where current conditions come from */
+  source?: ConditionsSource;
+  /** Observed temperature; only set when a nearby station is selected */
+  temperature?: number | null;
 }
+
+/** A nearby observing station with its latest report; `null` numbers were not reported */
+export interface NearbyStation {
+  /** MSC station id */
+  id: string;
+  /** Station name (e.g., 'OTTAWA INTL A') */
+  name: string;
+  /** Distance from the selected location */
+  distance: number;
+  /** Distance unit label (e.g., 'km') */
+  distanceUnit: string;
+  /** Observation time display text */
+  observedAt: string;
+  /** Minutes since the observation */
+  ageMinutes: number;
+  /** Temperature */
+  temperature: number | null;
+  /** Relative humidity percentage */
+  humidity: number | null;
+  /** Wind speed */
+  windSpeed: number | null;
+  /** Wind gust speed */
+  windGust: number | null;
+  /** Wind direction label (e.g., 'NW') */
+  windDirection?: string;
+  /** Upstream credit line */
+  attribution: string;
+}
+
+/** Provenance of the current conditions, pre-formatted for display */
+export interface ConditionsSource {
+  /** Station or forecast site label (e.g., 'Windsor Airport (YQG)') */
+  label: string;
+  /** Distance from the selected location */
+  distance: number;
+  /** Distance unit label (e.g., 'km') */
+  distanceUnit: string;
+  /** Observation time display text */
+  observedAt?: string;
+  /** Forecast issue time display text */
+  forecastIssuedAt?: string;
+  /** Upstream credit line */
+  attribution: string;
+}
+
+/** Alert kind, strongest first: warning > watch > advisory > statement */
+export type AlertType = 'warning' | 'watch' | 'advisory' | 'statement';
+
+/** CAP severity scale */
+export type AlertSeverity = 'extreme' | 'severe' | 'moderate' | 'minor' | 'unknown';
+
+/** Active weather alert for the selected location */
+export interface WeatherAlert {
+  /** Upstream alert identifier */
+  id: string;
+  /** Alert name (e.g., 'Snowfall Warning') */
+  title: string;
+  /** Alert kind */
+  type: AlertType;
+  /** Normalized severity */
+  severity: AlertSeverity;
+  /** Full alert text */
+  description?: string;
+  /** ISO issue time */
+  issuedAt?: string;
+  /** ISO expiry time */
+  expiresAt?: string;
+  /** Affected forecast zone names */
+  areas: string[];
+  /** Affected area outline; only present on map (bbox) alert requests */
+  geometry?: AlertGeometry;
+}
+
+/** GeoJSON Polygon or MultiPolygon in `[lon, lat]` order */
+export type AlertGeometry =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { getMoonIllumination, getMoonTimes, getSunTimes, toMoonPhase } from './astronomy';
+
+const WASHINGTON = { lat: 38.8951, lon: -77.0364 };
+const OTTAWA = { lat: 45.4215, lon: -75.6972 };
+const LONGYEARBYEN = { lat: 78.22, lon: 15.65 };
+const TROMSO = { lat: 69.6492, lon: 18.9553 };
+
+/** Published almanac times are rounded to the minute; the module promises a minute or two. */
+const TOLERANCE_MINUTES = 2;
+
+function expectNear(actual: Date | null, expectedIso: string, toleranceMinutes = TOLERANCE_MINUTES): void {
+  expect(actual).not.toBeNull();
+  const differenceMinutes = Math.abs((actual as Date).getTime() - Date.parse(expectedIso)) / 60_000;
+  expect(differenceMinutes).toBeLessThanOrEqual(toleranceMinutes);
+}
+
+describe('getSunTimes', () => {
+  // US Naval Observatory, Washington DC, 2024-06-20 (EDT, UTC-4).
+  it('matches the almanac at mid-latitudes in summer', () => {
+    const times = getSunTimes(new Date('2024-06-20T16:00:00Z'), WASHINGTON.lat, WASHINGTON.lon);
+
+    expectNear(times.sunrise, '2024-06-20T09:43:00Z');
+    expectNear(times.sunset, '2024-06-21T00:37:00Z');
+    expectNear(times.civilDawn, '2024-06-20T09:10:00Z');
+    expectNear(times.civilDusk, '2024-06-21T01:10:00Z');
+    expect(times.dayLengthMinutes).toBeGreaterThanOrEqual(894 - TOLERANCE_MINUTES);
+    expect(times.dayLengthMinutes).toBeLessThanOrEqual(894 + TOLERANCE_MINUTES);
+  });
+
+  // NRC Canada, Ottawa, 2024-12-21 (EST, UTC-5).
+  it('matches the almanac at mid-latitudes in winter', () => {
+    const times = getSunTimes(new Date('2024-12-21T17:00:00Z'), OTTAWA.lat, OTTAWA.lon);
+
+    expectNear(times.sunrise, '2024-12-21T12:41:00Z');
+    expectNear(times.sunset, '2024-12-21T21:22:00Z');
+  });
+
+  // Astronomy Engine (full VSOP87 and ELP series), rounded to the minute.
+  it('matches nautical and astronomical twilight at mid-latitudes', () => {
+    const times = getSunTimes(new Date('2024-06-20T16:00:00Z'), WASHINGTON.lat, WASHINGTON.lon);
+
+    expectNear(times.astronomicalDawn, '2024-06-20T07:44:00Z');
+    expectNear(times.nauticalDawn, '2024-06-20T08:30:00Z');
+    expectNear(times.nauticalDusk, '2024-06-21T01:49:00Z');
+    expectNear(times.astronomicalDusk, '2024-06-21T02:36:00Z');
+  });
+
+  // Astronomy Engine, Tromsø at the March equinox. The sun crosses each altitude at a shallow
+  // angle this far north, so a small error in its declination costs minutes.
+  it('matches every twilight at high latitude', () => {
+    const times = getSunTimes(new Date('2024-03-20T11:00:00Z'), TROMSO.lat, TROMSO.lon);
+
+    expectNear(times.astronomicalDawn, '2024-03-20T00:42:00Z');
+    expectNear(times.nauticalDawn, '2024-03-20T02:25:00Z');
+    expectNear(times.civilDawn, '2024-03-20T03:42:00Z');
+    expectNear(times.sunrise, '2024-03-20T04:42:00Z');
+    expectNear(times.sunset, '2024-03-20T17:03:00Z');
+    expectNear(times.civilDusk, '2024-03-20T18:04:00Z');
+    expectNear(times.nauticalDusk, '2024-03-20T19:22:00Z');
+    expectNear(times.astronomicalDusk, '2024-03-20T21:09:00Z');
+  });
+
+  it('orders the twilights around sunrise and sunset', () => {
+    const times = getSunTimes(new Date('2024-06-20T16:00:00Z'), WASHINGTON.lat, WASHINGTON.lon);
+    const order = [
+      times.astronomicalDawn,
+      times.nauticalDawn,
+      times.civilDawn,
+      times.sunrise,
+      times.solarNoon,
+      times.sunset,
+      times.civilDusk,
+      times.nauticalDusk,
+      times.astronomicalDusk,
+    ].map((date) => date?.getTime() ?? Number.NaN);
+
+    expect(order.every((time, index) => index === 0 || time > (order[index - 1] as number))).toBe(true);
+  });
+
+  it('reports a full day under the midnight sun', () => {
+    const times = getSunTimes(new Date('2024-06-21T12:00:00Z'), LONGYEARBYEN.lat, LONGYEARBYEN.lon);
+
+    expect(times.sunrise).toBeNull();
+    expect(times.sunset).toBeNull();
+    expect(times.dayLengthMinutes).toBe(1440);
+  });
+
+  it('reports no day during the polar night', () => {
+    const times = getSunTimes(new Date('2024-12-21T12:00:00Z'), LONGYEARBYEN.lat, LONGYEARBYEN.lon);
+
+    expect(times.sunrise).toBeNull();
+    expect(times.sunset).toBeNull();
+    expect(times.dayLengthMinutes).toBe(0);
+  });
+});
+
+describe('getMoonTimes', () => {
+  it('finds a rise and a set at mid-latitudes', () => {
+    const times = getMoonTimes(new Date('2024-06-20T16:00:00Z'), WASHINGTON.lat, WASHINGTON.lon);
+
+    expect(times.rise ?? times.set).not.toBeNull();
+    expect(times.alwaysUp).toBe(false);
+    expect(times.alwaysDown).toBe(false);
+  });
+
+  // Astronomy Engine, rounded to the minute; each window is the local mean solar day.
+  it.each([
+    {
+      name: 'Washington',
+      place: WASHINGTON,
+      at: '2024-06-20T16:00:00Z',
+      rise: '2024-06-20T23:50:00Z',
+      set: '2024-06-20T08:03:00Z',
+    },
+    {
+      name: 'Ottawa',
+      place: OTTAWA,
+      at: '2024-12-21T17:00:00Z',
+      rise: '2024-12-22T04:18:00Z',
+      set: '2024-12-21T16:39:00Z',
+    },
+    {
+      name: 'Tromsø',
+      place: TROMSO,
+      at: '2024-10-15T11:00:00Z',
+      rise: '2024-10-15T15:20:00Z',
+      set: '2024-10-15T01:15:00Z',
+    },
+  ])('matches the almanac moonrise and moonset at $name', ({ place, at, rise, set }) => {
+    const times = getMoonTimes(new Date(at), place.lat, place.lon);
+
+    expectNear(times.rise, rise);
+    expectNear(times.set, set);
+  });
+
+  // Near new moon in June the moon sits high in the north with the sun; near full moon it stays below.
+  it('reports a circumpolar moon at high latitude', () => {
+    const times = getMoonTimes(new Date('2024-06-07T12:00:00Z'), LONGYEARBYEN.lat, LONGYEARBYEN.lon);
+
+    expect(times).toEqual({ rise: null, set: null, alwaysUp: true, alwaysDown: false });
+  });
+
+  it('reports a moon that never rises at high latitude', () => {
+    const times = getMoonTimes(new Date('2024-06-21T12:00:00Z'), LONGYEARBYEN.lat, LONGYEARBYEN.lon);
+
+    expect(times).toEqual({ rise: null, set: null, alwaysUp: false, alwaysDown: true });
+  });
+});
+
+describe('getMoonIllumination', () => {
+  // Principal phase instants from the USNO phases table (UTC).
+  it.each([
+    { name: 'new moon', at: '2024-10-02T18:49:00Z', phase: 0, fraction: 0, expected: 'new-moon' },
+    { name: 'first quarter', at: '2024-10-10T18:55:00Z', phase: 0.25, fraction: 0.5, expected: 'first-quarter' },
+    { name: 'full moon', at: '2024-06-22T01:08:00Z', phase: 0.5, fraction: 1, expected: 'full-moon' },
+    { name: 'full moon', at: '2025-01-13T22:27:00Z', phase: 0.5, fraction: 1, expected: 'full-moon' },
+    { name: 'last quarter', at: '2025-03-22T11:29:00Z', phase: 0.75, fraction: 0.5, expected: 'last-quarter' },
+  ] as const)('places the $name of $at', ({ at, phase, fraction, expected }) => {
+    const illumination = getMoonIllumination(new Date(at));
+
+    // The cycle position wraps, so compare around the circle.
+    const offset = Math.abs(illumination.phase - phase);
+    expect(Math.min(offset, 1 - offset)).toBeLessThan(0.01);
+    expect(illumination.fraction).toBeCloseTo(fraction, 1);
+    expect(toMoonPhase(illumination.phase)).toBe(expected);
+  });
+});
+
+describe('toMoonPhase', () => {
+  it.each([
+    [0, 'new-moon'],
+    [0.0299, 'new-moon'],
+    [0.03, 'waxing-crescent'],
+    [0.2199, 'waxing-crescent'],
+    [0.22, 'first-quarter'],
+    [0.2799, 'first-quarter'],
+    [0.28, 'waxing-gibbous'],
+    [0.4699, 'waxing-gibbous'],
+    [0.47, 'full-moon'],
+    [0.5299, 'full-moon'],
+    [0.53, 'waning-gibbous'],
+    [0.7199, 'waning-gibbous'],
+    [0.72, 'last-quarter'],
+    [0.7799, 'last-quarter'],
+    [0.78, 'waning-crescent'],
+    [0.9699, 'waning-crescent'],
+    [0.97, 'new-moon'],
+    [0.9999, 'new-moon'],
+  ] as const)('maps %f to %s', (phase, expected) => {
+    expect(toMoonPhase(phase)).toBe(expected);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Sun and moon positions, rise/set and twilight times, and moon phase.
+ *
+ * Pure functions of date and location, so times are available for providers
+ * that do not send them. Positions follow the low-precision series in Meeus,
+ * "Astronomical Algorithms" (2nd ed., ch. 25 and 47); rise, set and twilight
+ * times land within a minute or two of published almanac values outside the
+ * polar regions.
+ *
+ * A "day" is the local mean solar day at the given longitude: the 24 hours
+ * around the solar transit nearest `date`. It does not depend on the runtime
+ * time zone.
+ */
+import type { MoonPhase } from '../types';
+import type { MoonIllumination, MoonTimes, SunTimes } from '../types/astronomy';
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86_400_000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+
+/** Obliquity of the ecliptic at J2000. */
+const OBLIQUITY = 23.4397 * RAD;
+
+/** Correction for the Julian cycle of the mean solar transit. */
+const J0 = 0.0009;
+
+/** TT − UT (about 69 s through the 2020s), in days; the transit series runs on Terrestrial Time. */
+const DELTA_T_DAYS = 69.2 / 86_400;
+
+/** Sun altitudes (degrees) that define each event: upper limb on the horizon, with refraction, and the twilights. */
+const SUNRISE_ALTITUDE = -0.833;
+const CIVIL_ALTITUDE = -6;
+const NAUTICAL_ALTITUDE = -12;
+const ASTRONOMICAL_ALTITUDE = -18;
+
+const EARTH_RADIUS_KM = 6378.14;
+const SUN_DISTANCE_KM = 149_598_000;
+
+interface EquatorialPosition {
+  rightAscension: number;
+  declination: number;
+}
+
+// ---- Time ------------------------------------------------------------------
+
+function toJulian(date: Date): number {
+  return date.getTime() / DAY_MS - 0.5 + J1970;
+}
+
+function fromJulian(julian: number): Date {
+  return new Date((julian + 0.5 - J1970) * DAY_MS);
+}
+
+/** Days since J2000.0 (UT; positions barely move in the ~69 s to TT, but the solar transit is corrected). */
+function toDays(date: Date): number {
+  return toJulian(date) - J2000;
+}
+
+function normalizeDegrees(value: number): number {
+  return ((value % 360) + 360) % 360;
+}
+
+// ---- Coordinates -----------------------------------------------------------
+
+function toEquatorial(longitude: number, latitude: number): EquatorialPosition {
+  return {
+    rightAscension: Math.atan2(
+      Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY),
+      Math.cos(longitude),
+    ),
+    declination: Math.asin(
+      Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude),
+    ),
+  };
+}
+
+/** Local sidereal time in radians (Meeus 12.4); `lw` is the longitude west, in radians. */
+function siderealTime(days: number, lw: number): number {
+  return RAD * (280.46061837 + 360.98564736629 * days) - lw;
+}
+
+function altitudeOf(hourAngle: number, phi: number, declination: number): number {
+  return Math.asin(
+    Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle),
+  );
+}
+
+// ---- Sun -------------------------------------------------------------------
+
+function solarMeanAnomaly(days: number): number {
+  return RAD * (357.5291 + 0.98560028 * days);
+}
+
+/**
+ * Ecliptic longitude of the sun, in radians, from the equinox of date like the
+ * moon's. The perihelion drifts with precession, about 1.7° a century (Meeus 25);
+ * held at its J2000 value the declination is already 0.15° off near the equinoxes.
+ */
+function solarLongitude(meanAnomaly: number, days: number): number {
+  const center =
+    RAD *
+    (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const perihelion = RAD * (102.9372 + 1.71946 * (days / 36_525));
+  return meanAnomaly + center + perihelion + Math.PI;
+}
+
+function solarDeclination(days: number): number {
+  return toEquatorial(solarLongitude(solarMeanAnomaly(days), days), 0).declination;
+}
+
+/**
+ * Sunrise, sunset, solar noon and the three twilights for the solar day
+ * nearest `date` at `lat`/`lon` (degrees, east positive).
+ */
+export function getSunTimes(date: Date, lat: number, lon: number): SunTimes {
+  const lw = -lon * RAD;
+  const phi = lat * RAD;
+  const cycle = Math.round(toDays(date) - J0 - lw / (2 * Math.PI));
+  const approxTransit = J0 + lw / (2 * Math.PI) + cycle;
+  const meanAnomaly = solarMeanAnomaly(approxTransit);
+  const longitude = solarLongitude(meanAnomaly, approxTransit);
+  const transit =
+    J2000 + approxTransit + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude) - DELTA_T_DAYS;
+
+  /** When the sun crosses `altitude` before (-1) or after (+1) transit; `null` if it never does. */
+  const crossing = (altitude: number, side: -1 | 1): Date | null => {
+    let event = transit;
+    // Re-evaluate the declination at the event itself; it moves up to 0.4° a day.
+    for (let pass = 0; pass < 3; pass += 1) {
+      const declination = solarDeclination(event - J2000);
+      const cosHourAngle =
+        (Math.sin(altitude * RAD) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+      if (cosHourAngle < -1 || cosHourAngle > 1) {
+        return null;
+      }
+
+      event = transit + (side * Math.acos(cosHourAngle)) / (2 * Math.PI);
+    }
+
+    return fromJulian(event);
+  };
+
+  const sunrise = crossing(SUNRISE_ALTITUDE, -1);
+  const sunset = crossing(SUNRISE_ALTITUDE, 1);
+  const noonAltitude = 90 - Math.abs(lat - solarDeclination(transit - J2000) / RAD);
+
+  return {
+    sunrise,
+    sunset,
+    solarNoon: fromJulian(transit),
+    civilDawn: crossing(CIVIL_ALTITUDE, -1),
+    civilDusk: crossing(CIVIL_ALTITUDE, 1),
+    nauticalDawn: crossing(NAUTICAL_ALTITUDE, -1),
+    nauticalDusk: crossing(NAUTICAL_ALTITUDE, 1),
+    astronomicalDawn: crossing(ASTRONOMICAL_ALTITUDE, -1),
+    astronomicalDusk: crossing(ASTRONOMICAL_ALTITUDE, 1),
+    dayLengthMinutes:
+      sunrise && sunset
+        ? Math.round((sunset.getTime() - sunrise.getTime()) / 60_000)
+        : noonAltitude > SUNRISE_ALTITUDE ? 1440 : 0,
+  };
+}
+
+// ---- Moon ------------------------------------------------------------------
+
+/** Geocentric ecliptic position of the moon (radians, km), from the largest periodic terms. */
+function moonEcliptic(days: number): { longitude: number; latitude: number; distance: number } {
+  const meanLongitude = 218.316 + 13.176396 * days;
+  const elongation = RAD * (297.85 + 12.190749 * days);
+  const sunAnomaly = RAD * (357.529 + 0.98560028 * days);
+  const anomaly = RAD * (134.963 + 13.064993 * days);
+  const argument = RAD * (93.272 + 13.22935 * days);
+
+  const longitude =
+    meanLongitude +
+    6.289 * Math.sin(anomaly) +
+    1.274 * Math.sin(2 * elongation - anomaly) +
+    0.658 * Math.sin(2 * elongation) +
+    0.214 * Math.sin(2 * anomaly) -
+    0.186 * Math.sin(sunAnomaly) -
+    0.114 * Math.sin(2 * argument);
+  const latitude =
+    5.128 * Math.sin(argument) +
+    0.281 * Math.sin(anomaly + argument) +
+    0.278 * Math.sin(anomaly - argument) +
+    0.173 * Math.sin(2 * elongation - argument);
+  const distance =
+    385001 -
+    20905 * Math.cos(anomaly) -
+    3699 * Math.cos(2 * elongation - anomaly) -
+    2956 * Math.cos(2 * elongation) -
+    570 * Math.cos(2 * anomaly);
+
+  return { longitude: RAD * normalizeDegrees(longitude), latitude: RAD * latitude, distance };
+}
+
+/** Moon altitude above the altitude at which its upper limb touches the horizon, in radians. */
+function moonAltitudeAboveHorizon(date: Date, phi: number, lw: number): number {
+  const days = toDays(date);
+  const moon = moonEcliptic(days);
+  const { rightAscension, declination } = toEquatorial(moon.longitude, moon.latitude);
+  const parallax = Math.asin(EARTH_RADIUS_KM / moon.distance);
+  // Meeus 15: parallax lowers the moon, refraction and semidiameter raise it.
+  const horizon = 0.7275 * parallax - 0.5667 * RAD;
+  return altitudeOf(siderealTime(days, lw) - rightAscension, phi, declination) - horizon;
+}
+
+/**
+ * Moonrise and moonset during the local mean solar day containing `date`.
+ * Either can be missing: the moon rises about 50 minutes later each day, so
+ * some days have no rise or no set.
+ */
+export function getMoonTimes(date: Date, lat: number, lon: number): MoonTimes {
+  const lw = -lon * RAD;
+  const phi = lat * RAD;
+  const offset = (lon / 360) * DAY_MS;
+  const start = Math.floor((date.getTime() + offset) / DAY_MS) * DAY_MS - offset;
+  const altitudeAt = (time: number) => moonAltitudeAboveHorizon(new Date(time), phi, lw);
+
+  let rise: Date | null = null;
+  let set: Date | null = null;
+  let previous = altitudeAt(start);
+  let anyAbove = previous > 0;
+
+  // Hourly steps cannot skip a crossing: the moon moves about 15° an hour.
+  for (let hour = 1; hour <= 24 && (!rise || !set); hour += 1) {
+    const time = start + hour * 3_600_000;
+    const current = altitudeAt(time);
+    anyAbove ||= current > 0;
+
+    if ((previous <= 0) !== (current <= 0)) {
+      let low = time - 3_600_000;
+      let high = time;
+      for (let step = 0; step < 12; step += 1) {
+        const middle = (low + high) / 2;
+        if ((altitudeAt(middle) <= 0) === (previous <= 0)) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+
+      if (previous <= 0) {
+        rise ??= new Date(high);
+      } else {
+        set ??= new Date(high);
+      }
+    }
+
+    previous = current;
+  }
+
+  return {
+    rise,
+    set,
+    alwaysUp: !rise && !set && anyAbove,
+    alwaysDown: !rise && !set && !anyAbove,
+  };
+}
+
+/** Illuminated fraction and cycle position of the moon at `date`. */
+export function getMoonIllumination(date: Date): MoonIllumination {
+  const days = toDays(date);
+  const moon = moonEcliptic(days);
+  const sunLongitude = solarLongitude(solarMeanAnomaly(days), days);
+  const elongation = Math.acos(Math.cos(moon.latitude) * Math.cos(moon.longitude - sunLongitude));
+  const phaseAngle = Math.atan2(
+    SUN_DISTANCE_KM * Math.sin(elongation),
+    moon.distance - SUN_DISTANCE_KM * Math.cos(elongation),
+  );
+
+  return {
+    fraction: (1 + Math.cos(phaseAngle)) / 2,
+    phase: normalizeDegrees((moon.longitude - sunLongitude) / RAD) / 360,
+  };
+}
+
+/** Named phase for a cycle position; the principal phases cover about a day either side. */
+export function toMoonPhase(phase: number): MoonPhase {
+  if (phase < 0.03 || phase >= 0.97) return 'new-moon';
+  if (phase < 0.22) return 'waxing-crescent';
+  if (phase < 0.28) return 'first-quarter';
+  if (phase < 0.47) return 'waxing-gibbous';
+  if (phase < 0.53) return 'full-moon';
+  if (phase < 0.72) return 'waning-gibbous';
+  if (phase < 0.78) return 'last-quarter';
+  return 'waning-crescent';
+}
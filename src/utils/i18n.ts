@@ -0,0 +1,409 @@
+/**
+ * UI strings in English and French.
+ *
+ * Keys are flat dotted ids. The French table is typed against the English
+ * one, so a missing translation fails the type-check. `{name}` placeholders
+ * are filled from the params passed to `translate`.
+ */
+import type { Language } from '../types';
+
+const en = {
+  'app.comingSoon': '{page} — Coming Soon',
+
+  'nav.label': 'Main navigation',
+  'nav.today': 'Today',
+  'nav.map': 'Map',
+  'nav.models': 'Models',
+  'nav.darksky': 'Dark Sky',
+  'nav.favorites': 'Favourites',
+
+  'language.en': 'English',
+  'language.fr': 'Français',
+
+  'favorites.switcher': 'Saved locations',
+  'favorites.add': 'Save this location',
+  'favorites.remove': 'Remove this location from favourites',
+  'favorites.title': 'Favourites',
+  'favorites.empty': 'No saved locations yet. Use the star on the Today screen to save one.',
+  'favorites.loading': 'Updating favourites…',
+  'favorites.unavailable': 'Unavailable',
+  'favorites.open': 'Show {name} on Today',
+  'favorites.rename': 'Rename {name}',
+  'favorites.renameLabel': 'Name',
+  'favorites.save': 'Save',
+  'favorites.cancel': 'Cancel',
+  'favorites.moveUp': 'Move {name} up',
+  'favorites.moveDown': 'Move {name} down',
+  'favorites.delete': 'Delete {name}',
+
+  'settings.open': 'Open settings',
+  'settings.title': 'Settings',
+  'settings.dialog': 'Settings',
+  'settings.close': 'Close settings',
+  'settings.language': 'Language',
+  'settings.temperature': 'Temperature',
+  'settings.wind': 'Wind speed',
+  'settings.pressure': 'Pressure',
+  'settings.distance': 'Distance',
+  'settings.precipitation': 'Precipitation',
+
+  'dashboard.updating': 'Updating weather…',
+  'dashboard.liveUnavailable': 'Live data unavailable. Showing latest data.',
+  'dashboard.source': 'Source',
+  'dashboard.changeSource': 'Change weather source',
+  'dashboard.sourceOptions': 'Weather source options',
+  'dashboard.openLocationPicker': 'Open location picker',
+  'dashboard.currentTemperature': 'Current temperature',
+  'dashboard.currentConditions': 'Current conditions',
+  'dashboard.hourlyForecast': 'Hourly forecast',
+  'dashboard.dailyForecast': 'Daily forecast',
+  'dashboard.pastDays': 'Past days',
+
+  'metric.humidity': 'Humidity',
+  'metric.pressure': 'Pressure',
+  'metric.precip': 'Precip',
+  'metric.wind': 'Wind',
+  'metric.feelsLike': 'Feels Like',
+  'metric.noData': 'No data',
+
+  'gauge.feelsLike': 'Feels Like {value}',
+  'gauge.label': 'Temperature: {current}, feels like {feelsLike}',
+  'gauge.noData': 'No current temperature',
+  'gauge.vsNormal': 'High {diff} vs normal',
+
+  'conditions.lastUpdated': 'Last updated {time}',
+  'conditions.sunrise': 'Sunrise',
+  'conditions.sunset': 'Sunset',
+  'conditions.temp': 'Temp',
+  'conditions.precip': 'Precip',
+  'conditions.away': '{distance} away',
+  'conditions.observed': 'Observed {time}',
+  'conditions.forecastIssued': 'Forecast issued {time}',
+  'conditions.stationPicker': 'Conditions from',
+  'conditions.forecastCity': 'Forecast city',
+  'conditions.minutesAgo': '{minutes} min ago',
+  'conditions.dayLength': 'Daylight {hours} h {minutes} min',
+
+  'moon.new-moon': 'New Moon',
+  'moon.waxing-crescent': 'Waxing Crescent',
+  'moon.first-quarter': 'First Quarter',
+  'moon.waxing-gibbous': 'Waxing Gibbous',
+  'moon.full-moon': 'Full Moon',
+  'moon.waning-gibbous': 'Waning Gibbous',
+  'moon.last-quarter': 'Last Quarter',
+  'moon.waning-crescent': 'Waning Crescent',
+  'moon.short.full': 'Full',
+  'moon.short.waxing': 'Waxing',
+  'moon.short.waning': 'Waning',
+
+  'hourly.title': 'Hourly Forecast',
+  'hourly.metricPicker': 'Hourly chart metric',
+  'hourly.metric.temp': 'Temp',
+  'hourly.metric.precip': 'Precip',
+  'hourly.metric.wind': 'Wind',
+  'hourly.metric.humidity': 'Humidity',
+  'hourly.chartLabel': '{metric} over the next {count} hours',
+  'hourly.feelsLike': 'Feels {value}',
+  'hourly.gust': 'Gust {value}',
+  'daily.title': 'Daily Forecast',
+  'daily.subtitle': 'Tap a day to view full forecast details',
+  'daily.day': 'Day',
+  'daily.night': 'Night',
+  'daily.precipChance': 'Precip',
+  'daily.rain': 'Rain',
+  'daily.snow': 'Snow',
+  'daily.wind': 'Wind',
+  'daily.uv': 'UV',
+
+  'history.title': 'Past {count} Days',
+  'history.station': 'Observed at {station}',
+  'history.normal': 'Normal {high} / {low}',
+
+  'location.dialog': 'Location picker',
+  'location.title': 'Select Location',
+  'location.close': 'Close location picker',
+  'location.search': 'Search locations',
+  'location.placeholder': 'Search city, town, or place',
+  'location.searching': 'Searching…',
+  'location.noResults': 'No locations found.',
+  'location.results': 'Location search results',
+  'location.fromMap': 'Select location from map',
+  'location.tabSearch': 'Search',
+  'location.tabMap': 'Map',
+  'location.selected': 'Selected: {point}',
+  'location.useCenter': 'Use map center',
+  'location.applying': 'Applying…',
+  'location.resolving': 'Resolving…',
+  'location.confirm': 'Confirm location',
+  'location.searchFailed': 'Location search failed.',
+  'location.reverseFailed': 'Unable to resolve selected map location.',
+
+  'alerts.bannerOne': '1 active weather alert. Show details.',
+  'alerts.bannerMany': '{count} active weather alerts. Show details.',
+  'alerts.more': '+{count} more',
+  'alerts.title': 'Weather Alerts',
+  'alerts.dialog': 'Weather alerts',
+  'alerts.close': 'Close weather alerts',
+  'alerts.issued': 'Issued {time}',
+  'alerts.expires': 'Expires {time}',
+  'alerts.type.warning': 'Warning',
+  'alerts.type.watch': 'Watch',
+  'alerts.type.advisory': 'Advisory',
+  'alerts.type.statement': 'Statement',
+
+  'darksky.unknown': 'Unknown',
+  'darksky.cloud.1': 'Clear',
+  'darksky.cloud.2': 'Mostly Clear',
+  'darksky.cloud.3': 'Partly Clear',
+  'darksky.cloud.4': 'Partly Cloudy',
+  'darksky.cloud.5': 'Half Cloudy',
+  'darksky.cloud.6': 'Mostly Cloudy',
+  'darksky.cloud.7': 'Cloudy',
+  'darksky.cloud.8': 'Very Cloudy',
+  'darksky.cloud.9': 'Overcast',
+  'darksky.seeing.1': 'Superb (<0.5″)',
+  'darksky.seeing.2': 'Excellent (0.5–0.75″)',
+  'darksky.seeing.3': 'Very Good (0.75–1″)',
+  'darksky.seeing.4': 'Good (1–1.25″)',
+  'darksky.seeing.5': 'Average (1.25–1.5″)',
+  'darksky.seeing.6': 'Below Avg (1.5–2″)',
+  'darksky.seeing.7': 'Poor (2–2.5″)',
+  'darksky.seeing.8': 'Very Poor (>2.5″)',
+  'darksky.transparency.1': 'Superb (<0.3)',
+  'darksky.transparency.2': 'Excellent (0.3–0.4)',
+  'darksky.transparency.3': 'Very Good (0.4–0.5)',
+  'darksky.transparency.4': 'Good (0.5–0.6)',
+  'darksky.transparency.5': 'Average (0.6–0.7)',
+  'darksky.transparency.6': 'Below Avg (0.7–0.85)',
+  'darksky.transparency.7': 'Poor (0.85–1)',
+  'darksky.transparency.8': 'Very Poor (>1)',
+  'darksky.wind.1': 'Calm',
+  'darksky.wind.2': 'Light',
+  'darksky.wind.3': 'Moderate',
+  'darksky.wind.4': 'Fresh',
+  'darksky.wind.5': 'Strong',
+  'darksky.wind.6': 'Gale',
+  'darksky.wind.7': 'Storm',
+  'darksky.wind.8': 'Hurricane',
+  'darksky.stability.veryUnstable': 'Very Unstable',
+  'darksky.stability.unstable': 'Unstable',
+  'darksky.stability.slightlyUnstable': 'Slightly Unstable',
+  'darksky.stability.neutral': 'Neutral',
+  'darksky.stability.stable': 'Stable',
+  'darksky.stability.veryStable': 'Very Stable',
+};
+
+export type MessageKey = keyof typeof en;
+
+const fr: Record<MessageKey, string> = {
+  'app.comingSoon': '{page} — Bientôt disponible',
+
+  'nav.label': 'Navigation principale',
+  'nav.today': "Aujourd'hui",
+  'nav.map': 'Carte',
+  'nav.models': 'Modèles',
+  'nav.darksky': 'Ciel noir',
+  'nav.favorites': 'Favoris',
+
+  'language.en': 'English',
+  'language.fr': 'Français',
+
+  'favorites.switcher': 'Emplacements enregistrés',
+  'favorites.add': 'Enregistrer cet emplacement',
+  'favorites.remove': 'Retirer cet emplacement des favoris',
+  'favorites.title': 'Favoris',
+  'favorites.empty': "Aucun emplacement enregistré. Utilisez l'étoile de l'écran Aujourd'hui pour en ajouter un.",
+  'favorites.loading': 'Mise à jour des favoris…',
+  'favorites.unavailable': 'Indisponible',
+  'favorites.open': "Afficher {name} dans Aujourd'hui",
+  'favorites.rename': 'Renommer {name}',
+  'favorites.renameLabel': 'Nom',
+  'favorites.save': 'Enregistrer',
+  'favorites.cancel': 'Annuler',
+  'favorites.moveUp': 'Monter {name}',
+  'favorites.moveDown': 'Descendre {name}',
+  'favorites.delete': 'Supprimer {name}',
+
+  'settings.open': 'Ouvrir les réglages',
+  'settings.title': 'Réglages',
+  'settings.dialog': 'Réglages',
+  'settings.close': 'Fermer les réglages',
+  'settings.language': 'Langue',
+  'settings.temperature': 'Température',
+  'settings.wind': 'Vitesse du vent',
+  'settings.pressure': 'Pression',
+  'settings.distance': 'Distance',
+  'settings.precipitation': 'Précipitations',
+
+  'dashboard.updating': 'Mise à jour de la météo…',
+  'dashboard.liveUnavailable': 'Données en direct indisponibles. Affichage des dernières données.',
+  'dashboard.source': 'Source',
+  'dashboard.changeSource': 'Changer la source météo',
+  'dashboard.sourceOptions': 'Sources météo',
+  'dashboard.openLocationPicker': "Ouvrir le sélecteur d'emplacement",
+  'dashboard.currentTemperature': 'Température actuelle',
+  'dashboard.currentConditions': 'Conditions actuelles',
+  'dashboard.hourlyForecast': 'Prévisions horaires',
+  'dashboard.dailyForecast': 'Prévisions quotidiennes',
+  'dashboard.pastDays': 'Jours précédents',
+
+  'metric.humidity': 'Humidité',
+  'metric.pressure': 'Pression',
+  'metric.precip': 'Précip.',
+  'metric.wind': 'Vent',
+  'metric.feelsLike': 'Ressenti',
+  'metric.noData': 'Aucune donnée',
+
+  'gauge.feelsLike': 'Ressenti {value}',
+  'gauge.label': 'Température : {current}, ressenti {feelsLike}',
+  'gauge.noData': 'Aucune température actuelle',
+  'gauge.vsNormal': 'Max. {diff} par rapport à la normale',
+
+  'conditions.lastUpdated': 'Mis à jour {time}',
+  'conditions.sunrise': 'Lever',
+  'conditions.sunset': 'Coucher',
+  'conditions.temp': 'Temp.',
+  'conditions.precip': 'Précip.',
+  'conditions.away': 'à {distance}',
+  'conditions.observed': 'Observé {time}',
+  'conditions.forecastIssued': 'Prévision émise {time}',
+  'conditions.stationPicker': 'Conditions de',
+  'conditions.forecastCity': 'Ville de prévision',
+  'conditions.minutesAgo': 'il y a {minutes} min',
+  'conditions.dayLength': 'Durée du jour {hours} h {minutes} min',
+
+  'moon.new-moon': 'Nouvelle lune',
+  'moon.waxing-crescent': 'Premier croissant',
+  'moon.first-quarter': 'Premier quartier',
+  'moon.waxing-gibbous': 'Gibbeuse croissante',
+  'moon.full-moon': 'Pleine lune',
+  'moon.waning-gibbous': 'Gibbeuse décroissante',
+  'moon.last-quarter': 'Dernier quartier',
+  'moon.waning-crescent': 'Dernier croissant',
+  'moon.short.full': 'Pleine',
+  'moon.short.waxing': 'Croissante',
+  'moon.short.waning': 'Décroissante',
+
+  'hourly.title': 'Prévisions horaires',
+  'hourly.metricPicker': 'Mesure du graphique horaire',
+  'hourly.metric.temp': 'Temp.',
+  'hourly.metric.precip': 'Précip.',
+  'hourly.metric.wind': 'Vent',
+  'hourly.metric.humidity': 'Humidité',
+  'hourly.chartLabel': '{metric} pour les {count} prochaines heures',
+  'hourly.feelsLike': 'Ressenti {value}',
+  'hourly.gust': 'Rafales {value}',
+  'daily.title': 'Prévisions quotidiennes',
+  'daily.subtitle': 'Touchez un jour pour voir la prévision complète',
+  'daily.day': 'Jour',
+  'daily.night': 'Nuit',
+  'daily.precipChance': 'Précip.',
+  'daily.rain': 'Pluie',
+  'daily.snow': 'Neige',
+  'daily.wind': 'Vent',
+  'daily.uv': 'UV',
+
+  'history.title': '{count} derniers jours',
+  'history.station': 'Observé à {station}',
+  'history.normal': 'Normale {high} / {low}',
+
+  'location.dialog': "Sélecteur d'emplacement",
+  'location.title': 'Choisir un emplacement',
+  'location.close': "Fermer le sélecteur d'emplacement",
+  'location.search': 'Rechercher des emplacements',
+  'location.placeholder': 'Rechercher une ville, un village ou un lieu',
+  'location.searching': 'Recherche…',
+  'location.noResults': 'Aucun emplacement trouvé.',
+  'location.results': 'Résultats de recherche',
+  'location.fromMap': "Choisir l'emplacement sur la carte",
+  'location.tabSearch': 'Recherche',
+  'location.tabMap': 'Carte',
+  'location.selected': 'Sélection : {point}',
+  'location.useCenter': 'Utiliser le centre de la carte',
+  'location.applying': 'Application…',
+  'location.resolving': 'Résolution…',
+  'location.confirm': "Confirmer l'emplacement",
+  'location.searchFailed': "La recherche d'emplacement a échoué.",
+  'location.reverseFailed': "Impossible d'identifier l'emplacement choisi sur la carte.",
+
+  'alerts.bannerOne': '1 alerte météo en vigueur. Afficher les détails.',
+  'alerts.bannerMany': '{count} alertes météo en vigueur. Afficher les détails.',
+  'alerts.more': '+{count} autres',
+  'alerts.title': 'Alertes météo',
+  'alerts.dialog': 'Alertes météo',
+  'alerts.close': 'Fermer les alertes météo',
+  'alerts.issued': 'Émis {time}',
+  'alerts.expires': 'Expire {time}',
+  'alerts.type.warning': 'Avertissement',
+  'alerts.type.watch': 'Veille',
+  'alerts.type.advisory': 'Avis',
+  'alerts.type.statement': 'Bulletin',
+
+  'darksky.unknown': 'Inconnu',
+  'darksky.cloud.1': 'Dégagé',
+  'darksky.cloud.2': 'Généralement dégagé',
+  'darksky.cloud.3': 'Partiellement dégagé',
+  'darksky.cloud.4': 'Partiellement nuageux',
+  'darksky.cloud.5': 'À demi nuageux',
+  'darksky.cloud.6': 'Généralement nuageux',
+  'darksky.cloud.7': 'Nuageux',
+  'darksky.cloud.8': 'Très nuageux',
+  'darksky.cloud.9': 'Couvert',
+  'darksky.seeing.1': 'Superbe (<0,5″)',
+  'darksky.seeing.2': 'Excellente (0,5–0,75″)',
+  'darksky.seeing.3': 'Très bonne (0,75–1″)',
+  'darksky.seeing.4': 'Bonne (1–1,25″)',
+  'darksky.seeing.5': 'Moyenne (1,25–1,5″)',
+  'darksky.seeing.6': 'Sous la moyenne (1,5–2″)',
+  'darksky.seeing.7': 'Faible (2–2,5″)',
+  'darksky.seeing.8': 'Très faible (>2,5″)',
+  'darksky.transparency.1': 'Superbe (<0,3)',
+  'darksky.transparency.2': 'Excellente (0,3–0,4)',
+  'darksky.transparency.3': 'Très bonne (0,4–0,5)',
+  'darksky.transparency.4': 'Bonne (0,5–0,6)',
+  'darksky.transparency.5': 'Moyenne (0,6–0,7)',
+  'darksky.transparency.6': 'Sous la moyenne (0,7–0,85)',
+  'darksky.transparency.7': 'Faible (0,85–1)',
+  'darksky.transparency.8': 'Très faible (>1)',
+  'darksky.wind.1': 'Calme',
+  'darksky.wind.2': 'Léger',
+  'darksky.wind.3': 'Modéré',
+  'darksky.wind.4': 'Frais',
+  'darksky.wind.5': 'Fort',
+  'darksky.wind.6': 'Coup de vent',
+  'darksky.wind.7': 'Tempête',
+  'darksky.wind.8': 'Ouragan',
+  'darksky.stability.veryUnstable': 'Très instable',
+  'darksky.stability.unstable': 'Instable',
+  'darksky.stability.slightlyUnstable': 'Légèrement instable',
+  'darksky.stability.neutral': 'Neutre',
+  'darksky.stability.stable': 'Stable',
+  'darksky.stability.veryStable': 'Très stable',
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { en, fr };
+
+export type TranslateParams = Record<string, string | number>;
+
+export function translate(lang: Language, key: MessageKey, params?: TranslateParams): string {
+  const template = MESSAGES[lang][key];
+  if (!params) {
+    return template;
+  }
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/** BCP 47 locale for date and number formatting; the app targets Canadian users. */
+export function toLocale(lang: Language): string {
+  return lang === 'fr' ? 'fr-CA' : 'en-CA';
+}
+
+/** Browser language on first visit, before the user has picked one. */
+export function detectLanguage(): Language {
+  if (typeof navigator !== 'undefined' && navigator.language.toLowerCase().startsWith('fr')) {
+    return 'fr';
+  }
+
+  return 'en';
+}
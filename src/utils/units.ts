@@ -0,0 +1,41 @@
+/**
+ * Unit preference options and display labels.
+ * Conversion happens in the Worker; the client only picks units and labels values.
+ */
+import type { DistanceUnit, PrecipUnit, PressureUnit, TemperatureUnit, UnitPreferences, WindUnit } from '../types';
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  temperature: 'C',
+  wind: 'kmh',
+  pressure: 'kpa',
+  distance: 'km',
+  precipitation: 'mm',
+};
+
+export const TEMPERATURE_UNIT_LABELS: Record<TemperatureUnit, string> = {
+  C: '°C',
+  F: '°F',
+};
+
+export const WIND_UNIT_LABELS: Record<WindUnit, string> = {
+  kmh: 'km/h',
+  mph: 'mph',
+  ms: 'm/s',
+  kn: 'kn',
+};
+
+export const PRESSURE_UNIT_LABELS: Record<PressureUnit, string> = {
+  kpa: 'kPa',
+  hpa: 'hPa',
+  inhg: 'inHg',
+};
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  km: 'km',
+  mi: 'mi',
+};
+
+export const PRECIP_UNIT_LABELS: Record<PrecipUnit, string> = {
+  mm: 'mm',
+  in: 'in',
+};
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The Worker is its own package with its own test run (workers/).
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+  },
 })
@@ -0,0 +1,437 @@
+/**
+ * The worker's HTTP contract, shared with the frontend: every route's query
+ * and response types, and response schemas for the OpenAPI document. The
+ * schemas are typed against `types.ts`, so the two cannot drift apart.
+ * Platform-neutral; do not import worker-only modules here.
+ */
+import type {
+  AlertGeometry,
+  AlertItem,
+  AstroApiResponse,
+  BatchWeatherResponse,
+  ClimateStation,
+  DistanceUnit,
+  ErrorEnvelope,
+  GeocodeResult,
+  HomeWeatherResponse,
+  Language,
+  NearbyStationsResponse,
+  PrecipUnit,
+  PressureUnit,
+  ProviderCapability,
+  ProviderMode,
+  ProviderSummary,
+  SatellitePassesResponse,
+  TemperatureUnit,
+  WeatherHistoryResponse,
+  WindUnit,
+} from './types';
+import {
+  allowing,
+  array,
+  boolean,
+  literal,
+  named,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  union,
+  unknown,
+} from './utils/schema';
+import type { Schema } from './utils/schema';
+
+/** Prefix of every route path below. */
+export const API_BASE_PATH = '/api/v1';
+
+export interface GeocodeSearchResponse {
+  results: GeocodeResult[];
+}
+
+export interface GeocodeReverseResponse {
+  result: GeocodeResult;
+}
+
+export interface ProvidersResponse {
+  providers: ProviderSummary[];
+  modes: ProviderMode[];
+  defaultProvider: string;
+}
+
+export interface AlertsResponse {
+  alerts: AlertItem[];
+  updatedAt: string;
+}
+
+/** Units accepted by every route that converts quantities. */
+export interface UnitQuery {
+  unit?: TemperatureUnit;
+  wind?: WindUnit;
+  pressure?: PressureUnit;
+  distance?: DistanceUnit;
+  precip?: PrecipUnit;
+}
+
+/** Provider, units and language accepted by the home and batch routes. */
+export interface HomeWeatherQuery extends UnitQuery {
+  provider?: string;
+  lang?: Language;
+}
+
+/** Query parameters as sent on the wire, and the 200 body, per route. */
+export interface ApiContract {
+  '/geocode/search': { query: { q: string; lang?: Language }; response: GeocodeSearchResponse };
+  '/geocode/reverse': { query: { lat: number; lon: number; lang?: Language }; response: GeocodeReverseResponse };
+  '/providers': { query: Record<string, never>; response: ProvidersResponse };
+  '/weather/home': { query: { lat: number; lon: number } & HomeWeatherQuery; response: HomeWeatherResponse };
+  /** `points` is `lat,lon;lat,lon;...`. */
+  '/weather/batch': { query: { points: string } & HomeWeatherQuery; response: BatchWeatherResponse };
+  /** `days` defaults to 7 (at most 14). */
+  '/weather/history': {
+    query: { lat: number; lon: number; days?: number; unit?: TemperatureUnit; precip?: PrecipUnit };
+    response: WeatherHistoryResponse;
+  };
+  /** `radius` is in kilometres, default 50 (at most 150). */
+  '/weather/stations': {
+    query: { lat: number; lon: number; radius?: number } & UnitQuery;
+    response: NearbyStationsResponse;
+  };
+  /** Either `bbox` (`west,south,east,north`) or `lat` and `lon`. */
+  '/alerts': { query: { bbox?: string; lat?: number; lon?: number; lang?: Language }; response: AlertsResponse };
+  '/satellites/passes': { query: { lat: number; lon: number }; response: SatellitePassesResponse };
+  '/darksky': { query: { lat: number; lon: number }; response: AstroApiResponse };
+  '/openapi.json': { query: Record<string, never>; response: Record<string, unknown> };
+}
+
+export type ApiPath = keyof ApiContract;
+export type ApiQuery<P extends ApiPath> = ApiContract[P]['query'];
+export type ApiResponse<P extends ApiPath> = ApiContract[P]['response'];
+
+// ======== Response schemas ========
+
+const blendStatSchema = named('BlendStat', object({ providers: array(string()), spread: number() }));
+
+export const alertGeometrySchema: Schema<AlertGeometry> = named(
+  'AlertGeometry',
+  union(
+    object({ type: literal('Polygon'), coordinates: array(array(array(number()))) }),
+    object({ type: literal('MultiPolygon'), coordinates: array(array(array(array(number())))) }),
+  ),
+);
+
+const alertItemSchema: Schema<AlertItem> = named(
+  'AlertItem',
+  object({
+    id: string(),
+    title: string(),
+    type: oneOf(['warning', 'watch', 'advisory', 'statement'] as const),
+    severity: oneOf(['extreme', 'severe', 'moderate', 'minor', 'unknown'] as const),
+    description: optional(string()),
+    issuedAt: optional(string()),
+    expiresAt: optional(string()),
+    areas: array(string()),
+    geometry: optional(alertGeometrySchema),
+  }),
+);
+
+const providerAttemptSchema = named(
+  'ProviderAttempt',
+  object({ provider: string(), ok: boolean(), error: optional(string()) }),
+);
+
+const unitPreferencesSchema = object({
+  temperature: oneOf(['C', 'F'] as const),
+  wind: oneOf(['kmh', 'mph', 'ms', 'kn'] as const),
+  pressure: oneOf(['kpa', 'hpa', 'inhg'] as const),
+  distance: oneOf(['km', 'mi'] as const),
+  precipitation: oneOf(['mm', 'in'] as const),
+});
+
+export const homeWeatherResponseSchema: Schema<HomeWeatherResponse> = named(
+  'HomeWeatherResponse',
+  object({
+    provider: string(),
+    location: object({ name: string(), lat: number(), lon: number() }),
+    current: object({
+      temperature: nullable(number()),
+      feelsLike: nullable(number()),
+      condition: string(),
+      icon: string(),
+      humidity: nullable(number()),
+      windSpeed: nullable(number()),
+      windDirection: optional(string()),
+      windGust: optional(number()),
+      dewPoint: optional(number()),
+      pressure: nullable(number()),
+      pressureTrend: oneOf(['rising', 'falling', 'steady'] as const),
+      pressureTendency: nullable(number()),
+      pressureHistory: array(object({ time: string(), pressure: number() })),
+      visibility: nullable(number()),
+      uvIndex: nullable(number()),
+      sunrise: optional(string()),
+      sunset: optional(string()),
+      blend: optional(object({ temperature: blendStatSchema, feelsLike: blendStatSchema })),
+    }),
+    hourly: array(
+      object({
+        time: string(),
+        temp: nullable(number()),
+        feelsLike: nullable(number()),
+        icon: string(),
+        precipChance: nullable(number()),
+        precipAmount: nullable(number()),
+        humidity: nullable(number()),
+        windSpeed: nullable(number()),
+        windGust: nullable(number()),
+        windDirection: optional(string()),
+        blend: optional(
+          object({
+            temp: blendStatSchema,
+            feelsLike: blendStatSchema,
+            precipChance: blendStatSchema,
+            precipAmount: blendStatSchema,
+            humidity: blendStatSchema,
+            windSpeed: blendStatSchema,
+            windGust: blendStatSchema,
+          }),
+        ),
+      }),
+    ),
+    daily: array(
+      object({
+        date: string(),
+        high: nullable(number()),
+        low: nullable(number()),
+        icon: string(),
+        daySummary: optional(string()),
+        nightSummary: optional(string()),
+        precipChance: nullable(number()),
+        rainAmount: nullable(number()),
+        snowAmount: nullable(number()),
+        windSpeed: nullable(number()),
+        windGust: nullable(number()),
+        windDirection: optional(string()),
+        uvIndex: nullable(number()),
+        blend: optional(
+          object({
+            high: blendStatSchema,
+            low: blendStatSchema,
+            precipChance: blendStatSchema,
+            rainAmount: blendStatSchema,
+            snowAmount: blendStatSchema,
+            windSpeed: blendStatSchema,
+            windGust: blendStatSchema,
+            uvIndex: blendStatSchema,
+          }),
+        ),
+      }),
+    ),
+    alerts: array(alertItemSchema),
+    updatedAt: string(),
+    units: unitPreferencesSchema,
+    source: object({
+      siteId: optional(string()),
+      stationId: optional(string()),
+      stationName: optional(string()),
+      distance: number(),
+      observedAt: optional(string()),
+      forecastIssuedAt: optional(string()),
+      attribution: string(),
+    }),
+    sources: optional(array(providerAttemptSchema)),
+    selection: optional(
+      object({ provider: string(), reason: string(), distanceKm: number(), attempts: array(providerAttemptSchema) }),
+    ),
+  }),
+);
+
+const errorSchema = object({
+  code: string(),
+  message: string(),
+  details: optional(string()),
+  missingFields: optional(array(string())),
+});
+
+export const errorEnvelopeSchema: Schema<ErrorEnvelope> = named('ErrorEnvelope', object({ error: errorSchema }));
+
+export const batchWeatherResponseSchema: Schema<BatchWeatherResponse> = object({
+  results: array(
+    union(
+      object({ lat: number(), lon: number(), ok: literal(true), data: homeWeatherResponseSchema }),
+      object({ lat: number(), lon: number(), ok: literal(false), error: errorSchema }),
+    ),
+  ),
+  updatedAt: string(),
+});
+
+const climateStationSchema: Schema<ClimateStation> = named(
+  'ClimateStation',
+  object({ id: string(), name: string(), distanceKm: number() }),
+);
+
+export const weatherHistoryResponseSchema: Schema<WeatherHistoryResponse> = named(
+  'WeatherHistoryResponse',
+  object({
+    days: array(
+      object({
+        date: string(),
+        high: nullable(number()),
+        low: nullable(number()),
+        precipitation: nullable(number()),
+      }),
+    ),
+    station: nullable(climateStationSchema),
+    normals: nullable(
+      object({
+        month: number(),
+        high: nullable(number()),
+        low: nullable(number()),
+        precipitation: nullable(number()),
+        station: climateStationSchema,
+      }),
+    ),
+    units: object({
+      temperature: oneOf(['C', 'F'] as const),
+      precipitation: oneOf(['mm', 'in'] as const),
+    }),
+    updatedAt: string(),
+    attribution: string(),
+  }),
+);
+
+export const nearbyStationsResponseSchema: Schema<NearbyStationsResponse> = named(
+  'NearbyStationsResponse',
+  object({
+    stations: array(
+      object({
+        id: string(),
+        name: string(),
+        lat: number(),
+        lon: number(),
+        distance: number(),
+        observedAt: string(),
+        ageMinutes: number(),
+        temperature: nullable(number()),
+        dewPoint: nullable(number()),
+        humidity: nullable(number()),
+        windSpeed: nullable(number()),
+        windGust: nullable(number()),
+        windDirection: optional(string()),
+        pressure: nullable(number()),
+        visibility: nullable(number()),
+      }),
+    ),
+    units: unitPreferencesSchema,
+    updatedAt: string(),
+    attribution: string(),
+  }),
+);
+
+const geocodeResultSchema: Schema<GeocodeResult> = named(
+  'GeocodeResult',
+  object({
+    name: string(),
+    lat: number(),
+    lon: number(),
+    country: optional(string()),
+    region: optional(string()),
+  }),
+);
+
+export const geocodeSearchResponseSchema: Schema<GeocodeSearchResponse> = object({ results: array(geocodeResultSchema) });
+
+export const geocodeReverseResponseSchema: Schema<GeocodeReverseResponse> = object({ result: geocodeResultSchema });
+
+const PROVIDER_CAPABILITIES: ProviderCapability[] = [
+  'current',
+  'hourly',
+  'daily',
+  'alerts',
+  'sunriseSunset',
+  'uvIndex',
+  'visibility',
+  'windDirection',
+  'windGust',
+  'dewPoint',
+];
+
+export const providersResponseSchema: Schema<ProvidersResponse> = object({
+  providers: array(
+    object({
+      id: string(),
+      name: string(),
+      shortName: string(),
+      coverage: object({ west: number(), south: number(), east: number(), north: number() }),
+      cacheTtlSeconds: number(),
+      capabilities: array(oneOf(PROVIDER_CAPABILITIES)),
+    }),
+  ),
+  modes: array(object({ id: string(), name: string(), shortName: string() })),
+  defaultProvider: string(),
+});
+
+export const alertsResponseSchema: Schema<AlertsResponse> = object({
+  alerts: array(alertItemSchema),
+  updatedAt: string(),
+});
+
+export const satellitePassesResponseSchema: Schema<SatellitePassesResponse> = object({
+  passes: array(
+    object({
+      satName: string(),
+      satId: number(),
+      startUTC: number(),
+      maxEl: number(),
+      duration: number(),
+      startAz: string(),
+      startAzCompass: number(),
+      endAz: string(),
+      endAzCompass: number(),
+      mag: number(),
+    }),
+  ),
+});
+
+const oneToEight = [1, 2, 3, 4, 5, 6, 7, 8] as const;
+
+/** 7Timer's "no data" value; the frontend drops timesteps that carry it. */
+const ASTRO_SENTINEL = -9999;
+
+export const astroResponseSchema: Schema<AstroApiResponse> = object({
+  product: string(),
+  init: string(),
+  dataseries: array(
+    object({
+      timepoint: number(),
+      cloudcover: oneOf([1, 2, 3, 4, 5, 6, 7, 8, 9] as const),
+      seeing: allowing(oneOf(oneToEight), ASTRO_SENTINEL),
+      transparency: allowing(oneOf(oneToEight), ASTRO_SENTINEL),
+      lifted_index: allowing(oneOf([-10, -6, -4, -1, 2, 6, 10, 15] as const), ASTRO_SENTINEL),
+      rh2m: number(),
+      wind10m: object({ direction: string(), speed: oneOf(oneToEight) }),
+      temp2m: number(),
+      prec_type: oneOf(['snow', 'rain', 'frzr', 'icep', 'none'] as const),
+    }),
+  ),
+});
+
+/** The OpenAPI document is free-form JSON. */
+export const openApiDocumentSchema: Schema<Record<string, unknown>> = record(unknown());
+
+/** The 200 body schema of every route; the frontend validates responses against these. */
+export const API_RESPONSE_SCHEMAS: { [P in ApiPath]: Schema<ApiResponse<P>> } = {
+  '/geocode/search': geocodeSearchResponseSchema,
+  '/geocode/reverse': geocodeReverseResponseSchema,
+  '/providers': providersResponseSchema,
+  '/weather/home': homeWeatherResponseSchema,
+  '/weather/batch': batchWeatherResponseSchema,
+  '/weather/history': weatherHistoryResponseSchema,
+  '/weather/stations': nearbyStationsResponseSchema,
+  '/alerts': alertsResponseSchema,
+  '/satellites/passes': satellitePassesResponseSchema,
+  '/darksky': astroResponseSchema,
+  '/openapi.json': openApiDocumentSchema,
+};
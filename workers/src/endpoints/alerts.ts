@@ -0,0 +1,78 @@
+import { alertsResponseSchema } from '../contract';
+import {
+  ALERTS_STALE_IF_ERROR_SECONDS,
+  getEcAlertsForBbox,
+  getEcAlertsForPoint,
+  withoutExpired,
+} from '../services/alerts';
+import type { BoundingBox } from '../types';
+import { cacheKey, toGrid } from '../utils/cache';
+import { toFiniteNumber } from '../utils/geo';
+import { errorResponse } from '../utils/http';
+import { defineRoute, optionalParam } from '../utils/router';
+import { langParam, latParam, lonParam } from './params';
+
+/** Alert polygons are detailed; cap map requests to roughly a province-sized box. */
+const MAX_ALERT_BBOX_DEGREES = 30;
+
+export const alertsRoute = defineRoute({
+  path: '/alerts',
+  summary: 'Active Environment Canada alerts at a point or inside a box (with geometry).',
+  query: {
+    bbox: optionalParam({
+      doc: { schema: { type: 'string', example: '-80,43,-75,46' }, required: false },
+      parse: (raw: string | null) => (raw === null ? null : toBoundingBox(raw)),
+      error: {
+        code: 'invalid_bbox',
+        message: `bbox must be west,south,east,north spanning at most ${MAX_ALERT_BBOX_DEGREES} degrees.`,
+      },
+    }),
+    lat: optionalParam(latParam),
+    lon: optionalParam(lonParam),
+    lang: langParam,
+  },
+  response: alertsResponseSchema,
+  upstreamError: 'Environment Canada alerts request failed.',
+  async handle({ query, env, cache, context }) {
+    const { bbox, lat, lon, lang } = query;
+    if (!bbox && (lat === undefined || lon === undefined)) {
+      return errorResponse(400, 'invalid_coordinates', 'lat and lon are required without bbox.', undefined, env);
+    }
+
+    const gridLat = toGrid(lat ?? 0);
+    const gridLon = toGrid(lon ?? 0);
+    const key = bbox
+      ? cacheKey('alerts', { bbox: [bbox.west, bbox.south, bbox.east, bbox.north].map((edge) => toGrid(edge)).join(','), lang })
+      : cacheKey('alerts', { lat: gridLat, lon: gridLon, lang });
+    const { value, status } = await cache.getOrLoad(
+      key,
+      async () => ({
+        alerts: bbox
+          ? await getEcAlertsForBbox(bbox, lang, context)
+          : await getEcAlertsForPoint(gridLat, gridLon, lang, context),
+        updatedAt: new Date().toISOString(),
+      }),
+      // EC reissues alerts every few minutes during active weather.
+      { freshSeconds: 120, staleSeconds: 300, staleIfErrorSeconds: ALERTS_STALE_IF_ERROR_SECONDS },
+    );
+
+    // A cached list can outlive some of its alerts.
+    const data = status === 'miss' ? value : { ...value, alerts: withoutExpired(value.alerts) };
+    return { data, maxAgeSeconds: 120, cacheStatus: status };
+  },
+});
+
+/** Parse `west,south,east,north`, rejecting boxes too large to fetch polygons for. */
+function toBoundingBox(value: string): BoundingBox | null {
+  const parts = value.split(',').map((part) => toFiniteNumber(part.trim()));
+  const [west, south, east, north] = parts;
+  if (parts.length !== 4 || west == null || south == null || east == null || north == null) {
+    return null;
+  }
+
+  if (west >= east || south >= north || east - west > MAX_ALERT_BBOX_DEGREES || north - south > MAX_ALERT_BBOX_DEGREES) {
+    return null;
+  }
+
+  return { west, south, east, north };
+}
@@ -0,0 +1,40 @@
+import { astroResponseSchema } from '../contract';
+import type { AstroApiResponse } from '../types';
+import { cacheKey, toGrid } from '../utils/cache';
+import { trackedFetch } from '../utils/requestContext';
+import { defineRoute } from '../utils/router';
+import { parseWith } from '../utils/schema';
+import { latParam, lonParam } from './params';
+
+/**
+ * Proxy for the 7Timer ASTRO API, which lacks CORS headers.
+ * Forwards lat/lon to 7Timer server-side and returns the JSON with CORS headers.
+ */
+export const darkSkyRoute = defineRoute({
+  path: '/darksky',
+  summary: '7Timer ASTRO forecast, proxied unchanged.',
+  query: { lat: latParam, lon: lonParam },
+  response: astroResponseSchema,
+  upstreamError: '7Timer request failed.',
+  async handle({ query, cache, context }) {
+    const gridLat = toGrid(query.lat);
+    const gridLon = toGrid(query.lon);
+    const upstream = `https://www.7timer.info/bin/api.pl?lon=${gridLon}&lat=${gridLat}&product=astro&output=json`;
+
+    const { value: data, status } = await cache.getOrLoad(
+      cacheKey('darksky', { lat: gridLat, lon: gridLon }),
+      async (): Promise<AstroApiResponse> => {
+        const upstreamResp = await trackedFetch(context, upstream, {
+          headers: { 'User-Agent': 'LiivSky2/1.0 DarkSky-Proxy' },
+        });
+        if (!upstreamResp.ok) {
+          throw new Error(`7Timer returned ${upstreamResp.status}.`);
+        }
+        return parseWith(astroResponseSchema, await upstreamResp.json(), '7Timer');
+      },
+      // 3 hours — 7Timer updates 4× per day
+      { freshSeconds: 10800, staleSeconds: 10800 },
+    );
+    return { data, maxAgeSeconds: 10800, cacheStatus: status };
+  },
+});
@@ -0,0 +1,51 @@
+import { geocodeReverseResponseSchema, geocodeSearchResponseSchema } from '../contract';
+import { reverseGeocode, searchGeocode } from '../services/geocode';
+import { cacheKey, toGrid } from '../utils/cache';
+import { defineRoute } from '../utils/router';
+import { langParam, latParam, lonParam } from './params';
+
+export const geocodeSearchRoute = defineRoute({
+  path: '/geocode/search',
+  summary: 'Search places by name (Nominatim).',
+  query: {
+    q: {
+      doc: { schema: { type: 'string', minLength: 2 }, required: true },
+      parse: (raw: string | null) => {
+        const query = (raw ?? '').trim();
+        return query.length >= 2 ? query : null;
+      },
+      error: { code: 'invalid_query', message: 'Query parameter q must be at least 2 characters.' },
+    },
+    lang: langParam,
+  },
+  response: geocodeSearchResponseSchema,
+  upstreamError: 'Geocoding request failed.',
+  async handle({ query, cache, context }) {
+    const { q, lang } = query;
+    const { value: results, status } = await cache.getOrLoad(
+      cacheKey('geocode/search', { q: q.toLowerCase(), lang }),
+      () => searchGeocode(q, lang, context),
+      { freshSeconds: 3600, staleSeconds: 86400 },
+    );
+    return { data: { results }, maxAgeSeconds: 3600, cacheStatus: status };
+  },
+});
+
+export const geocodeReverseRoute = defineRoute({
+  path: '/geocode/reverse',
+  summary: 'Nearest place name for a coordinate (Nominatim).',
+  query: { lat: latParam, lon: lonParam, lang: langParam },
+  response: geocodeReverseResponseSchema,
+  upstreamError: 'Reverse geocoding request failed.',
+  async handle({ query, cache, context }) {
+    // A ~100 m grid: the picked point becomes the selected location, so keep it close.
+    const gridLat = toGrid(query.lat, 3);
+    const gridLon = toGrid(query.lon, 3);
+    const { value: result, status } = await cache.getOrLoad(
+      cacheKey('geocode/reverse', { lat: gridLat, lon: gridLon, lang: query.lang }),
+      () => reverseGeocode(gridLat, gridLon, query.lang, context),
+      { freshSeconds: 86400, staleSeconds: 86400 * 6 },
+    );
+    return { data: { result }, maxAgeSeconds: 86400, cacheStatus: status };
+  },
+});
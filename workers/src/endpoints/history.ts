@@ -0,0 +1,53 @@
+import { weatherHistoryResponseSchema } from '../contract';
+import { getEcWeatherHistory } from '../services/history';
+import { cacheKey, toGrid } from '../utils/cache';
+import { defineRoute } from '../utils/router';
+import type { QueryParam } from '../utils/router';
+import { latParam, lonParam, unitQuery } from './params';
+
+/** The climate archive is searched day by day; two weeks keeps the upstream query small. */
+const MAX_HISTORY_DAYS = 14;
+const DEFAULT_HISTORY_DAYS = 7;
+
+const daysParam: QueryParam<number> = {
+  doc: {
+    schema: { type: 'integer', minimum: 1, maximum: MAX_HISTORY_DAYS, default: DEFAULT_HISTORY_DAYS },
+    required: false,
+  },
+  parse(raw) {
+    if (raw === null) {
+      return DEFAULT_HISTORY_DAYS;
+    }
+
+    const value = Number(raw);
+    return Number.isInteger(value) && value >= 1 && value <= MAX_HISTORY_DAYS ? value : null;
+  },
+  error: { code: 'invalid_days', message: `days must be a whole number from 1 to ${MAX_HISTORY_DAYS}.` },
+};
+
+export const weatherHistoryRoute = defineRoute({
+  path: '/weather/history',
+  summary: 'Observed highs, lows and precipitation for the past days, with climate normals (Environment Canada).',
+  query: { lat: latParam, lon: lonParam, days: daysParam, unit: unitQuery.unit, precip: unitQuery.precip },
+  response: weatherHistoryResponseSchema,
+  upstreamError: 'Environment Canada climate request failed.',
+  async handle({ query, cache, context }) {
+    const gridLat = toGrid(query.lat);
+    const gridLon = toGrid(query.lon);
+    const units = { temperature: query.unit, precipitation: query.precip };
+    const key = cacheKey('weather/history', {
+      lat: gridLat,
+      lon: gridLon,
+      days: query.days,
+      unit: units.temperature,
+      precip: units.precipitation,
+    });
+    const { value, status } = await cache.getOrLoad(
+      key,
+      () => getEcWeatherHistory(gridLat, gridLon, query.days, units, context),
+      // The climate archive is updated a few times a day.
+      { freshSeconds: 3600, staleSeconds: 3 * 3600 },
+    );
+    return { data: value, maxAgeSeconds: 3600, cacheStatus: status };
+  },
+});
@@ -0,0 +1,50 @@
+import { API_BASE_PATH, errorEnvelopeSchema, openApiDocumentSchema } from '../contract';
+import type { Route } from '../utils/router';
+import { defineRoute } from '../utils/router';
+import type { JsonSchema } from '../utils/schema';
+
+/** `/openapi.json`, generated from the route table so it cannot fall behind the routes. */
+export function createOpenApiRoute(routes: Route[]): Route<'/openapi.json'> {
+  return defineRoute({
+    path: '/openapi.json',
+    summary: 'This OpenAPI document.',
+    query: {},
+    response: openApiDocumentSchema,
+    handle() {
+      return { data: buildOpenApiDocument(routes), maxAgeSeconds: 3600 };
+    },
+  });
+}
+
+function buildOpenApiDocument(routes: Route[]): Record<string, unknown> {
+  const components: Record<string, JsonSchema> = { ...errorEnvelopeSchema.components };
+  const paths: Record<string, unknown> = {};
+
+  for (const route of routes) {
+    Object.assign(components, route.response.components);
+    paths[route.path] = {
+      get: {
+        summary: route.summary,
+        parameters: Object.entries(route.query).map(([name, param]) => ({
+          name,
+          in: 'query',
+          required: param.doc.required,
+          schema: param.doc.schema,
+          ...(param.doc.description ? { description: param.doc.description } : {}),
+        })),
+        responses: {
+          200: { description: 'OK', content: { 'application/json': { schema: route.response.json } } },
+          default: { description: 'Error', content: { 'application/json': { schema: errorEnvelopeSchema.json } } },
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'LiivSky2 Worker API', version: '1' },
+    servers: [{ url: API_BASE_PATH }],
+    paths,
+    components: { schemas: components },
+  };
+}
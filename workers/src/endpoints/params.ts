@@ -0,0 +1,67 @@
+import { DEFAULT_PROVIDER, providerIds } from '../providers/registry';
+import { BLEND_PROVIDER } from '../services/blend';
+import { AUTO_PROVIDER } from '../services/selection';
+import type { Language, TemperatureUnit, UnitPreferences } from '../types';
+import { enumParam, numberParam } from '../utils/router';
+import type { QueryValues } from '../utils/router';
+import { DEFAULT_UNITS, DISTANCE_UNITS, PRECIP_UNITS, PRESSURE_UNITS, WIND_UNITS } from '../utils/units';
+
+const LANGUAGES: Language[] = ['en', 'fr'];
+const TEMPERATURE_UNITS: TemperatureUnit[] = ['C', 'F'];
+
+const INVALID_COORDINATES = {
+  code: 'invalid_coordinates',
+  message: 'lat must be between -90 and 90 and lon between -180 and 180.',
+};
+
+export const latParam = numberParam(-90, 90, INVALID_COORDINATES);
+export const lonParam = numberParam(-180, 180, INVALID_COORDINATES);
+
+export const langParam = enumParam(LANGUAGES, 'en', { code: 'invalid_lang', message: 'lang must be en or fr.' });
+
+const providerValues = [...providerIds(), AUTO_PROVIDER, BLEND_PROVIDER];
+
+/** Units shared by every endpoint that converts quantities. */
+export const unitQuery = {
+  unit: enumParam(TEMPERATURE_UNITS, DEFAULT_UNITS.temperature, {
+    code: 'invalid_unit',
+    message: 'unit must be C or F.',
+  }),
+  wind: enumParam(WIND_UNITS, DEFAULT_UNITS.wind, {
+    code: 'invalid_unit',
+    message: `wind must be one of: ${WIND_UNITS.join(', ')}.`,
+  }),
+  pressure: enumParam(PRESSURE_UNITS, DEFAULT_UNITS.pressure, {
+    code: 'invalid_unit',
+    message: `pressure must be one of: ${PRESSURE_UNITS.join(', ')}.`,
+  }),
+  distance: enumParam(DISTANCE_UNITS, DEFAULT_UNITS.distance, {
+    code: 'invalid_unit',
+    message: `distance must be one of: ${DISTANCE_UNITS.join(', ')}.`,
+  }),
+  precip: enumParam(PRECIP_UNITS, DEFAULT_UNITS.precipitation, {
+    code: 'invalid_unit',
+    message: `precip must be one of: ${PRECIP_UNITS.join(', ')}.`,
+  }),
+};
+
+/** Provider, units and language shared by the home and batch endpoints. */
+export const homeQuery = {
+  provider: enumParam(providerValues, DEFAULT_PROVIDER, {
+    code: 'invalid_provider',
+    message: `provider must be one of: ${providerValues.join(', ')}.`,
+  }),
+  ...unitQuery,
+  lang: langParam,
+};
+
+/** The unit parameters as the preferences providers convert into. */
+export function toUnitPreferences(query: QueryValues<typeof unitQuery>): UnitPreferences {
+  return {
+    temperature: query.unit,
+    wind: query.wind,
+    pressure: query.pressure,
+    distance: query.distance,
+    precipitation: query.precip,
+  };
+}
@@ -0,0 +1,22 @@
+import { providersResponseSchema } from '../contract';
+import { DEFAULT_PROVIDER, listProviders, toProviderSummary } from '../providers/registry';
+import { BLEND_PROVIDER } from '../services/blend';
+import { AUTO_PROVIDER } from '../services/selection';
+import type { ProviderMode } from '../types';
+import { defineRoute } from '../utils/router';
+
+const PROVIDER_MODES: ProviderMode[] = [
+  { id: AUTO_PROVIDER, name: 'Automatic (best for location)', shortName: 'Auto' },
+  { id: BLEND_PROVIDER, name: 'Blended (all sources)', shortName: 'Blend' },
+];
+
+export const providersRoute = defineRoute({
+  path: '/providers',
+  summary: 'Registered weather providers and provider modes.',
+  query: {},
+  response: providersResponseSchema,
+  handle() {
+    const providers = listProviders().map(toProviderSummary);
+    return { data: { providers, modes: PROVIDER_MODES, defaultProvider: DEFAULT_PROVIDER }, maxAgeSeconds: 3600 };
+  },
+});
@@ -0,0 +1,149 @@
+import { satellitePassesResponseSchema } from '../contract';
+import type { SatellitePass } from '../types';
+import { cacheKey, toGrid } from '../utils/cache';
+import { coalesce } from '../utils/coalesce';
+import { errorResponse } from '../utils/http';
+import { takeUpstreamBudget } from '../utils/rateLimit';
+import { trackedFetch } from '../utils/requestContext';
+import type { RequestContext } from '../utils/requestContext';
+import { defineRoute } from '../utils/router';
+import { array, number, object, optional, parseWith, SchemaError, string } from '../utils/schema';
+import type { Schema } from '../utils/schema';
+import { latParam, lonParam } from './params';
+
+/** Well-known bright/large satellites to query for visual passes. */
+const TRACKED_SATS = [
+  { id: 25544, name: 'ISS' },
+  { id: 20580, name: 'Hubble' },
+  { id: 54216, name: 'Tiangong' },
+  { id: 27386, name: 'Envisat' },
+  { id: 25078, name: 'Iridium 8' },
+  { id: 43226, name: 'Rocket Body (Falcon 9)' },
+  { id: 28654, name: 'NOAA 18' },
+  { id: 33591, name: 'NOAA 19' },
+  { id: 28376, name: 'Lacrosse 5' },
+  { id: 39084, name: 'Cosmos 2486' },
+  { id: 40258, name: 'Yaogan 22' },
+  { id: 37820, name: 'Tiangong 1 DEB' },
+  { id: 44420, name: 'CZ-5B Rocket Body' },
+  { id: 57320, name: 'Starlink-5001' },
+];
+
+interface N2YoPass {
+  startUTC: number;
+  startAz?: number;
+  startAzCompass?: string;
+  endAz?: number;
+  endAzCompass?: string;
+  maxEl: number;
+  duration: number;
+  mag?: number;
+}
+
+interface N2YoResponse {
+  info?: { satid: number; satname: string; passescount: number };
+  passes?: N2YoPass[];
+}
+
+/** `passes` is left out when a satellite has none in the window. */
+const n2yoSchema: Schema<N2YoResponse> = object({
+  info: optional(object({ satid: number(), satname: string(), passescount: number() })),
+  passes: optional(array(object({ startUTC: number(), maxEl: number(), duration: number() }))),
+});
+
+export const satellitePassesRoute = defineRoute({
+  path: '/satellites/passes',
+  summary: 'Upcoming visible passes of bright satellites (N2YO).',
+  query: { lat: latParam, lon: lonParam },
+  response: satellitePassesResponseSchema,
+  upstreamError: 'Failed to fetch satellite passes.',
+  async handle({ query, env, cache, context }) {
+    if (!env.N2YO_API_KEY) {
+      return errorResponse(500, 'config_error', 'N2YO API key is not configured.', undefined, env);
+    }
+
+    const apiKey = env.N2YO_API_KEY;
+    const gridLat = toGrid(query.lat);
+    const gridLon = toGrid(query.lon);
+    const key = cacheKey('satellites/passes', { lat: gridLat, lon: gridLon });
+    const { value: passes, status } = await cache.getOrLoad(
+      key,
+      () => coalesce(key, () => fetchSatellitePasses(gridLat, gridLon, apiKey, context)),
+      { freshSeconds: 1800, staleSeconds: 1800 },
+    );
+    return { data: { passes }, maxAgeSeconds: 1800, cacheStatus: status };
+  },
+});
+
+/**
+ * Visual passes for every tracked satellite; throws only when no satellite
+ * could be queried, or every answer failed validation.
+ */
+async function fetchSatellitePasses(
+  lat: number,
+  lon: number,
+  apiKey: string,
+  context: RequestContext,
+): Promise<SatellitePass[]> {
+  const alt = 0; // metres above sea level — default
+  const days = 10; // look ahead
+  const minVisibility = 60; // minimum seconds visible
+
+  // One transaction per tracked satellite.
+  takeUpstreamBudget('n2yo', TRACKED_SATS.length);
+
+  const allPasses: SatellitePass[] = [];
+  let answered = 0;
+  let parsed = 0;
+
+  // Fetch passes for each tracked satellite in parallel
+  const outcomes = await Promise.allSettled(
+    TRACKED_SATS.map(async (sat) => {
+      const apiUrl = `https://api.n2yo.com/rest/v1/satellite/visualpasses/${sat.id}/${lat}/${lon}/${alt}/${days}/${minVisibility}?apiKey=${apiKey}`;
+      const res = await trackedFetch(context, apiUrl);
+      if (!res.ok) return;
+      answered += 1;
+      const text = await res.text();
+      let payload: unknown;
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        return; // non-JSON response, skip
+      }
+      const data = parseWith(n2yoSchema, payload, 'N2YO');
+      parsed += 1;
+      if (!data.passes) return;
+      const satName = data.info?.satname ?? sat.name;
+      for (const p of data.passes) {
+        allPasses.push({
+          satName,
+          satId: sat.id,
+          startUTC: p.startUTC,
+          maxEl: p.maxEl,
+          duration: p.duration,
+          startAz: p.startAzCompass ?? '',
+          startAzCompass: p.startAz ?? 0,
+          endAz: p.endAzCompass ?? '',
+          endAzCompass: p.endAz ?? 0,
+          mag: typeof p.mag === 'number' ? p.mag : 0,
+        });
+      }
+    }),
+  );
+
+  if (answered === 0) {
+    throw new Error('No N2YO satellite request succeeded.');
+  }
+
+  const schemaError = outcomes
+    .map((outcome) => (outcome.status === 'rejected' ? outcome.reason : null))
+    .find((reason): reason is SchemaError => reason instanceof SchemaError);
+  if (parsed === 0 && schemaError) {
+    throw schemaError;
+  }
+
+  // Sort by time, keep all returned passes (N2YO already filters to visible)
+  return allPasses
+    .sort((a, b) => a.startUTC - b.startUTC)
+    .slice(0, 20);
+}
@@ -0,0 +1,57 @@
+import { nearbyStationsResponseSchema } from '../contract';
+import { getNearbyStationObservations } from '../services/observations';
+import { cacheKey, toGrid } from '../utils/cache';
+import { defineRoute } from '../utils/router';
+import type { QueryParam } from '../utils/router';
+import { latParam, lonParam, toUnitPreferences, unitQuery } from './params';
+
+/** Beyond this a station says little about conditions at the point. */
+const MAX_RADIUS_KM = 150;
+const DEFAULT_RADIUS_KM = 50;
+
+const radiusParam: QueryParam<number> = {
+  doc: {
+    schema: { type: 'number', minimum: 1, maximum: MAX_RADIUS_KM, default: DEFAULT_RADIUS_KM },
+    required: false,
+    description: 'Search radius in kilometres.',
+  },
+  parse(raw) {
+    if (raw === null) {
+      return DEFAULT_RADIUS_KM;
+    }
+
+    const value = Number(raw);
+    return raw.trim() !== '' && Number.isFinite(value) && value >= 1 && value <= MAX_RADIUS_KM ? value : null;
+  },
+  error: { code: 'invalid_radius', message: `radius must be between 1 and ${MAX_RADIUS_KM} km.` },
+};
+
+export const weatherStationsRoute = defineRoute({
+  path: '/weather/stations',
+  summary: 'Latest observations at the nearest Environment Canada stations (SWOB).',
+  query: { lat: latParam, lon: lonParam, radius: radiusParam, ...unitQuery },
+  response: nearbyStationsResponseSchema,
+  upstreamError: 'Environment Canada observations request failed.',
+  async handle({ query, cache, context }) {
+    const gridLat = toGrid(query.lat);
+    const gridLon = toGrid(query.lon);
+    const units = toUnitPreferences(query);
+    const key = cacheKey('weather/stations', {
+      lat: gridLat,
+      lon: gridLon,
+      radius: query.radius,
+      unit: units.temperature,
+      wind: units.wind,
+      pressure: units.pressure,
+      distance: units.distance,
+      precip: units.precipitation,
+    });
+    const { value, status } = await cache.getOrLoad(
+      key,
+      () => getNearbyStationObservations(gridLat, gridLon, query.radius, units, context),
+      // Stations report hourly, some every minute; `ageMinutes` is computed at load time.
+      { freshSeconds: 300, staleSeconds: 300 },
+    );
+    return { data: value, maxAgeSeconds: 300, cacheStatus: status };
+  },
+});
@@ -0,0 +1,257 @@
+import { batchWeatherResponseSchema, homeWeatherResponseSchema } from '../contract';
+import { getProvider, providersForPoint } from '../providers/registry';
+import type { WeatherProviderAdapter } from '../providers/types';
+import { BLEND_PROVIDER, getBlendedHomeWeather } from '../services/blend';
+import { ALERTS_STALE_IF_ERROR_SECONDS, withoutExpired } from '../services/alerts';
+import { AUTO_PROVIDER, getAutoHomeWeather } from '../services/selection';
+import type { BatchWeatherItem, BatchWeatherResponse, HomeWeatherResponse, Language, UnitPreferences } from '../types';
+import { cacheKey, toGrid } from '../utils/cache';
+import type { CacheStatus, ResponseCache } from '../utils/cache';
+import { settleWithConcurrency } from '../utils/concurrency';
+import { toFiniteNumber } from '../utils/geo';
+import { schemaErrorBody } from '../utils/http';
+import { RateLimitError } from '../utils/rateLimit';
+import type { RequestContext } from '../utils/requestContext';
+import { defineRoute } from '../utils/router';
+import type { QueryValues } from '../utils/router';
+import { SchemaError } from '../utils/schema';
+import { homeQuery, latParam, lonParam, toUnitPreferences } from './params';
+
+/** Batch requests fan out to several upstream calls per point; keep both bounded. */
+const MAX_BATCH_POINTS = 20;
+const BATCH_CONCURRENCY = 4;
+
+export const weatherHomeRoute = defineRoute({
+  path: '/weather/home',
+  summary: 'Current conditions, forecast and alerts for a point.',
+  query: { lat: latParam, lon: lonParam, ...homeQuery },
+  response: homeWeatherResponseSchema,
+  upstreamError: 'Weather provider request failed.',
+  async handle({ query, cache, context }) {
+    const { data, cacheSeconds, status } = await loadCachedHomeWeather(
+      cache,
+      toHomeOptions(query),
+      context,
+      query.lat,
+      query.lon,
+    );
+    return { data, maxAgeSeconds: cacheSeconds, cacheStatus: status };
+  },
+});
+
+/**
+ * Home weather for up to MAX_BATCH_POINTS points in one envelope. Points that
+ * resolve to the same forecast site are fetched once; failures are reported
+ * per point instead of failing the batch.
+ */
+export const weatherBatchRoute = defineRoute({
+  path: '/weather/batch',
+  summary: 'Home weather for several points; failures are reported per point.',
+  query: {
+    points: {
+      doc: { schema: { type: 'string', example: '45.42,-75.69;43.65,-79.38' }, required: true },
+      parse: (raw: string | null) => toPoints(raw ?? ''),
+      error: {
+        code: 'invalid_points',
+        message: `points must be 1 to ${MAX_BATCH_POINTS} lat,lon pairs separated by semicolons.`,
+      },
+    },
+    ...homeQuery,
+  },
+  response: batchWeatherResponseSchema,
+  async handle({ query, cache, context }) {
+    const { points } = query;
+    const options = toHomeOptions(query);
+
+    // Group points by forecast site so each site is fetched once.
+    const keys = await settleWithConcurrency(points, BATCH_CONCURRENCY, (point) =>
+      batchKey(cache, options, context, point.lat, point.lon),
+    );
+    const groups = new Map<string, number[]>();
+    keys.forEach((outcome, index) => {
+      // A failed site lookup still gets its own fetch, which reports the real error.
+      const key = outcome.status === 'fulfilled' ? outcome.value : `point:${index}`;
+      groups.set(key, [...(groups.get(key) ?? []), index]);
+    });
+
+    const representatives = Array.from(groups.values()).map((indexes) => indexes[0] as number);
+    const loaded = await settleWithConcurrency(representatives, BATCH_CONCURRENCY, (index) => {
+      const point = points[index] as { lat: number; lon: number };
+      return loadCachedHomeWeather(cache, options, context, point.lat, point.lon);
+    });
+
+    const results: BatchWeatherItem[] = new Array(points.length);
+    let cacheSeconds = Number.POSITIVE_INFINITY;
+    Array.from(groups.values()).forEach((indexes, groupIndex) => {
+      const outcome = loaded[groupIndex];
+      for (const index of indexes) {
+        const point = points[index] as { lat: number; lon: number };
+        if (outcome?.status === 'fulfilled') {
+          results[index] = { lat: point.lat, lon: point.lon, ok: true, data: outcome.value.data };
+          cacheSeconds = Math.min(cacheSeconds, outcome.value.cacheSeconds);
+        } else if (outcome?.reason instanceof RateLimitError) {
+          results[index] = {
+            lat: point.lat,
+            lon: point.lon,
+            ok: false,
+            error: {
+              code: 'rate_limited',
+              message: 'Upstream request budget exhausted; retry later.',
+              details: outcome.reason.message,
+            },
+          };
+        } else if (outcome?.reason instanceof SchemaError) {
+          results[index] = { lat: point.lat, lon: point.lon, ok: false, error: schemaErrorBody(outcome.reason) };
+        } else {
+          const message = outcome?.reason instanceof Error ? outcome.reason.message : 'Provider request failed.';
+          results[index] = {
+            lat: point.lat,
+            lon: point.lon,
+            ok: false,
+            error: { code: 'upstream_error', message: 'Weather provider request failed.', details: message },
+          };
+        }
+      }
+    });
+
+    // Retry failed points soon rather than caching the failure for a full provider TTL.
+    const ttl = results.every((result) => result.ok) ? cacheSeconds : 60;
+    const payload: BatchWeatherResponse = { results, updatedAt: new Date().toISOString() };
+    return { data: payload, maxAgeSeconds: Number.isFinite(ttl) ? ttl : 60 };
+  },
+});
+
+interface HomeOptions {
+  providerParam: string;
+  adapter: WeatherProviderAdapter | null;
+  units: UnitPreferences;
+  lang: Language;
+}
+
+function toHomeOptions(query: QueryValues<typeof homeQuery>): HomeOptions {
+  const providerParam = query.provider;
+  const isMode = providerParam === BLEND_PROVIDER || providerParam === AUTO_PROVIDER;
+
+  return {
+    providerParam,
+    adapter: isMode ? null : getProvider(providerParam),
+    units: toUnitPreferences(query),
+    lang: query.lang,
+  };
+}
+
+/**
+ * Home weather through the response cache. Coordinates snap to the cache grid
+ * before loading so everyone sharing an entry gets the same answer; the TTL
+ * follows the provider that answered. Responses carrying alerts keep the short
+ * alert fallback window, and cached ones drop alerts that have since expired.
+ */
+async function loadCachedHomeWeather(
+  cache: ResponseCache,
+  options: HomeOptions,
+  context: RequestContext,
+  lat: number,
+  lon: number,
+): Promise<{ data: HomeWeatherResponse; cacheSeconds: number; status: CacheStatus }> {
+  const gridLat = toGrid(lat);
+  const gridLon = toGrid(lon);
+  const { units } = options;
+  const key = cacheKey('weather/home', {
+    provider: options.providerParam,
+    lat: gridLat,
+    lon: gridLon,
+    lang: options.lang,
+    unit: units.temperature,
+    wind: units.wind,
+    pressure: units.pressure,
+    distance: units.distance,
+    precip: units.precipitation,
+  });
+
+  const { value, status } = await cache.getOrLoad(
+    key,
+    () => loadHomeWeather(options, context, gridLat, gridLon),
+    (loaded) => ({
+      freshSeconds: loaded.cacheSeconds,
+      staleSeconds: loaded.cacheSeconds,
+      ...(loaded.data.alerts.length > 0 ? { staleIfErrorSeconds: ALERTS_STALE_IF_ERROR_SECONDS } : {}),
+    }),
+  );
+
+  const data = status === 'miss' ? value.data : { ...value.data, alerts: withoutExpired(value.data.alerts) };
+  return { data, cacheSeconds: value.cacheSeconds, status };
+}
+
+async function loadHomeWeather(
+  options: HomeOptions,
+  context: RequestContext,
+  lat: number,
+  lon: number,
+): Promise<{ data: HomeWeatherResponse; cacheSeconds: number }> {
+  const { adapter, providerParam, units, lang } = options;
+
+  if (adapter) {
+    return {
+      data: await adapter.getHomeWeather({ lat, lon, units, lang, context }),
+      cacheSeconds: adapter.cacheTtlSeconds,
+    };
+  }
+
+  if (providerParam === AUTO_PROVIDER) {
+    const data = await getAutoHomeWeather({ lat, lon, units, lang, context }, providersForPoint(lat, lon));
+    return { data, cacheSeconds: getProvider(data.provider)?.cacheTtlSeconds ?? 60 };
+  }
+
+  const adapters = providersForPoint(lat, lon);
+  return {
+    data: await getBlendedHomeWeather({ lat, lon, units, lang, context }, adapters),
+    cacheSeconds: Math.min(...adapters.map((provider) => provider.cacheTtlSeconds)),
+  };
+}
+
+/** Site-snapping providers share one fetch per site; everything else per cache grid cell. */
+async function batchKey(
+  cache: ResponseCache,
+  options: HomeOptions,
+  context: RequestContext,
+  lat: number,
+  lon: number,
+): Promise<string> {
+  const gridLat = toGrid(lat);
+  const gridLon = toGrid(lon);
+  const { adapter } = options;
+
+  if (adapter?.resolveSiteId) {
+    const resolveSiteId = adapter.resolveSiteId;
+    // Forecast sites almost never move; a day is conservative.
+    const { value: siteId } = await cache.getOrLoad(
+      cacheKey('site', { provider: adapter.id, lat: gridLat, lon: gridLon }),
+      () => resolveSiteId(gridLat, gridLon, context),
+      { freshSeconds: 86400, staleSeconds: 86400 },
+    );
+    return `site:${siteId}`;
+  }
+
+  return `point:${gridLat},${gridLon}`;
+}
+
+/** Parse `lat,lon;lat,lon`, rejecting empty, malformed or oversized lists. */
+function toPoints(value: string): Array<{ lat: number; lon: number }> | null {
+  const pairs = value.split(';').filter((pair) => pair.trim().length > 0);
+  if (pairs.length === 0 || pairs.length > MAX_BATCH_POINTS) {
+    return null;
+  }
+
+  const points: Array<{ lat: number; lon: number }> = [];
+  for (const pair of pairs) {
+    const parts = pair.split(',').map((part) => toFiniteNumber(part.trim()));
+    const [lat, lon] = parts;
+    if (parts.length !== 2 || lat == null || lon == null || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return null;
+    }
+
+    points.push({ lat, lon });
+  }
+
+  return points;
+}
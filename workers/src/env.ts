@@ -0,0 +1,8 @@
+/** Worker bindings and secrets; kept out of `types.ts` so the API types stay platform-neutral. */
+export interface Env {
+  CORS_ORIGIN?: string;
+  TWN_API_KEY?: string;
+  N2YO_API_KEY?: string;
+  /** Optional KV namespace for the shared response cache; the Cache API is used without it. */
+  WEATHER_CACHE?: KVNamespace;
+}
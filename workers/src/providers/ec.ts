@@ -1,15 +1,58 @@
 import type {
   AlertItem,
+  CurrentConditions,
   DailyItem,
   HomeWeatherResponse,
   HourlyItem,
-  TemperatureUnit,
+  Language,
+  SourceMetadata,
+  UnitPreferences,
 } from '../types';
+import { getEcAlertsForPoint, toAlertSeverity, toAlertType } from '../services/alerts';
+import { getNearestStationPressure } from '../services/observations';
+import { isInCanada } from '../utils/countries';
 import { haversineKm } from '../utils/geo';
+import { summarizePressure } from '../utils/pressure';
+import { trackedFetch } from '../utils/requestContext';
+import type { RequestContext } from '../utils/requestContext';
+import { array, number, object, optional, parseWith, union } from '../utils/schema';
+import type { Schema } from '../utils/schema';
+import {
+  clampPercent,
+  convertDistance,
+  convertPrecip,
+  convertPressure,
+  convertReported,
+  convertTemp,
+  convertWind,
+  maxReported,
+  sumReported,
+} from '../utils/units';
 import type { HomeWeatherRequest, WeatherProviderAdapter } from './types';
 
 const CITYPAGE_ITEMS_URL = 'https://api.weather.gc.ca/collections/citypageweather-realtime/items';
 
+/**
+ * Civil time zone by the province prefix of a citypage identifier (`on-118`).
+ * Citypage timestamps are UTC only, so forecast days are dated in this zone;
+ * provinces that span zones are split by longitude in `siteTimeZone`.
+ */
+const PROVINCE_TIME_ZONES: Record<string, string> = {
+  ab: 'America/Edmonton',
+  bc: 'America/Vancouver',
+  mb: 'America/Winnipeg',
+  nb: 'America/Moncton',
+  nl: 'America/St_Johns',
+  ns: 'America/Halifax',
+  nt: 'America/Yellowknife',
+  nu: 'America/Iqaluit',
+  on: 'America/Toronto',
+  pe: 'America/Halifax',
+  qc: 'America/Toronto',
+  sk: 'America/Regina',
+  yt: 'America/Whitehorse',
+};
+
 type LocalizedValue<T> = T | { en?: T; fr?: T };
 
 interface CityPageFeatureCollection {
@@ -24,7 +67,17 @@ interface CityPageFeature {
     name?: LocalizedValue<string>;
     region?: LocalizedValue<string>;
     lastUpdated?: string;
+    identifier?: string;
     currentConditions?: {
+      timestamp?: LocalizedValue<string>;
+      station?: {
+        code?: LocalizedValue<string>;
+        value?: LocalizedValue<string>;
+        /** e.g. `42.28N` */
+        lat?: LocalizedValue<string>;
+        /** e.g. `82.96W` */
+        lon?: LocalizedValue<string>;
+      };
       condition?: LocalizedValue<string>;
       iconCode?: { value?: number | string };
       relativeHumidity?: { value?: LocalizedValue<number> };
@@ -37,6 +90,7 @@ interface CityPageFeature {
       };
       temperature?: { value?: LocalizedValue<number> };
       windChill?: { value?: LocalizedValue<number> };
+      humidex?: { value?: LocalizedValue<number> };
     };
     riseSet?: {
       sunrise?: LocalizedValue<string>;
@@ -49,9 +103,17 @@ interface CityPageFeature {
         condition?: LocalizedValue<string>;
         temperature?: { value?: LocalizedValue<number> };
         lop?: { value?: LocalizedValue<number> };
+        windChill?: { value?: LocalizedValue<number> };
+        humidex?: { value?: LocalizedValue<number> };
+        wind?: {
+          speed?: { value?: LocalizedValue<number> };
+          gust?: { value?: LocalizedValue<number> };
+          direction?: { value?: LocalizedValue<string> };
+        };
       }>;
     };
     forecastGroup?: {
+      timestamp?: LocalizedValue<string>;
       forecasts?: Array<{
         period?: {
           textForecastName?: LocalizedValue<string>;
@@ -64,8 +126,32 @@ interface CityPageFeature {
         };
         abbreviatedForecast?: {
           icon?: { value?: number | string };
+          pop?: { value?: LocalizedValue<number> };
           textSummary?: LocalizedValue<string>;
         };
+        precipitation?: {
+          accumulation?: {
+            /** `rain`, `snow`, `freezing rain`, ... */
+            name?: LocalizedValue<string>;
+            amount?: {
+              /** `mm` for liquid, `cm` for snow */
+              units?: LocalizedValue<string>;
+              value?: LocalizedValue<number>;
+            };
+          };
+        };
+        winds?: {
+          periods?: Array<{
+            speed?: { value?: LocalizedValue<number> };
+            /** Zero when no gusts are forecast. */
+            gust?: { value?: LocalizedValue<number> };
+            direction?: LocalizedValue<string>;
+          }>;
+        };
+        uv?: {
+          /** Published as a numeric string (`"1"`). */
+          index?: LocalizedValue<string | number>;
+        };
         textSummary?: LocalizedValue<string>;
       }>;
     };
@@ -87,9 +173,56 @@ type DailyForecastEntry = NonNullable<
 
 type WarningEntry = NonNullable<NonNullable<CityPageFeature['properties']>['warnings']>[number];
 
+function localized<T>(schema: Schema<T>): Schema<LocalizedValue<T>> {
+  return union(schema, object({ en: optional(schema), fr: optional(schema) }));
+}
+
+/** Only what site selection reads; every feature is checked again once chosen. */
+const citypageCollectionSchema: Schema<CityPageFeatureCollection> = object({
+  features: array(object({ geometry: optional(object({ coordinates: optional(array(number())) })) })),
+});
+
+/**
+ * The forecast groups must be present; current conditions may be missing
+ * during station outages (their fields are then null), but must be numbers
+ * when present.
+ */
+const citypageFeatureSchema: Schema<CityPageFeature> = object({
+  properties: object({
+    currentConditions: optional(
+      object({ temperature: optional(object({ value: optional(localized(number())) })) }),
+    ),
+    hourlyForecastGroup: object({
+      hourlyForecasts: array(
+        object({
+          // A missing hour temperature is reported as null rather than failing the forecast.
+          temperature: optional(object({ value: optional(localized(number())) })),
+          lop: optional(object({ value: optional(localized(number())) })),
+        }),
+      ),
+    }),
+    forecastGroup: object({ forecasts: array(object({})) }),
+  }),
+});
+
 export const ecProvider: WeatherProviderAdapter = {
+  id: 'ec',
+  displayName: 'Environment Canada',
+  shortName: 'EC',
+  coverage: { west: -141, south: 41.7, east: -52.6, north: 83.1 },
+  contains: isInCanada,
+  cacheTtlSeconds: 300,
+  capabilities: ['current', 'hourly', 'daily', 'alerts', 'sunriseSunset'],
+
   async getHomeWeather(request: HomeWeatherRequest): Promise<HomeWeatherResponse> {
-    const feature = await fetchNearestFeature(request.lat, request.lon);
+    // The alerts collection is authoritative; citypage warnings are the fallback if it fails.
+    // Station pressure history is optional; the citypage tendency stands in without it.
+    const [nearest, zoneAlerts, pressureObservations] = await Promise.all([
+      fetchNearestFeature(request.lat, request.lon, request.context, request.maxDistanceKm),
+      getEcAlertsForPoint(request.lat, request.lon, request.lang, request.context).catch(() => null),
+      getNearestStationPressure(request.lat, request.lon, request.context).catch(() => []),
+    ]);
+    const feature = parseWith(citypageFeatureSchema, nearest, 'Environment Canada citypage');
     const properties = feature.properties;
     if (!properties) {
       throw new Error('Environment Canada response did not include feature properties.');
@@ -98,31 +231,55 @@ export const ecProvider: WeatherProviderAdapter = {
     const locationLat = feature.geometry?.coordinates?.[1] ?? request.lat;
     const locationLon = feature.geometry?.coordinates?.[0] ?? request.lon;
 
-    const name = readLocalized(properties.name, 'Unknown');
-    const region = readLocalized(properties.region, '');
+    const name = readLocalized(properties.name, 'Unknown', request.lang);
+    const region = readLocalized(properties.region, '', request.lang);
     const locationName = [name, region].filter(Boolean).join(', ');
 
-    const currentTempC = readNumeric(properties.currentConditions?.temperature?.value, 0);
-    const feelsLikeC = readNumeric(properties.currentConditions?.windChill?.value, currentTempC);
-
-    const current = {
-      temperature: convertTemp(currentTempC, request.unit),
-      feelsLike: convertTemp(feelsLikeC, request.unit),
-      condition: readLocalized(properties.currentConditions?.condition, 'Unknown'),
+    const currentTempC = readNumeric(properties.currentConditions?.temperature?.value);
+    const feelsLikeC = toFeelsLikeC(properties.currentConditions, currentTempC);
+    const { units } = request;
+    const stationPressure = summarizePressure(
+      pressureObservations,
+      units.pressure,
+      toPressureTrend(readLocalized(properties.currentConditions?.pressure?.tendency, '')),
+    );
+
+    // Citypages report neither visibility nor a current UV index.
+    const current: CurrentConditions = {
+      temperature: convertReported(currentTempC, units.temperature, convertTemp),
+      feelsLike: convertReported(feelsLikeC, units.temperature, convertTemp),
+      condition: readLocalized(properties.currentConditions?.condition, 'Unknown', request.lang),
       icon: toIcon(properties.currentConditions?.iconCode?.value),
-      humidity: readNumeric(properties.currentConditions?.relativeHumidity?.value, 0),
-      windKph: readNumeric(properties.currentConditions?.wind?.speed?.value, 0),
-      pressureKpa: readNumeric(properties.currentConditions?.pressure?.value, 0),
-      pressureTrend: toPressureTrend(readLocalized(properties.currentConditions?.pressure?.tendency, '')),
-      visibilityKm: 10,
-      uvIndex: 0,
+      humidity: readNumeric(properties.currentConditions?.relativeHumidity?.value),
+      windSpeed: convertReported(readNumeric(properties.currentConditions?.wind?.speed?.value), units.wind, convertWind),
+      // The tendency and sparkline come from the SWOB station, so the reading does too;
+      // the citypage station's value stands in when no SWOB station is close enough.
+      pressure:
+        stationPressure.pressureHistory.at(-1)?.pressure ??
+        convertReported(
+          readNumeric(properties.currentConditions?.pressure?.value),
+          units.pressure,
+          convertPressure,
+        ),
+      ...stationPressure,
+      visibility: null,
+      uvIndex: null,
       sunrise: readLocalized(properties.riseSet?.sunrise, ''),
       sunset: readLocalized(properties.riseSet?.sunset, ''),
     };
 
-    const hourly = normalizeHourly(properties.hourlyForecastGroup?.hourlyForecasts ?? [], request.unit);
-    const daily = normalizeDaily(properties.forecastGroup?.forecasts ?? [], request.unit);
-    const alerts = normalizeAlerts(properties.warnings ?? []);
+    const hourly = normalizeHourly(properties.hourlyForecastGroup?.hourlyForecasts ?? [], request.units);
+    const daily = normalizeDaily(
+      properties.forecastGroup?.forecasts ?? [],
+      readLocalized(properties.forecastGroup?.timestamp, '') || properties.lastUpdated,
+      siteTimeZone(properties.identifier, locationLat, locationLon),
+      locationLon,
+      request.units,
+      request.lang,
+    );
+    const alerts = zoneAlerts
+      ? zoneAlerts.map(({ geometry: _geometry, ...alert }) => alert)
+      : normalizeAlerts(properties.warnings ?? [], properties.identifier, request.lang);
 
     return {
       provider: 'ec',
@@ -136,11 +293,27 @@ export const ecProvider: WeatherProviderAdapter = {
       daily,
       alerts,
       updatedAt: properties.lastUpdated ?? new Date().toISOString(),
+      units: request.units,
+      source: buildSource(properties, request, locationLat, locationLon),
     };
   },
+
+  async resolveSiteId(lat: number, lon: number, context: RequestContext): Promise<string> {
+    const feature = await fetchNearestFeature(lat, lon, context);
+    return feature.properties?.identifier ?? `${feature.geometry?.coordinates?.join(',')}`;
+  },
 };
 
-async function fetchNearestFeature(lat: number, lon: number): Promise<CityPageFeature> {
+async function fetchNearestFeature(
+  lat: number,
+  lon: number,
+  context: RequestContext,
+  maxDistanceKm?: number,
+): Promise<CityPageFeature> {
+  if (maxDistanceKm !== undefined) {
+    return fetchFeatureWithin(lat, lon, maxDistanceKm, context);
+  }
+
   const searchRadii = [1, 2.5, 5, 10, 20];
 
   for (const radius of searchRadii) {
@@ -149,27 +322,51 @@ async function fetchNearestFeature(lat: number, lon: number): Promise<CityPageFe
     url.searchParams.set('limit', '80');
     url.searchParams.set('bbox', `${lon - radius},${lat - radius},${lon + radius},${lat + radius}`);
 
-    const collection = await fetchCitypage(url.toString());
+    const collection = await fetchCitypage(url.toString(), context);
     const nearest = pickNearest(collection.features ?? [], lat, lon);
     if (nearest) {
-      return nearest;
+      return nearest.feature;
     }
   }
 
   const fallbackUrl = new URL(CITYPAGE_ITEMS_URL);
   fallbackUrl.searchParams.set('f', 'json');
   fallbackUrl.searchParams.set('limit', '300');
-  const fallbackCollection = await fetchCitypage(fallbackUrl.toString());
+  const fallbackCollection = await fetchCitypage(fallbackUrl.toString(), context);
   const nearestFallback = pickNearest(fallbackCollection.features ?? [], lat, lon);
   if (!nearestFallback) {
     throw new Error('No Environment Canada citypage weather features were found.');
   }
 
-  return nearestFallback;
+  return nearestFallback.feature;
 }
 
-async function fetchCitypage(url: string): Promise<CityPageFeatureCollection> {
-  const response = await fetch(url, {
+/** Single bounded search that fails instead of widening when no site is close enough. */
+async function fetchFeatureWithin(
+  lat: number,
+  lon: number,
+  maxDistanceKm: number,
+  context: RequestContext,
+): Promise<CityPageFeature> {
+  const latRadius = maxDistanceKm / 111;
+  const lonRadius = latRadius / Math.max(Math.cos((lat * Math.PI) / 180), 0.1);
+
+  const url = new URL(CITYPAGE_ITEMS_URL);
+  url.searchParams.set('f', 'json');
+  url.searchParams.set('limit', '80');
+  url.searchParams.set('bbox', `${lon - lonRadius},${lat - latRadius},${lon + lonRadius},${lat + latRadius}`);
+
+  const collection = await fetchCitypage(url.toString(), context);
+  const nearest = pickNearest(collection.features ?? [], lat, lon);
+  if (!nearest || nearest.distanceKm > maxDistanceKm) {
+    throw new Error(`No Environment Canada forecast location within ${maxDistanceKm} km.`);
+  }
+
+  return nearest.feature;
+}
+
+async function fetchCitypage(url: string, context: RequestContext): Promise<CityPageFeatureCollection> {
+  const response = await trackedFetch(context, url, {
     headers: {
       'user-agent': 'LiivSky2-Worker/0.1 (+https://liivsky2.pages.dev)',
     },
@@ -179,10 +376,14 @@ async function fetchCitypage(url: string): Promise<CityPageFeatureCollection> {
     throw new Error(`Environment Canada request failed with status ${response.status}`);
   }
 
-  return (await response.json()) as CityPageFeatureCollection;
+  return parseWith(citypageCollectionSchema, await response.json(), 'Environment Canada citypage');
 }
 
-function pickNearest(features: CityPageFeature[], lat: number, lon: number): CityPageFeature | null {
+function pickNearest(
+  features: CityPageFeature[],
+  lat: number,
+  lon: number,
+): { feature: CityPageFeature; distanceKm: number } | null {
   let best: { feature: CityPageFeature; distanceKm: number } | null = null;
 
   for (const feature of features) {
@@ -198,48 +399,131 @@ function pickNearest(features: CityPageFeature[], lat: number, lon: number): Cit
     }
   }
 
-  return best?.feature ?? null;
+  return best;
+}
+
+function buildSource(
+  properties: NonNullable<CityPageFeature['properties']>,
+  request: HomeWeatherRequest,
+  siteLat: number,
+  siteLon: number,
+): SourceMetadata {
+  const station = properties.currentConditions?.station;
+  const stationLat = parseHemisphereCoordinate(readLocalized(station?.lat, ''));
+  const stationLon = parseHemisphereCoordinate(readLocalized(station?.lon, ''));
+  const distanceKm =
+    stationLat !== null && stationLon !== null
+      ? haversineKm(request.lat, request.lon, stationLat, stationLon)
+      : haversineKm(request.lat, request.lon, siteLat, siteLon);
+
+  return {
+    siteId: properties.identifier,
+    stationId: readLocalized(station?.code, '').toUpperCase() || undefined,
+    stationName: readLocalized(station?.value, '', request.lang) || undefined,
+    distance: convertDistance(distanceKm, request.units.distance),
+    observedAt: readLocalized(properties.currentConditions?.timestamp, '') || undefined,
+    forecastIssuedAt: readLocalized(properties.forecastGroup?.timestamp, '') || undefined,
+    attribution: 'Environment and Climate Change Canada',
+  };
+}
+
+/** Parse EC station coordinates such as `42.28N` or `82.96W`. */
+function parseHemisphereCoordinate(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([NSEWO])$/i);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+
+  const magnitude = Number(match[1]);
+  // French payloads use `O` (ouest) for west.
+  return /[SWO]/i.test(match[2]) ? -magnitude : magnitude;
 }
 
-function normalizeHourly(hourlyForecasts: HourlyForecastEntry[], unit: TemperatureUnit): HourlyItem[] {
+/** Hourly citypage forecasts carry no humidity or precipitation amount. */
+function normalizeHourly(hourlyForecasts: HourlyForecastEntry[], units: UnitPreferences): HourlyItem[] {
   return (hourlyForecasts ?? []).slice(0, 24).map((hourly) => {
-    const tempC = readNumeric(hourly.temperature?.value, 0);
+    const tempC = readNumeric(hourly.temperature?.value);
+    const feelsLikeC = toFeelsLikeC(hourly, tempC);
+    const lop = readNumeric(hourly.lop?.value);
 
     return {
       time: hourly.timestamp ?? new Date().toISOString(),
-      temp: convertTemp(tempC, unit),
+      temp: convertReported(tempC, units.temperature, convertTemp),
+      feelsLike: convertReported(feelsLikeC, units.temperature, convertTemp),
       icon: toIcon(hourly.iconCode?.value),
-      precipChance: clampPercent(readNumeric(hourly.lop?.value, 0)),
+      precipChance: lop === null ? null : clampPercent(lop),
+      precipAmount: null,
+      humidity: null,
+      windSpeed: convertReported(readNumeric(hourly.wind?.speed?.value), units.wind, convertWind),
+      windGust: convertReported(readNumeric(hourly.wind?.gust?.value), units.wind, convertWind),
+      windDirection: readLocalized(hourly.wind?.direction?.value, '') || undefined,
     };
   });
 }
 
-function normalizeDaily(forecasts: DailyForecastEntry[], unit: TemperatureUnit): DailyItem[] {
-  const grouped = new Map<
-    string,
-    {
-      day: string;
-      highC?: number;
-      lowC?: number;
-      icon?: string;
-      daySummary?: string;
-      nightSummary?: string;
-    }
-  >();
+/** Day and night periods of one calendar day, merged while walking the forecast list. */
+interface EcDayGroup {
+  date: string;
+  highC?: number;
+  lowC?: number;
+  icon?: string;
+  daySummary?: string;
+  nightSummary?: string;
+  details: PeriodDetails;
+}
+
+/** Per-period precipitation, wind and UV in EC's native units (mm rain, cm snow, km/h). */
+interface PeriodDetails {
+  precipChance: number | null;
+  rainMm: number | null;
+  snowCm: number | null;
+  windKph: number | null;
+  gustKph: number | null;
+  windDirection?: string;
+  uvIndex: number | null;
+}
+
+/**
+ * Group the day/night periods into calendar days. Periods arrive in order
+ * starting with "Today" or "Tonight", so the n-th distinct day is n days after
+ * the issue date, taken in the site's civil time zone (solar time at `lon`
+ * when the zone is unknown).
+ */
+function normalizeDaily(
+  forecasts: DailyForecastEntry[],
+  issuedAt: string | undefined,
+  timeZone: string | null,
+  lon: number,
+  units: UnitPreferences,
+  lang: Language,
+): DailyItem[] {
+  const firstDate = localDateAt(issuedAt, timeZone, lon);
+  const grouped = new Map<string, EcDayGroup>();
+  const seenPeriods = new Set<string>();
 
   for (const forecast of forecasts ?? []) {
+    // Day/night grouping keys off the English period names whatever the display language.
     const periodName = readLocalized(forecast.period?.textForecastName, 'Day').trim() || 'Day';
+    // Some citypages repeat the period list; count each period once so amounts are not doubled.
+    if (seenPeriods.has(periodName)) {
+      continue;
+    }
+    seenPeriods.add(periodName);
     const isNight = isNightPeriod(periodName);
     const dayKey = dayKeyFromPeriod(periodName);
-    const textSummary = readLocalized(forecast.textSummary, '').trim();
-    const abbreviatedSummary = readLocalized(forecast.abbreviatedForecast?.textSummary, '').trim();
+    const textSummary = readLocalized(forecast.textSummary, '', lang).trim();
+    const abbreviatedSummary = readLocalized(forecast.abbreviatedForecast?.textSummary, '', lang).trim();
     const icon = toIcon(forecast.abbreviatedForecast?.icon?.value);
     const { highC, lowC } = extractPeriodTemps(forecast);
 
     const existing = grouped.get(dayKey);
     const dayItem = existing ?? {
-      day: dayLabelFromKey(dayKey),
+      date: addDays(firstDate, grouped.size),
+      details: extractPeriodDetails(forecast),
     };
+    if (existing) {
+      dayItem.details = mergePeriodDetails(dayItem.details, extractPeriodDetails(forecast));
+    }
 
     if (!isNight) {
       dayItem.icon = dayItem.icon ?? icon;
@@ -268,40 +552,83 @@ function normalizeDaily(forecasts: DailyForecastEntry[], unit: TemperatureUnit):
 
   return Array.from(grouped.values())
     .map((item) => {
-      let highC = item.highC;
-      let lowC = item.lowC;
-
-      if (!Number.isFinite(highC) && Number.isFinite(lowC)) {
-        highC = lowC;
-      }
-
-      if (!Number.isFinite(lowC) && Number.isFinite(highC)) {
-        lowC = highC;
-      }
-
-      if (!Number.isFinite(highC)) {
-        highC = 0;
-      }
-
-      if (!Number.isFinite(lowC)) {
-        lowC = 0;
-      }
-
-      const resolvedHighC: number = typeof highC === 'number' && Number.isFinite(highC) ? highC : 0;
-      const resolvedLowC: number = typeof lowC === 'number' && Number.isFinite(lowC) ? lowC : 0;
+      // "Tonight" alone has no high; leave it null rather than copying the low.
+      const highC = item.highC !== undefined && Number.isFinite(item.highC) ? item.highC : null;
+      const lowC = item.lowC !== undefined && Number.isFinite(item.lowC) ? item.lowC : null;
+      const { details } = item;
 
       return {
-        day: item.day,
-        high: convertTemp(resolvedHighC, unit),
-        low: convertTemp(resolvedLowC, unit),
+        date: item.date,
+        high: convertReported(highC, units.temperature, convertTemp),
+        low: convertReported(lowC, units.temperature, convertTemp),
         icon: item.icon ?? 'na',
         daySummary: item.daySummary,
         nightSummary: item.nightSummary,
+        precipChance: details.precipChance === null ? null : clampPercent(details.precipChance),
+        rainAmount: convertReported(details.rainMm, units.precipitation, convertPrecip),
+        snowAmount: convertReported(details.snowCm === null ? null : details.snowCm * 10, units.precipitation, convertPrecip),
+        windSpeed: convertReported(details.windKph, units.wind, convertWind),
+        windGust: convertReported(details.gustKph, units.wind, convertWind),
+        windDirection: details.windDirection,
+        uvIndex: details.uvIndex === null ? null : Math.round(details.uvIndex),
       };
     })
     .slice(0, 8);
 }
 
+function extractPeriodDetails(forecast: DailyForecastEntry): PeriodDetails {
+  const accumulation = forecast.precipitation?.accumulation;
+  const amount = readNumeric(accumulation?.amount?.value);
+  const amountUnit = readLocalized(accumulation?.amount?.units, '').toLowerCase();
+  const isSnow = readLocalized(accumulation?.name, '').toLowerCase().includes('snow');
+  // Normalise to millimetres of rain and centimetres of snow whatever unit the period used.
+  const amountMm = amount === null ? null : amountUnit === 'cm' ? amount * 10 : amount;
+
+  // The strongest wind period sets the day's wind and direction; zero gusts mean none forecast.
+  let windKph: number | null = null;
+  let gustKph: number | null = null;
+  let windDirection: string | undefined;
+  for (const period of forecast.winds?.periods ?? []) {
+    const speed = readNumeric(period.speed?.value);
+    const gust = readNumeric(period.gust?.value);
+    if (speed !== null && (windKph === null || speed > windKph)) {
+      windKph = speed;
+      windDirection = readLocalized(period.direction, '').trim() || undefined;
+    }
+    if (gust !== null && gust > 0 && (gustKph === null || gust > gustKph)) {
+      gustKph = gust;
+    }
+  }
+
+  const uvRaw = readLocalized<string | number | null>(forecast.uv?.index, null);
+  const uvIndex = uvRaw === null || uvRaw === '' ? null : Number(uvRaw);
+
+  return {
+    precipChance: readNumeric(forecast.abbreviatedForecast?.pop?.value),
+    rainMm: isSnow ? null : amountMm,
+    snowCm: isSnow && amountMm !== null ? amountMm / 10 : null,
+    windKph,
+    gustKph,
+    windDirection,
+    uvIndex: uvIndex !== null && Number.isFinite(uvIndex) ? uvIndex : null,
+  };
+}
+
+/** Combine a day's periods: chances, wind and UV take the max, amounts add up. */
+function mergePeriodDetails(first: PeriodDetails, second: PeriodDetails): PeriodDetails {
+  const strongerWind = (second.windKph ?? -1) > (first.windKph ?? -1) ? second : first;
+
+  return {
+    precipChance: maxReported(first.precipChance, second.precipChance),
+    rainMm: sumReported(first.rainMm, second.rainMm),
+    snowCm: sumReported(first.snowCm, second.snowCm),
+    windKph: strongerWind.windKph,
+    gustKph: maxReported(first.gustKph, second.gustKph),
+    windDirection: strongerWind.windDirection ?? first.windDirection ?? second.windDirection,
+    uvIndex: maxReported(first.uvIndex, second.uvIndex),
+  };
+}
+
 function extractPeriodTemps(forecast: DailyForecastEntry): { highC: number; lowC: number } {
   const temps = forecast.temperatures?.temperature ?? [];
   let highC = Number.NaN;
@@ -309,7 +636,7 @@ function extractPeriodTemps(forecast: DailyForecastEntry): { highC: number; lowC
 
   for (const tempEntry of temps) {
     const className = readLocalized(tempEntry.class, '').toLowerCase();
-    const value = readNumeric(tempEntry.value, Number.NaN);
+    const value = readNumeric(tempEntry.value) ?? Number.NaN;
 
     if (className === 'high') {
       highC = value;
@@ -342,25 +669,67 @@ function dayKeyFromPeriod(periodName: string): string {
   return value;
 }
 
-function dayLabelFromKey(dayKey: string): string {
-  if (dayKey === 'today') {
-    return 'Today';
+/**
+ * Calendar date (`YYYY-MM-DD`) of `iso` in `timeZone`, or in solar local time
+ * at `lon` without one; today when unparseable.
+ */
+function localDateAt(iso: string | undefined, timeZone: string | null, lon: number): string {
+  const time = iso ? new Date(iso).getTime() : Number.NaN;
+  const reference = Number.isFinite(time) ? time : Date.now();
+  if (timeZone) {
+    // en-CA formats dates as YYYY-MM-DD.
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(
+      reference,
+    );
   }
 
-  return dayKey
-    .split(' ')
-    .filter(Boolean)
-    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
-    .join(' ');
+  return new Date(reference + (lon / 15) * 3600_000).toISOString().slice(0, 10);
 }
 
-function normalizeAlerts(warnings: WarningEntry[]): AlertItem[] {
+/** IANA zone for a citypage site, or `null` when the identifier has no known province prefix. */
+function siteTimeZone(identifier: string | undefined, lat: number, lon: number): string | null {
+  const province = identifier?.split('-')[0]?.toLowerCase() ?? '';
+  switch (province) {
+    case 'bc':
+      // The Peace River country keeps Mountain Standard time all year; the East Kootenay follows Alberta.
+      if (lat > 55 && lon > -123) return 'America/Dawson_Creek';
+      return lat < 52 && lon > -117.5 ? 'America/Edmonton' : 'America/Vancouver';
+    case 'on':
+      return lon < -90 ? 'America/Winnipeg' : 'America/Toronto';
+    case 'qc':
+      // The Magdalen Islands and the Lower North Shore east of Natashquan keep Atlantic time.
+      if (lon > -62.5 && lat < 48) return 'America/Halifax';
+      return lon > -61.5 ? 'America/Blanc-Sablon' : 'America/Toronto';
+    case 'nl':
+      // Labrador west of Cartwright keeps Atlantic time.
+      return lat > 52 && lon < -57.5 ? 'America/Goose_Bay' : 'America/St_Johns';
+    case 'nu':
+      return lon < -102 ? 'America/Cambridge_Bay' : lon < -85 ? 'America/Rankin_Inlet' : 'America/Iqaluit';
+    default:
+      return PROVINCE_TIME_ZONES[province] ?? null;
+  }
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400_000).toISOString().slice(0, 10);
+}
+
+/** Citypage warnings carry no times or zones; used only when the alerts collection is unavailable. */
+function normalizeAlerts(warnings: WarningEntry[], siteId: string | undefined, lang: Language): AlertItem[] {
   return (warnings ?? [])
-    .map((warning) => ({
-      title: readLocalized(warning.title, '').trim(),
-      severity: readLocalized(warning.severity, '').trim() || undefined,
-      description: readLocalized(warning.description, '').trim() || undefined,
-    }))
+    .map((warning, index) => {
+      const title = readLocalized(warning.title, '', lang).trim();
+      const type = toAlertType(readLocalized(warning.title, ''));
+
+      return {
+        id: `${siteId ?? 'ec'}-${index}`,
+        title,
+        type,
+        severity: toAlertSeverity(readLocalized(warning.severity, ''), type),
+        description: readLocalized(warning.description, '', lang).trim() || undefined,
+        areas: [],
+      };
+    })
     .filter((warning) => warning.title.length > 0);
 }
 
@@ -372,47 +741,40 @@ function toIcon(iconCode: number | string | undefined): string {
   return 'na';
 }
 
-function convertTemp(valueC: number, unit: TemperatureUnit): number {
-  if (unit === 'F') {
-    return Math.round((valueC * 9) / 5 + 32);
-  }
-
-  return Math.round(valueC);
-}
-
-function readLocalized<T>(value: LocalizedValue<T> | undefined, fallback: T): T {
+/** Pick the requested language, falling back to the other one; plain values pass through. */
+function readLocalized<T>(value: LocalizedValue<T> | undefined, fallback: T, lang: Language = 'en'): T {
   if (value === undefined || value === null) {
     return fallback;
   }
 
   if (typeof value === 'object' && value !== null) {
-    if ('en' in value && value.en !== undefined) {
-      return value.en;
+    const localized = value as { en?: T; fr?: T };
+
+    if (localized[lang] !== undefined) {
+      return localized[lang];
     }
 
-    if ('fr' in value && value.fr !== undefined) {
-      return value.fr;
+    const other = localized[lang === 'en' ? 'fr' : 'en'];
+    if (other !== undefined) {
+      return other;
     }
   }
 
   return value as T;
 }
 
-function readNumeric(value: LocalizedValue<number> | undefined, fallback: number): number {
-  const localized = readLocalized(value, fallback);
-  return Number.isFinite(localized) ? localized : fallback;
+/** The localized number, or `null` when EC left it out. */
+function readNumeric(value: LocalizedValue<number> | undefined): number | null {
+  const localized = readLocalized<number | null>(value, null);
+  return typeof localized === 'number' && Number.isFinite(localized) ? localized : null;
 }
 
-function clampPercent(value: number): number {
-  if (value < 0) {
-    return 0;
-  }
-
-  if (value > 100) {
-    return 100;
-  }
-
-  return Math.round(value);
+/** EC reports wind chill in the cold and humidex in the heat, never both; without either it feels like the air. */
+function toFeelsLikeC(
+  reading: { windChill?: { value?: LocalizedValue<number> }; humidex?: { value?: LocalizedValue<number> } } | undefined,
+  tempC: number | null,
+): number | null {
+  return readNumeric(reading?.windChill?.value) ?? readNumeric(reading?.humidex?.value) ?? tempC;
 }
 
 function toPressureTrend(value: string): 'rising' | 'falling' | 'steady' {
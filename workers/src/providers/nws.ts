@@ -0,0 +1,313 @@
+import type { AlertItem, DailyItem, HomeWeatherResponse, HourlyItem, UnitPreferences } from '../types';
+import { sortAlerts, toAlertSeverity, toAlertType } from '../services/alerts';
+import { isInCanada } from '../utils/countries';
+import { clampPercent, convertReported, convertTemp, convertWind, toFinite } from '../utils/units';
+import { trackedFetch } from '../utils/requestContext';
+import type { RequestContext } from '../utils/requestContext';
+import { array, number, object, parseWith, string } from '../utils/schema';
+import type { Schema } from '../utils/schema';
+import type { HomeWeatherRequest, WeatherProviderAdapter } from './types';
+
+const NWS_API_BASE = 'https://api.weather.gov';
+
+/** NWS rejects requests without an identifying User-Agent. */
+const NWS_HEADERS = {
+  'user-agent': 'LiivSky2-Worker/0.1 (+https://liivsky2.pages.dev)',
+  accept: 'application/geo+json',
+};
+
+interface NwsPointResponse {
+  properties?: {
+    gridId?: string;
+    gridX?: number;
+    gridY?: number;
+    forecast?: string;
+    forecastHourly?: string;
+    relativeLocation?: {
+      properties?: {
+        city?: string;
+        state?: string;
+      };
+    };
+  };
+}
+
+interface NwsQuantity {
+  unitCode?: string;
+  value?: number | null;
+}
+
+interface NwsPeriod {
+  name?: string;
+  startTime?: string;
+  isDaytime?: boolean;
+  temperature?: number;
+  temperatureUnit?: 'F' | 'C';
+  probabilityOfPrecipitation?: NwsQuantity;
+  dewpoint?: NwsQuantity;
+  relativeHumidity?: NwsQuantity;
+  /** Free text such as `10 mph` or `5 to 15 mph`. */
+  windSpeed?: string;
+  windDirection?: string;
+  shortForecast?: string;
+  detailedForecast?: string;
+}
+
+interface NwsForecastResponse {
+  properties?: {
+    updateTime?: string;
+    generatedAt?: string;
+    periods?: NwsPeriod[];
+  };
+}
+
+interface NwsAlertsResponse {
+  features?: Array<{
+    properties?: {
+      id?: string;
+      event?: string;
+      headline?: string;
+      severity?: string;
+      description?: string;
+      effective?: string;
+      expires?: string;
+      ends?: string | null;
+      /** Semicolon-separated zone names. */
+      areaDesc?: string;
+    };
+  }>;
+}
+
+const pointSchema: Schema<NwsPointResponse> = object({
+  properties: object({ forecast: string(), forecastHourly: string() }),
+});
+
+const forecastSchema: Schema<NwsForecastResponse> = object({
+  properties: object({ periods: array(object({ startTime: string(), temperature: number() })) }),
+});
+
+const alertsSchema: Schema<NwsAlertsResponse> = object({ features: array(object({})) });
+
+export const nwsProvider: WeatherProviderAdapter = {
+  id: 'nws',
+  displayName: 'National Weather Service',
+  shortName: 'NWS',
+  coverage: { west: -179.9, south: 18.9, east: -66.9, north: 71.4 },
+  // The US grid reaches across the border (Windsor, Victoria); Canada belongs to EC.
+  contains: (lat, lon) => !isInCanada(lat, lon),
+  cacheTtlSeconds: 300,
+  capabilities: ['current', 'hourly', 'daily', 'alerts', 'windDirection', 'dewPoint'],
+
+  async getHomeWeather(request: HomeWeatherRequest): Promise<HomeWeatherResponse> {
+    // NWS redirects requests with more than four decimal places.
+    const point = `${request.lat.toFixed(4)},${request.lon.toFixed(4)}`;
+    const pointResponse = await fetchNwsJson(`${NWS_API_BASE}/points/${point}`, pointSchema, 'point', request.context);
+    const forecastUrl = pointResponse.properties?.forecast;
+    const hourlyUrl = pointResponse.properties?.forecastHourly;
+
+    if (!forecastUrl || !hourlyUrl) {
+      throw new Error('National Weather Service point response did not include forecast links.');
+    }
+
+    // Alerts are optional; an alerts outage must not take the forecast down with it.
+    const [forecastResponse, hourlyResponse, alerts] = await Promise.all([
+      fetchNwsJson(forecastUrl, forecastSchema, 'forecast', request.context),
+      fetchNwsJson(hourlyUrl, forecastSchema, 'hourly forecast', request.context),
+      fetchNwsJson(`${NWS_API_BASE}/alerts/active?point=${point}`, alertsSchema, 'alerts', request.context)
+        .then(normalizeAlerts)
+        .catch((): AlertItem[] => []),
+    ]);
+
+    const hourlyPeriods = hourlyResponse.properties?.periods ?? [];
+    const now = hourlyPeriods[0];
+    if (!now) {
+      throw new Error('National Weather Service hourly forecast was empty.');
+    }
+
+    // NWS has no current-conditions field on the gridpoint; the first hourly period stands in.
+    const currentTempC = periodTempC(now);
+    const humidity = toFinite(now.relativeHumidity?.value);
+    const { units } = request;
+    const relative = pointResponse.properties?.relativeLocation?.properties;
+    const locationName = [relative?.city, relative?.state].filter(Boolean).join(', ');
+    const dewPointC = now.dewpoint?.value;
+    const { gridId, gridX, gridY } = pointResponse.properties ?? {};
+    const forecastIssuedAt = forecastResponse.properties?.updateTime ?? forecastResponse.properties?.generatedAt;
+
+    return {
+      provider: 'nws',
+      location: {
+        name: locationName || `${request.lat.toFixed(3)}, ${request.lon.toFixed(3)}`,
+        lat: request.lat,
+        lon: request.lon,
+      },
+      // Gridpoint forecasts carry no feels-like, pressure, visibility or UV index.
+      current: {
+        temperature: convertReported(currentTempC, units.temperature, convertTemp),
+        feelsLike: null,
+        condition: now.shortForecast?.trim() || 'Unknown',
+        icon: toIcon(now.shortForecast),
+        humidity: humidity === null ? null : clampPercent(humidity),
+        windSpeed: convertReported(parseWindKph(now.windSpeed), units.wind, convertWind),
+        windDirection: now.windDirection || undefined,
+        dewPoint: typeof dewPointC === 'number' ? convertTemp(dewPointC, units.temperature) : undefined,
+        pressure: null,
+        pressureTrend: 'steady',
+        pressureTendency: null,
+        pressureHistory: [],
+        visibility: null,
+        uvIndex: null,
+      },
+      hourly: normalizeHourly(hourlyPeriods, request.units),
+      daily: normalizeDaily(forecastResponse.properties?.periods ?? [], request.units),
+      alerts,
+      updatedAt: forecastIssuedAt ?? new Date().toISOString(),
+      units: request.units,
+      source: {
+        siteId: gridId ? `${gridId}/${gridX},${gridY}` : undefined,
+        // Gridpoint forecasts are for the requested point; there is no observing station.
+        distance: 0,
+        forecastIssuedAt,
+        attribution: 'NOAA National Weather Service',
+      },
+    };
+  },
+};
+
+async function fetchNwsJson<T>(url: string, schema: Schema<T>, product: string, context: RequestContext): Promise<T> {
+  const response = await trackedFetch(context, url, { headers: NWS_HEADERS });
+
+  if (response.status === 404) {
+    throw new Error('National Weather Service does not cover this location.');
+  }
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`National Weather Service request failed (${response.status}): ${body.slice(0, 200)}`);
+  }
+
+  return parseWith(schema, await response.json(), `National Weather Service ${product}`);
+}
+
+/** Hourly periods carry no feels-like, gust or precipitation amount. */
+function normalizeHourly(periods: NwsPeriod[], units: UnitPreferences): HourlyItem[] {
+  return periods.slice(0, 24).map((period) => {
+    const start = period.startTime ? new Date(period.startTime) : null;
+    const pop = toFinite(period.probabilityOfPrecipitation?.value);
+    const humidity = toFinite(period.relativeHumidity?.value);
+
+    return {
+      time: start && !Number.isNaN(start.getTime()) ? start.toISOString() : new Date().toISOString(),
+      temp: convertReported(periodTempC(period), units.temperature, convertTemp),
+      feelsLike: null,
+      icon: toIcon(period.shortForecast),
+      precipChance: pop === null ? null : clampPercent(pop),
+      precipAmount: null,
+      humidity: humidity === null ? null : clampPercent(humidity),
+      windSpeed: convertReported(parseWindKph(period.windSpeed), units.wind, convertWind),
+      windGust: null,
+      windDirection: period.windDirection || undefined,
+    };
+  });
+}
+
+/**
+ * Pair daytime and overnight periods into calendar days keyed by their local start date.
+ * Gridpoint periods carry no precipitation amounts, gusts or UV index.
+ */
+function normalizeDaily(periods: NwsPeriod[], units: UnitPreferences): DailyItem[] {
+  const grouped = new Map<string, { day?: NwsPeriod; night?: NwsPeriod }>();
+
+  for (const period of periods) {
+    // startTime carries the local offset, so its date prefix is the local calendar day.
+    const date = period.startTime?.slice(0, 10);
+    if (!date) {
+      continue;
+    }
+
+    const entry = grouped.get(date) ?? {};
+    if (period.isDaytime) {
+      entry.day = entry.day ?? period;
+    } else {
+      entry.night = entry.night ?? period;
+    }
+    grouped.set(date, entry);
+  }
+
+  return Array.from(grouped.entries())
+    .slice(0, 8)
+    .map(([date, { day, night }]) => {
+      // The first day may start overnight (no high) and the last may end in daytime (no low).
+      const highC = day ? periodTempC(day) : null;
+      const lowC = night ? periodTempC(night) : null;
+      const pops = [day, night]
+        .map((period) => toFinite(period?.probabilityOfPrecipitation?.value))
+        .filter((value): value is number => value !== null);
+      // The windier period supplies both speed and direction.
+      const windier = (parseWindKph(night?.windSpeed) ?? -1) > (parseWindKph(day?.windSpeed) ?? -1) ? night : day;
+
+      return {
+        date,
+        high: convertReported(highC, units.temperature, convertTemp),
+        low: convertReported(lowC, units.temperature, convertTemp),
+        icon: toIcon(day?.shortForecast ?? night?.shortForecast),
+        daySummary: day?.detailedForecast,
+        nightSummary: night?.detailedForecast,
+        precipChance: pops.length > 0 ? clampPercent(Math.max(...pops)) : null,
+        rainAmount: null,
+        snowAmount: null,
+        windSpeed: convertReported(parseWindKph(windier?.windSpeed), units.wind, convertWind),
+        windGust: null,
+        windDirection: windier?.windDirection || undefined,
+        uvIndex: null,
+      };
+    });
+}
+
+function normalizeAlerts(response: NwsAlertsResponse): AlertItem[] {
+  const alerts = (response.features ?? []).map((feature, index) => {
+    const properties = feature.properties ?? {};
+    const type = toAlertType(properties.event);
+
+    return {
+      id: properties.id ?? `nws-${index}`,
+      title: (properties.event ?? properties.headline ?? '').trim(),
+      type,
+      severity: toAlertSeverity(properties.severity, type),
+      description: properties.description?.trim() || undefined,
+      issuedAt: properties.effective,
+      expiresAt: properties.ends ?? properties.expires,
+      areas: (properties.areaDesc ?? '')
+        .split(';')
+        .map((area) => area.trim())
+        .filter(Boolean),
+    };
+  });
+
+  return sortAlerts(alerts.filter((alert) => alert.title.length > 0));
+}
+
+function periodTempC(period: NwsPeriod): number | null {
+  const value = toFinite(period.temperature);
+  if (value === null) {
+    return null;
+  }
+
+  return period.temperatureUnit === 'C' ? value : ((value - 32) * 5) / 9;
+}
+
+/** Take the upper bound of ranges like `5 to 15 mph` and convert to km/h; null without a number. */
+function parseWindKph(windSpeed: string | undefined): number | null {
+  const values = (windSpeed?.match(/\d+(\.\d+)?/g) ?? []).map(Number).filter(Number.isFinite);
+  if (values.length === 0) {
+    return null;
+  }
+
+  const speed = Math.max(...values);
+  return Math.round(/km\/h/i.test(windSpeed ?? '') ? speed : speed * 1.609344);
+}
+
+/** NWS icons are URLs; the short forecast text maps onto the frontend's keyword-based icons. */
+function toIcon(shortForecast: string | undefined): string {
+  return shortForecast?.trim().toLowerCase() || 'na';
+}
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { UnitPreferences } from '../types';
+import { DEFAULT_UNITS } from '../utils/units';
+import ottawa from './fixtures/openmeteo-ottawa.json';
+import { normalizeOpenMeteo, openMeteoProvider } from './openmeteo';
+import type { OpenMeteoResponse } from './openmeteo';
+
+/** Open-Meteo `timeformat=unixtime` payload for Ottawa at 2024-06-20 16:00 UTC, with three days of hourly data. */
+const payload = ottawa as OpenMeteoResponse;
+const request = { lat: 45.4215, lon: -75.6972, units: DEFAULT_UNITS, lang: 'en' as const };
+
+describe('normalizeOpenMeteo', () => {
+  it('maps current conditions', () => {
+    const { current } = normalizeOpenMeteo(payload, request, 'Ottawa');
+
+    expect(current).toMatchObject({
+      temperature: 27,
+      feelsLike: 30,
+      condition: 'Mainly clear',
+      humidity: 52,
+      windSpeed: 11,
+      windDirection: 'SW',
+      windGust: 24,
+      dewPoint: 17,
+      pressure: 101.4,
+      visibility: 24.1,
+      uvIndex: 8,
+      sunrise: '2024-06-20T09:23:00.000Z',
+      sunset: '2024-06-21T00:49:00.000Z',
+    });
+  });
+
+  it('builds the pressure history from the past day of hourly values', () => {
+    const { current } = normalizeOpenMeteo(payload, request, 'Ottawa');
+
+    expect(current.pressureHistory).toHaveLength(24);
+    expect(current.pressureHistory.at(-1)).toEqual({ time: '2024-06-20T16:00:00.000Z', pressure: 101.4 });
+    expect(current.pressureTrend).toBe('steady');
+  });
+
+  it('starts the hourly forecast at the current hour and keeps unreported hours null', () => {
+    const { hourly } = normalizeOpenMeteo(payload, request, 'Ottawa');
+
+    expect(hourly).toHaveLength(24);
+    expect(hourly[0]?.time).toBe('2024-06-20T16:00:00.000Z');
+    expect(hourly[6]).toMatchObject({ time: '2024-06-20T22:00:00.000Z', temp: null, feelsLike: null, humidity: null });
+    expect(hourly[1]?.temp).not.toBeNull();
+    expect(hourly[0]).toMatchObject({ precipChance: 0, precipAmount: 0 });
+  });
+
+  it('dates daily items by local date and sums rain with showers', () => {
+    const { daily } = normalizeOpenMeteo(payload, request, 'Ottawa');
+
+    expect(daily.map((day) => day.date)).toEqual([
+      '2024-06-20',
+      '2024-06-21',
+      '2024-06-22',
+      '2024-06-23',
+      '2024-06-24',
+      '2024-06-25',
+      '2024-06-26',
+      '2024-06-27',
+    ]);
+    expect(daily[0]).toMatchObject({ high: 29, low: 15, precipChance: 5, rainAmount: 0, snowAmount: 0, uvIndex: 8 });
+    expect(daily[1]).toMatchObject({ daySummary: 'Light rain', rainAmount: 8.7, windGust: 48, windDirection: 'S' });
+    // Showers unreported: rain alone still counts.
+    expect(daily[7]?.rainAmount).toBe(4.2);
+  });
+
+  it('converts to the requested units', () => {
+    const units: UnitPreferences = { temperature: 'F', wind: 'mph', pressure: 'inhg', distance: 'mi', precipitation: 'in' };
+    const { current, daily } = normalizeOpenMeteo(payload, { ...request, units }, 'Ottawa');
+
+    expect(current).toMatchObject({ temperature: 81, windSpeed: 7, pressure: 29.93, visibility: 15 });
+    expect(daily[1]?.rainAmount).toBe(0.34);
+  });
+
+  it('translates conditions', () => {
+    const { current } = normalizeOpenMeteo(payload, { ...request, lang: 'fr' }, 'Ottawa');
+
+    expect(current.condition).toBe('Généralement dégagé');
+  });
+});
+
+describe('openMeteoProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('replays the recorded payload through the adapter', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) =>
+        String(url).startsWith('https://api.open-meteo.com/')
+          ? Response.json(payload)
+          : new Response('unavailable', { status: 503 }),
+      ),
+    );
+    const context = { requestId: 'test', upstreamCalls: [], cacheLookups: [] };
+
+    const response = await openMeteoProvider.getHomeWeather({ ...request, context });
+
+    expect(response.provider).toBe('openmeteo');
+    // The reverse-geocoding failure falls back to coordinates.
+    expect(response.location.name).toBe('45.422, -75.697');
+    expect(response.hourly).toHaveLength(24);
+  });
+});
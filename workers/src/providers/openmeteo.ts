@@ -0,0 +1,389 @@
+import type { DailyItem, HomeWeatherResponse, HourlyItem, Language, UnitPreferences } from '../types';
+import { resolveLocationName } from '../services/geocode';
+import { haversineKm, toCompass } from '../utils/geo';
+import { summarizePressure } from '../utils/pressure';
+import type { PressureObservation } from '../utils/pressure';
+import {
+  clampPercent,
+  convertDistance,
+  convertPrecip,
+  convertPressure,
+  convertReported,
+  convertTemp,
+  convertWind,
+  toFinite,
+} from '../utils/units';
+import { trackedFetch } from '../utils/requestContext';
+import type { RequestContext } from '../utils/requestContext';
+import { array, nullable, number, object, parseWith } from '../utils/schema';
+import type { Schema } from '../utils/schema';
+import type { HomeWeatherRequest, WeatherProviderAdapter } from './types';
+
+const OPEN_METEO_FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+
+const CURRENT_FIELDS = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'apparent_temperature',
+  'dew_point_2m',
+  'weather_code',
+  'pressure_msl',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'wind_gusts_10m',
+  'visibility',
+  'uv_index',
+];
+
+const HOURLY_FIELDS = [
+  'temperature_2m',
+  'apparent_temperature',
+  'relative_humidity_2m',
+  'weather_code',
+  'precipitation_probability',
+  'precipitation',
+  'pressure_msl',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'wind_gusts_10m',
+];
+
+const DAILY_FIELDS = [
+  'weather_code',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'sunrise',
+  'sunset',
+  'precipitation_probability_max',
+  'rain_sum',
+  'showers_sum',
+  'snowfall_sum',
+  'wind_speed_10m_max',
+  'wind_gusts_10m_max',
+  'wind_direction_10m_dominant',
+  'uv_index_max',
+];
+
+export interface OpenMeteoResponse {
+  /** Centre of the model grid cell that answered. */
+  latitude?: number;
+  longitude?: number;
+  utc_offset_seconds?: number;
+  current?: {
+    time?: number;
+    temperature_2m?: number;
+    relative_humidity_2m?: number;
+    apparent_temperature?: number;
+    dew_point_2m?: number;
+    weather_code?: number;
+    pressure_msl?: number;
+    wind_speed_10m?: number;
+    wind_direction_10m?: number;
+    wind_gusts_10m?: number;
+    /** Metres */
+    visibility?: number;
+    uv_index?: number;
+  };
+  hourly?: {
+    time?: number[];
+    temperature_2m?: Array<number | null>;
+    apparent_temperature?: Array<number | null>;
+    relative_humidity_2m?: Array<number | null>;
+    weather_code?: Array<number | null>;
+    precipitation_probability?: Array<number | null>;
+    /** Millimetres over the preceding hour */
+    precipitation?: Array<number | null>;
+    pressure_msl?: Array<number | null>;
+    wind_speed_10m?: Array<number | null>;
+    wind_direction_10m?: Array<number | null>;
+    wind_gusts_10m?: Array<number | null>;
+  };
+  daily?: {
+    time?: number[];
+    weather_code?: Array<number | null>;
+    temperature_2m_max?: Array<number | null>;
+    temperature_2m_min?: Array<number | null>;
+    sunrise?: Array<number | null>;
+    sunset?: Array<number | null>;
+    precipitation_probability_max?: Array<number | null>;
+    /** Millimetres of large-scale rain */
+    rain_sum?: Array<number | null>;
+    /** Millimetres of convective rain */
+    showers_sum?: Array<number | null>;
+    /** Centimetres */
+    snowfall_sum?: Array<number | null>;
+    wind_speed_10m_max?: Array<number | null>;
+    wind_gusts_10m_max?: Array<number | null>;
+    wind_direction_10m_dominant?: Array<number | null>;
+    uv_index_max?: Array<number | null>;
+  };
+}
+
+/** Individual hourly and daily values may be null; the series themselves must be present. */
+const openMeteoSchema: Schema<OpenMeteoResponse> = object({
+  current: object({ time: number(), temperature_2m: number() }),
+  hourly: object({ time: array(number()), temperature_2m: array(nullable(number())) }),
+  daily: object({
+    time: array(number()),
+    temperature_2m_max: array(nullable(number())),
+    temperature_2m_min: array(nullable(number())),
+  }),
+});
+
+/** WMO weather interpretation codes → condition text and icon key. */
+const WMO_CODES: Record<number, { text: Record<Language, string>; icon: string }> = {
+  0: { text: { en: 'Clear', fr: 'Dégagé' }, icon: 'clear' },
+  1: { text: { en: 'Mainly clear', fr: 'Généralement dégagé' }, icon: 'clear' },
+  2: { text: { en: 'Partly cloudy', fr: 'Partiellement nuageux' }, icon: 'partly-cloudy' },
+  3: { text: { en: 'Overcast', fr: 'Couvert' }, icon: 'cloudy' },
+  45: { text: { en: 'Fog', fr: 'Brouillard' }, icon: 'fog' },
+  48: { text: { en: 'Depositing rime fog', fr: 'Brouillard givrant' }, icon: 'fog' },
+  51: { text: { en: 'Light drizzle', fr: 'Faible bruine' }, icon: 'drizzle' },
+  53: { text: { en: 'Drizzle', fr: 'Bruine' }, icon: 'drizzle' },
+  55: { text: { en: 'Heavy drizzle', fr: 'Forte bruine' }, icon: 'drizzle' },
+  56: { text: { en: 'Light freezing drizzle', fr: 'Faible bruine verglaçante' }, icon: 'sleet' },
+  57: { text: { en: 'Freezing drizzle', fr: 'Bruine verglaçante' }, icon: 'sleet' },
+  61: { text: { en: 'Light rain', fr: 'Faible pluie' }, icon: 'rain' },
+  63: { text: { en: 'Rain', fr: 'Pluie' }, icon: 'rain' },
+  65: { text: { en: 'Heavy rain', fr: 'Forte pluie' }, icon: 'rain' },
+  66: { text: { en: 'Light freezing rain', fr: 'Faible pluie verglaçante' }, icon: 'sleet' },
+  67: { text: { en: 'Freezing rain', fr: 'Pluie verglaçante' }, icon: 'sleet' },
+  71: { text: { en: 'Light snow', fr: 'Faible neige' }, icon: 'snow' },
+  73: { text: { en: 'Snow', fr: 'Neige' }, icon: 'snow' },
+  75: { text: { en: 'Heavy snow', fr: 'Forte neige' }, icon: 'snow' },
+  77: { text: { en: 'Snow grains', fr: 'Neige en grains' }, icon: 'snow' },
+  80: { text: { en: 'Light rain showers', fr: 'Faibles averses de pluie' }, icon: 'showers' },
+  81: { text: { en: 'Rain showers', fr: 'Averses de pluie' }, icon: 'showers' },
+  82: { text: { en: 'Violent rain showers', fr: 'Violentes averses de pluie' }, icon: 'showers' },
+  85: { text: { en: 'Light snow showers', fr: 'Faibles averses de neige' }, icon: 'snow' },
+  86: { text: { en: 'Snow showers', fr: 'Averses de neige' }, icon: 'snow' },
+  95: { text: { en: 'Thunderstorm', fr: 'Orage' }, icon: 'thunderstorm' },
+  96: { text: { en: 'Thunderstorm with hail', fr: 'Orage avec grêle' }, icon: 'thunderstorm' },
+  99: { text: { en: 'Thunderstorm with heavy hail', fr: 'Orage avec forte grêle' }, icon: 'thunderstorm' },
+};
+
+export const openMeteoProvider: WeatherProviderAdapter = {
+  id: 'openmeteo',
+  displayName: 'Open-Meteo',
+  shortName: 'OM',
+  coverage: { west: -180, south: -90, east: 180, north: 90 },
+  cacheTtlSeconds: 600,
+  capabilities: [
+    'current',
+    'hourly',
+    'daily',
+    'sunriseSunset',
+    'uvIndex',
+    'visibility',
+    'windDirection',
+    'windGust',
+    'dewPoint',
+  ],
+
+  async getHomeWeather(request: HomeWeatherRequest): Promise<HomeWeatherResponse> {
+    const url = new URL(OPEN_METEO_FORECAST_URL);
+    url.searchParams.set('latitude', request.lat.toFixed(4));
+    url.searchParams.set('longitude', request.lon.toFixed(4));
+    url.searchParams.set('current', CURRENT_FIELDS.join(','));
+    url.searchParams.set('hourly', HOURLY_FIELDS.join(','));
+    url.searchParams.set('daily', DAILY_FIELDS.join(','));
+    url.searchParams.set('timezone', 'auto');
+    url.searchParams.set('timeformat', 'unixtime');
+    url.searchParams.set('forecast_days', '8');
+    // Hourly data then starts a day back, which feeds the pressure history.
+    url.searchParams.set('past_hours', '24');
+    url.searchParams.set('wind_speed_unit', 'kmh');
+
+    const [payload, locationName] = await Promise.all([
+      fetchOpenMeteo(url.toString(), request.context),
+      resolveLocationName(request.lat, request.lon, request.lang, request.context),
+    ]);
+
+    return normalizeOpenMeteo(payload, request, locationName);
+  },
+};
+
+/**
+ * Map a raw Open-Meteo forecast payload into the shared response shape.
+ * Pure and exported apart from the adapter so recorded payloads can be replayed in tests.
+ */
+export function normalizeOpenMeteo(
+  payload: OpenMeteoResponse,
+  request: Pick<HomeWeatherRequest, 'lat' | 'lon' | 'units' | 'lang'>,
+  locationName: string,
+): HomeWeatherResponse {
+  const current = payload.current;
+  if (!current) {
+    throw new Error('Open-Meteo response did not include current conditions.');
+  }
+
+  const currentTempC = toFinite(current.temperature_2m);
+  const feelsLikeC = toFinite(current.apparent_temperature) ?? currentTempC;
+  const pressureHpa = toFinite(current.pressure_msl);
+  const pressureKpa = pressureHpa === null ? null : pressureHpa / 10;
+  const humidity = toFinite(current.relative_humidity_2m);
+  const visibilityM = toFinite(current.visibility);
+  const uvIndex = toFinite(current.uv_index);
+  const { units } = request;
+  const weather = describeWeatherCode(current.weather_code, request.lang);
+  const nowSeconds = current.time ?? Math.floor(Date.now() / 1000);
+
+  return {
+    provider: 'openmeteo',
+    location: {
+      name: locationName,
+      lat: request.lat,
+      lon: request.lon,
+    },
+    current: {
+      temperature: convertReported(currentTempC, units.temperature, convertTemp),
+      feelsLike: convertReported(feelsLikeC, units.temperature, convertTemp),
+      condition: weather.text,
+      icon: weather.icon,
+      humidity: humidity === null ? null : clampPercent(humidity),
+      windSpeed: convertReported(toFinite(current.wind_speed_10m), units.wind, convertWind),
+      windDirection:
+        typeof current.wind_direction_10m === 'number' ? toCompass(current.wind_direction_10m) : undefined,
+      windGust:
+        typeof current.wind_gusts_10m === 'number' ? convertWind(current.wind_gusts_10m, request.units.wind) : undefined,
+      dewPoint: typeof current.dew_point_2m === 'number' ? convertTemp(current.dew_point_2m, request.units.temperature) : undefined,
+      pressure: convertReported(pressureKpa, units.pressure, convertPressure),
+      ...(pressureKpa === null
+        ? { pressureTrend: 'steady', pressureTendency: null, pressureHistory: [] }
+        : summarizePressure(pastPressure(payload.hourly, nowSeconds, pressureKpa), units.pressure, 'steady')),
+      visibility: visibilityM === null ? null : convertDistance(visibilityM / 1000, units.distance),
+      uvIndex: uvIndex === null ? null : Math.round(uvIndex),
+      sunrise: toIso(payload.daily?.sunrise?.[0]),
+      sunset: toIso(payload.daily?.sunset?.[0]),
+    },
+    hourly: normalizeHourly(payload.hourly, nowSeconds, request.units),
+    daily: normalizeDaily(payload.daily, payload.utc_offset_seconds ?? 0, request.units, request.lang),
+    alerts: [],
+    updatedAt: new Date(nowSeconds * 1000).toISOString(),
+    units: request.units,
+    source: {
+      distance:
+        typeof payload.latitude === 'number' && typeof payload.longitude === 'number'
+          ? convertDistance(haversineKm(request.lat, request.lon, payload.latitude, payload.longitude), request.units.distance)
+          : 0,
+      // Current values are model output for the hour, not a station observation.
+      observedAt: new Date(nowSeconds * 1000).toISOString(),
+      attribution: 'Weather data by Open-Meteo.com (CC BY 4.0)',
+    },
+  };
+}
+
+async function fetchOpenMeteo(url: string, context: RequestContext): Promise<OpenMeteoResponse> {
+  const response = await trackedFetch(context, url, {
+    headers: {
+      'user-agent': 'LiivSky2-Worker/0.1 (+https://liivsky2.pages.dev)',
+      accept: 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Open-Meteo request failed (${response.status}): ${body.slice(0, 200)}`);
+  }
+
+  return parseWith(openMeteoSchema, await response.json(), 'Open-Meteo');
+}
+
+function normalizeHourly(
+  hourly: OpenMeteoResponse['hourly'],
+  nowSeconds: number,
+  units: UnitPreferences,
+): HourlyItem[] {
+  const times = hourly?.time ?? [];
+  // Hourly series start a day back; skip hours that have already passed.
+  const startIndex = Math.max(0, times.findIndex((time) => time + 3600 > nowSeconds));
+
+  return times.slice(startIndex, startIndex + 24).map((time, offset) => {
+    const index = startIndex + offset;
+    const weather = describeWeatherCode(hourly?.weather_code?.[index]);
+    const precipChance = toFinite(hourly?.precipitation_probability?.[index]);
+    const humidity = toFinite(hourly?.relative_humidity_2m?.[index]);
+    const windDirection = toFinite(hourly?.wind_direction_10m?.[index]);
+
+    return {
+      time: new Date(time * 1000).toISOString(),
+      temp: convertReported(toFinite(hourly?.temperature_2m?.[index]), units.temperature, convertTemp),
+      feelsLike: convertReported(toFinite(hourly?.apparent_temperature?.[index]), units.temperature, convertTemp),
+      icon: weather.icon,
+      precipChance: precipChance === null ? null : clampPercent(precipChance),
+      precipAmount: convertReported(toFinite(hourly?.precipitation?.[index]), units.precipitation, convertPrecip),
+      humidity: humidity === null ? null : clampPercent(humidity),
+      windSpeed: convertReported(toFinite(hourly?.wind_speed_10m?.[index]), units.wind, convertWind),
+      windGust: convertReported(toFinite(hourly?.wind_gusts_10m?.[index]), units.wind, convertWind),
+      windDirection: windDirection === null ? undefined : toCompass(windDirection),
+    };
+  });
+}
+
+function normalizeDaily(
+  daily: OpenMeteoResponse['daily'],
+  utcOffsetSeconds: number,
+  units: UnitPreferences,
+  lang: Language,
+): DailyItem[] {
+  const times = daily?.time ?? [];
+
+  return times.slice(0, 8).map((time, index) => {
+    const weather = describeWeatherCode(daily?.weather_code?.[index], lang);
+    const highC = toFinite(daily?.temperature_2m_max?.[index]);
+    const lowC = toFinite(daily?.temperature_2m_min?.[index]);
+    const precipChance = toFinite(daily?.precipitation_probability_max?.[index]);
+    const rain = toFinite(daily?.rain_sum?.[index]);
+    const showers = toFinite(daily?.showers_sum?.[index]);
+    const snowCm = toFinite(daily?.snowfall_sum?.[index]);
+    const windDirection = toFinite(daily?.wind_direction_10m_dominant?.[index]);
+    const uvIndex = toFinite(daily?.uv_index_max?.[index]);
+
+    return {
+      // Daily timestamps are local midnight; keep the local date.
+      date: new Date((time + utcOffsetSeconds) * 1000).toISOString().slice(0, 10),
+      high: convertReported(highC, units.temperature, convertTemp),
+      low: convertReported(lowC, units.temperature, convertTemp),
+      icon: weather.icon,
+      daySummary: weather.text,
+      precipChance: precipChance === null ? null : clampPercent(precipChance),
+      rainAmount: convertReported(
+        rain === null && showers === null ? null : (rain ?? 0) + (showers ?? 0),
+        units.precipitation,
+        convertPrecip,
+      ),
+      snowAmount: convertReported(snowCm === null ? null : snowCm * 10, units.precipitation, convertPrecip),
+      windSpeed: convertReported(toFinite(daily?.wind_speed_10m_max?.[index]), units.wind, convertWind),
+      windGust: convertReported(toFinite(daily?.wind_gusts_10m_max?.[index]), units.wind, convertWind),
+      windDirection: windDirection === null ? undefined : toCompass(windDirection),
+      uvIndex: uvIndex === null ? null : Math.round(uvIndex),
+    };
+  });
+}
+
+/** Modelled hourly pressure up to now, with the current value as the latest reading. */
+function pastPressure(
+  hourly: OpenMeteoResponse['hourly'],
+  nowSeconds: number,
+  currentKpa: number,
+): PressureObservation[] {
+  const past = (hourly?.time ?? []).flatMap((time, index) => {
+    const pressureHpa = toFinite(hourly?.pressure_msl?.[index]);
+    return time < nowSeconds && pressureHpa !== null ? [{ time: time * 1000, kpa: pressureHpa / 10 }] : [];
+  });
+
+  return [...past, { time: nowSeconds * 1000, kpa: currentKpa }];
+}
+
+function describeWeatherCode(code: number | null | undefined, lang: Language = 'en'): { text: string; icon: string } {
+  const entry = typeof code === 'number' ? WMO_CODES[code] : undefined;
+  if (entry) {
+    return { text: entry.text[lang], icon: entry.icon };
+  }
+
+  return { text: lang === 'fr' ? 'Inconnu' : 'Unknown', icon: 'na' };
+}
+
+function toIso(unixSeconds: number | null | undefined): string | undefined {
+  return typeof unixSeconds === 'number' ? new Date(unixSeconds * 1000).toISOString() : undefined;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { providersForPoint } from './registry';
+
+const ids = (lat: number, lon: number): string[] => providersForPoint(lat, lon).map((provider) => provider.id);
+
+describe('providersForPoint', () => {
+  // Both grids reach across the border here; the country decides.
+  it.each([
+    ['Windsor', 42.3149, -83.0364],
+    ['Victoria', 48.4284, -123.3656],
+    ['Sarnia', 42.9745, -82.4066],
+    ['Fort Erie', 42.9057, -78.9306],
+    ['Sault Ste. Marie, ON', 46.5219, -84.3461],
+  ])('leaves %s to Environment Canada', (_name, lat, lon) => {
+    expect(ids(lat, lon)).toEqual(['ec', 'twn', 'openmeteo']);
+  });
+
+  it.each([
+    ['Detroit', 42.3314, -83.0458],
+    ['Seattle', 47.6062, -122.3321],
+    ['Port Huron', 42.9709, -82.4249],
+    ['Buffalo', 42.8864, -78.8784],
+    ['Juneau', 58.3019, -134.4197],
+  ])('leaves %s to the National Weather Service', (_name, lat, lon) => {
+    expect(ids(lat, lon)).toEqual(['nws', 'twn', 'openmeteo']);
+  });
+
+  it('falls back to Open-Meteo outside North America', () => {
+    expect(ids(48.8566, 2.3522)).toEqual(['openmeteo']);
+  });
+});
@@ -0,0 +1,47 @@
+import { AUTO_PROVIDER } from '../services/selection';
+import type { ProviderSummary, WeatherProvider } from '../types';
+import { bboxContains } from '../utils/geo';
+import { ecProvider } from './ec';
+import { nwsProvider } from './nws';
+import { openMeteoProvider } from './openmeteo';
+import { twnProvider } from './twn';
+import type { WeatherProviderAdapter } from './types';
+
+/**
+ * Registered home-weather providers, in preference order.
+ * Adding a provider means writing its adapter module and listing it here.
+ */
+const PROVIDERS: WeatherProviderAdapter[] = [ecProvider, nwsProvider, twnProvider, openMeteoProvider];
+
+/** Used when a request names no provider; advertised by `/providers` and mirrored by the client's initial selection. */
+export const DEFAULT_PROVIDER = AUTO_PROVIDER;
+
+export function listProviders(): WeatherProviderAdapter[] {
+  return PROVIDERS;
+}
+
+export function getProvider(id: string): WeatherProviderAdapter | null {
+  return PROVIDERS.find((provider) => provider.id === id) ?? null;
+}
+
+/** Providers whose coverage contains the point, in preference order. */
+export function providersForPoint(lat: number, lon: number): WeatherProviderAdapter[] {
+  return PROVIDERS.filter(
+    (provider) => bboxContains(provider.coverage, lat, lon) && (provider.contains?.(lat, lon) ?? true),
+  );
+}
+
+export function providerIds(): WeatherProvider[] {
+  return PROVIDERS.map((provider) => provider.id);
+}
+
+export function toProviderSummary(provider: WeatherProviderAdapter): ProviderSummary {
+  return {
+    id: provider.id,
+    name: provider.displayName,
+    shortName: provider.shortName,
+    coverage: provider.coverage,
+    cacheTtlSeconds: provider.cacheTtlSeconds,
+    capabilities: provider.capabilities,
+  };
+}
@@ -1,5 +1,28 @@
-import type { AlertItem, DailyItem, HomeWeatherResponse, HourlyItem, TemperatureUnit } from '../types';
-import { reverseGeocode } from '../services/geocode';
+import type {
+  AlertItem,
+  CurrentConditions,
+  DailyItem,
+  HomeWeatherResponse,
+  HourlyItem,
+  UnitPreferences,
+} from '../types';
+import { resolveLocationName } from '../services/geocode';
+import {
+  clampPercent,
+  convertDistance,
+  convertPrecip,
+  convertPressure,
+  convertReported,
+  convertTemp,
+  convertWind,
+  maxReported,
+  sumReported,
+  toFinite,
+} from '../utils/units';
+import { trackedFetch } from '../utils/requestContext';
+import type { RequestContext } from '../utils/requestContext';
+import { array, number, object, optional, parseWith } from '../utils/schema';
+import type { Schema } from '../utils/schema';
 import type { HomeWeatherRequest, WeatherProviderAdapter } from './types';
 
 const TWN_API_BASE = 'https://weatherapi.pelmorex.com/api/v1';
@@ -45,8 +68,19 @@ interface TwnHourlyItem {
   };
   temperature?: {
     value?: number;
+    feelsLike?: number;
+  };
+  relativeHumidity?: number;
+  wind?: {
+    speed?: number;
+    gust?: number;
+    direction?: string;
   };
   pop?: number;
+  /** Rain in millimetres. */
+  rain?: number;
+  /** Snow in centimetres. */
+  snow?: number;
 }
 
 interface TwnHourlyResponse {
@@ -65,6 +99,19 @@ interface TwnLongtermPeriod {
   temperature?: {
     value?: number;
   };
+  pop?: number;
+  /** Rain in millimetres. */
+  rain?: number;
+  /** Snow in centimetres. */
+  snow?: number;
+  wind?: {
+    speed?: number;
+    gust?: number;
+    direction?: string;
+  };
+  uv?: {
+    index?: number;
+  };
 }
 
 interface TwnLongtermItem {
@@ -82,20 +129,47 @@ interface TwnLongtermResponse {
   longTerm?: TwnLongtermItem[];
 }
 
+const observationSchema: Schema<TwnObservationResponse> = object({
+  observation: object({
+    temperature: optional(number()),
+    feelsLike: optional(number()),
+    relativeHumidity: optional(number()),
+  }),
+});
+
+const hourlySchema: Schema<TwnHourlyResponse> = object({
+  // A missing hour temperature is reported as null rather than failing the forecast.
+  hourly: array(object({ temperature: optional(object({ value: optional(number()) })), pop: optional(number()) })),
+});
+
+const longtermSchema: Schema<TwnLongtermResponse> = object({ longTerm: array(object({})) });
+
 export const twnProvider: WeatherProviderAdapter = {
+  id: 'twn',
+  displayName: 'Weather Network',
+  shortName: 'TWN',
+  coverage: { west: -170, south: 18, east: -52, north: 84 },
+  cacheTtlSeconds: 60,
+  capabilities: ['current', 'hourly', 'daily', 'visibility'],
+
   async getHomeWeather(request: HomeWeatherRequest): Promise<HomeWeatherResponse> {
     const query = new URLSearchParams({
-      locale: 'en-CA',
+      locale: `${request.lang}-CA`,
       lat: String(request.lat),
       long: String(request.lon),
       unit: 'metric',
     });
 
     const [observationResponse, hourlyResponse, longtermResponse, locationName] = await Promise.all([
-      fetchTwnJson<TwnObservationResponse>(`${TWN_API_BASE}/observation?${query.toString()}`),
-      fetchTwnJson<TwnHourlyResponse>(`${TWN_API_BASE}/hourly?${query.toString()}`),
-      fetchTwnJson<TwnLongtermResponse>(`${TWN_API_BASE}/longterm?${query.toString()}&count=8&offset=0`),
-      resolveLocationName(request.lat, request.lon),
+      fetchTwnJson(`${TWN_API_BASE}/observation?${query.toString()}`, observationSchema, 'observation', request.context),
+      fetchTwnJson(`${TWN_API_BASE}/hourly?${query.toString()}`, hourlySchema, 'hourly', request.context),
+      fetchTwnJson(
+        `${TWN_API_BASE}/longterm?${query.toString()}&count=8&offset=0`,
+        longtermSchema,
+        'long-term',
+        request.context,
+      ),
+      resolveLocationName(request.lat, request.lon, request.lang, request.context),
     ]);
 
     const observation = observationResponse.observation;
@@ -104,11 +178,13 @@ export const twnProvider: WeatherProviderAdapter = {
     }
 
     const pressureUnit = observationResponse.display?.unit?.pressure?.toLowerCase() ?? 'kpa';
-    const pressureRaw = toFinite(observation.pressure?.value, 0);
-    const pressureKpa = pressureUnit === 'kpa' ? pressureRaw : pressureRaw / 10;
+    const pressureRaw = toFinite(observation.pressure?.value);
+    const pressureKpa = pressureRaw === null || pressureUnit === 'kpa' ? pressureRaw : pressureRaw / 10;
 
-    const currentTempC = toFinite(observation.temperature, 0);
-    const feelsLikeC = toFinite(observation.feelsLike, currentTempC);
+    const currentTempC = toFinite(observation.temperature);
+    const feelsLikeC = toFinite(observation.feelsLike) ?? currentTempC;
+    const humidity = toFinite(observation.relativeHumidity);
+    const { units } = request;
     const updatedAt =
       normalizeTimestamp(hourlyResponse.generatedTimestamp?.utc) ??
       normalizeTimestamp(hourlyResponse.generatedTimestamp?.local) ??
@@ -116,21 +192,25 @@ export const twnProvider: WeatherProviderAdapter = {
       normalizeTimestamp(observation.time?.local) ??
       new Date().toISOString();
 
-    const current = {
-      temperature: convertTemp(currentTempC, request.unit),
-      feelsLike: convertTemp(feelsLikeC, request.unit),
+    // TWN observations carry no UV index.
+    const current: CurrentConditions = {
+      temperature: convertReported(currentTempC, units.temperature, convertTemp),
+      feelsLike: convertReported(feelsLikeC, units.temperature, convertTemp),
       condition: observation.weatherCode?.text?.trim() || 'Unknown',
       icon: toIcon(observation.weatherCode?.icon),
-      humidity: clampPercent(toFinite(observation.relativeHumidity, 0)),
-      windKph: toFinite(observation.wind?.speed, 0),
-      pressureKpa: Number(pressureKpa.toFixed(1)),
+      humidity: humidity === null ? null : clampPercent(humidity),
+      windSpeed: convertReported(toFinite(observation.wind?.speed), units.wind, convertWind),
+      pressure: convertReported(pressureKpa, units.pressure, convertPressure),
       pressureTrend: toPressureTrend(observation.pressure?.trendKey),
-      visibilityKm: toFinite(observation.visibility, 10),
-      uvIndex: 0,
+      // TWN reports a trend key but no readings behind it.
+      pressureTendency: null,
+      pressureHistory: [],
+      visibility: convertReported(toFinite(observation.visibility), units.distance, convertDistance),
+      uvIndex: null,
     };
 
-    const hourly = normalizeHourly(hourlyResponse.hourly ?? [], request.unit);
-    const daily = normalizeDaily(longtermResponse.longTerm ?? [], request.unit);
+    const hourly = normalizeHourly(hourlyResponse.hourly ?? [], request.units);
+    const daily = normalizeDaily(longtermResponse.longTerm ?? [], request.units);
     const alerts: AlertItem[] = [];
 
     return {
@@ -145,12 +225,23 @@ export const twnProvider: WeatherProviderAdapter = {
       daily,
       alerts,
       updatedAt,
+      units: request.units,
+      source: {
+        distance: 0,
+        observedAt:
+          normalizeTimestamp(observation.time?.utc) ?? normalizeTimestamp(observation.time?.local) ?? undefined,
+        forecastIssuedAt:
+          normalizeTimestamp(hourlyResponse.generatedTimestamp?.utc) ??
+          normalizeTimestamp(hourlyResponse.generatedTimestamp?.local) ??
+          undefined,
+        attribution: 'The Weather Network (Pelmorex Weather Networks)',
+      },
     };
   },
 };
 
-async function fetchTwnJson<T>(url: string): Promise<T> {
-  const response = await fetch(url, {
+async function fetchTwnJson<T>(url: string, schema: Schema<T>, product: string, context: RequestContext): Promise<T> {
+  const response = await trackedFetch(context, url, {
     headers: {
       'user-agent': 'LiivSky2-Worker/0.1 (+https://liivsky2.pages.dev)',
       accept: 'application/json',
@@ -162,96 +253,79 @@ async function fetchTwnJson<T>(url: string): Promise<T> {
     throw new Error(`Weather Network request failed (${response.status}): ${body.slice(0, 200)}`);
   }
 
-  return (await response.json()) as T;
+  return parseWith(schema, await response.json(), `Weather Network ${product}`);
 }
 
-async function resolveLocationName(lat: number, lon: number): Promise<string> {
-  try {
-    const result = await reverseGeocode(lat, lon);
-    if (result.name?.trim()) {
-      return result.name;
-    }
-  } catch {
-  }
-
-  return `${lat.toFixed(3)}, ${lon.toFixed(3)}`;
-}
-
-function normalizeHourly(items: TwnHourlyItem[], unit: TemperatureUnit): HourlyItem[] {
+function normalizeHourly(items: TwnHourlyItem[], units: UnitPreferences): HourlyItem[] {
   return items.slice(0, 24).map((item) => {
-    const tempC = toFinite(item.temperature?.value, 0);
+    const pop = toFinite(item.pop);
+    const tempC = toFinite(item.temperature?.value);
+    const humidity = toFinite(item.relativeHumidity);
 
     return {
-      time: normalizeTimestamp(item.time?.local) ?? normalizeTimestamp(item.time?.utc) ?? new Date().toISOString(),
-      temp: convertTemp(tempC, unit),
+      // Prefer UTC so hourly timestamps line up with other providers when blending.
+      time: normalizeTimestamp(item.time?.utc) ?? normalizeTimestamp(item.time?.local) ?? new Date().toISOString(),
+      temp: convertReported(tempC, units.temperature, convertTemp),
+      feelsLike: convertReported(toFinite(item.temperature?.feelsLike) ?? tempC, units.temperature, convertTemp),
       icon: toIcon(item.weatherCode?.icon),
-      precipChance: clampPercent(toFinite(item.pop, 0)),
+      precipChance: pop === null ? null : clampPercent(pop),
+      precipAmount: convertReported(liquidEquivalentMm(item.rain, item.snow), units.precipitation, convertPrecip),
+      humidity: humidity === null ? null : clampPercent(humidity),
+      windSpeed: convertReported(toFinite(item.wind?.speed), units.wind, convertWind),
+      windGust: convertReported(toFinite(item.wind?.gust), units.wind, convertWind),
+      windDirection: item.wind?.direction?.trim() || undefined,
     };
   });
 }
 
-function normalizeDaily(items: TwnLongtermItem[], unit: TemperatureUnit): DailyItem[] {
+/** Rain plus snow at the usual 10:1 ratio (1 cm of snow ≈ 1 mm of water); null when neither is reported. */
+function liquidEquivalentMm(rainMm: number | undefined, snowCm: number | undefined): number | null {
+  const rain = toFinite(rainMm);
+  const snow = toFinite(snowCm);
+  return rain === null && snow === null ? null : (rain ?? 0) + (snow ?? 0);
+}
+
+/** Day and night periods combine: chances, wind and UV take the max, amounts add up. */
+function normalizeDaily(items: TwnLongtermItem[], units: UnitPreferences): DailyItem[] {
   return items.slice(0, 8).map((item) => {
-    const dayTemp = toFinite(item.day?.temperature?.value, Number.NaN);
-    const nightTemp = toFinite(item.night?.temperature?.value, Number.NaN);
-    const maxTemp = toFinite(item.maxTemperature ?? undefined, Number.NaN);
-    const minTemp = toFinite(item.minTemperature ?? undefined, Number.NaN);
-
-    const highC = Number.isFinite(maxTemp)
-      ? maxTemp
-      : Number.isFinite(dayTemp)
-        ? dayTemp
-        : Number.isFinite(nightTemp)
-          ? nightTemp
-          : 0;
-
-    const lowC = Number.isFinite(minTemp)
-      ? minTemp
-      : Number.isFinite(nightTemp)
-        ? nightTemp
-        : Number.isFinite(dayTemp)
-          ? dayTemp
-          : 0;
+    const { day, night } = item;
+    const highC = toFinite(item.maxTemperature) ?? toFinite(day?.temperature?.value);
+    const lowC = toFinite(item.minTemperature) ?? toFinite(night?.temperature?.value);
+    const pop = maxReported(toFinite(day?.pop), toFinite(night?.pop));
+    const snowCm = sumReported(toFinite(day?.snow), toFinite(night?.snow));
+    const dayWind = toFinite(day?.wind?.speed);
+    const nightWind = toFinite(night?.wind?.speed);
+    const windier = (nightWind ?? -1) > (dayWind ?? -1) ? night : day;
+    const uvIndex = maxReported(toFinite(day?.uv?.index), toFinite(night?.uv?.index));
 
     return {
-      day: normalizeTimestamp(item.time?.local) ?? normalizeTimestamp(item.time?.utc) ?? new Date().toISOString(),
-      high: convertTemp(highC, unit),
-      low: convertTemp(lowC, unit),
-      icon: toIcon(item.day?.weatherCode?.icon ?? item.night?.weatherCode?.icon),
-      daySummary: item.day?.weatherCode?.text,
-      nightSummary: item.night?.weatherCode?.text,
+      date: localDate(item.time),
+      high: convertReported(highC, units.temperature, convertTemp),
+      low: convertReported(lowC, units.temperature, convertTemp),
+      icon: toIcon(day?.weatherCode?.icon ?? night?.weatherCode?.icon),
+      daySummary: day?.weatherCode?.text,
+      nightSummary: night?.weatherCode?.text,
+      precipChance: pop === null ? null : clampPercent(pop),
+      rainAmount: convertReported(sumReported(toFinite(day?.rain), toFinite(night?.rain)), units.precipitation, convertPrecip),
+      snowAmount: convertReported(snowCm === null ? null : snowCm * 10, units.precipitation, convertPrecip),
+      windSpeed: convertReported(maxReported(dayWind, nightWind), units.wind, convertWind),
+      windGust: convertReported(maxReported(toFinite(day?.wind?.gust), toFinite(night?.wind?.gust)), units.wind, convertWind),
+      windDirection: windier?.wind?.direction?.trim() || undefined,
+      uvIndex: uvIndex === null ? null : Math.round(uvIndex),
     };
   });
 }
 
-function toFinite(value: number | undefined, fallback: number): number {
-  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
-}
-
-function clampPercent(value: number): number {
-  if (value < 0) {
-    return 0;
-  }
-
-  if (value > 100) {
-    return 100;
-  }
-
-  return Math.round(value);
+/** Long-term `time.local` is already the local calendar day; UTC is only a fallback. */
+function localDate(time: TwnLongtermItem['time']): string {
+  const local = time?.local?.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+  return local ?? (normalizeTimestamp(time?.utc) ?? new Date().toISOString()).slice(0, 10);
 }
 
 function toIcon(icon: number | undefined): string {
   return typeof icon === 'number' ? String(icon) : 'na';
 }
 
-function convertTemp(valueC: number, unit: TemperatureUnit): number {
-  if (unit === 'F') {
-    return Math.round((valueC * 9) / 5 + 32);
-  }
-
-  return Math.round(valueC);
-}
-
 function normalizeTimestamp(value: string | undefined): string | null {
   if (!value) {
     return null;
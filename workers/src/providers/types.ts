@@ -1,11 +1,49 @@
-import type { HomeWeatherResponse, TemperatureUnit } from '../types';
+import type {
+  BoundingBox,
+  HomeWeatherResponse,
+  Language,
+  ProviderCapability,
+  UnitPreferences,
+  WeatherProvider,
+} from '../types';
+import type { RequestContext } from '../utils/requestContext';
 
 export interface HomeWeatherRequest {
   lat: number;
   lon: number;
-  unit: TemperatureUnit;
+  units: UnitPreferences;
+  lang: Language;
+  /** Upstream calls are recorded here for the request log. */
+  context: RequestContext;
+  /**
+   * Providers that snap to fixed forecast sites reject the request when the
+   * nearest site is farther than this, instead of answering for a distant city.
+   */
+  maxDistanceKm?: number;
 }
 
 export interface WeatherProviderAdapter {
+  /** Stable identifier used in the `provider` query parameter. */
+  id: WeatherProvider;
+  /** Human-readable provider name shown in the source picker. */
+  displayName: string;
+  /** Compact label for chips and badges. */
+  shortName: string;
+  /** Area where the provider returns meaningful data. */
+  coverage: BoundingBox;
+  /**
+   * Finer test than `coverage` where the box overlaps a neighbouring
+   * provider's; when absent the box alone decides.
+   */
+  contains?: (lat: number, lon: number) => boolean;
+  /** How long a home-weather response from this provider may be cached. */
+  cacheTtlSeconds: number;
+  /** Data the provider can actually supply (as opposed to placeholders). */
+  capabilities: ProviderCapability[];
   getHomeWeather: (request: HomeWeatherRequest) => Promise<HomeWeatherResponse>;
+  /**
+   * Providers that snap points to fixed forecast sites return the site id, so
+   * batch requests fetch once per site instead of once per point.
+   */
+  resolveSiteId?: (lat: number, lon: number, context: RequestContext) => Promise<string>;
 }
@@ -0,0 +1,259 @@
+import { alertGeometrySchema } from '../contract';
+import type { AlertGeometry, AlertItem, AlertSeverity, AlertType, BoundingBox, Language } from '../types';
+import { geometryContains } from '../utils/geo';
+import { trackedFetch } from '../utils/requestContext';
+import type { RequestContext } from '../utils/requestContext';
+import { array, nullable, object, optional, parseWith, string } from '../utils/schema';
+import type { Schema } from '../utils/schema';
+
+const EC_ALERTS_ITEMS_URL = 'https://api.weather.gc.ca/collections/weather-alerts/items';
+
+/** Half-width (degrees) of the bbox used to find zones touching a point. */
+const POINT_SEARCH_DEGREES = 0.01;
+
+interface EcAlertFeatureCollection {
+  features?: EcAlertFeature[];
+}
+
+/** One feature per alert per forecast zone. */
+interface EcAlertFeature {
+  id?: string;
+  geometry?: AlertGeometry | null;
+  properties?: {
+    id?: string;
+    alert_code?: string;
+    alert_type?: string;
+    alert_name_en?: string;
+    alert_name_fr?: string;
+    alert_short_name_en?: string;
+    alert_short_name_fr?: string;
+    alert_text_en?: string;
+    alert_text_fr?: string;
+    /** `yellow`, `orange` or `red` for colour-coded alerts. */
+    risk_colour_en?: string;
+    status_en?: string;
+    publication_datetime?: string;
+    expiration_datetime?: string;
+    event_end_datetime?: string;
+    feature_id?: string;
+    feature_name_en?: string;
+    feature_name_fr?: string;
+  };
+}
+
+/** Geometry is checked because point lookups run polygon containment on it. */
+const ecAlertCollectionSchema: Schema<EcAlertFeatureCollection> = object({
+  features: array(
+    object({
+      geometry: optional(nullable(alertGeometrySchema)),
+      properties: object({ alert_type: optional(string()), publication_datetime: optional(string()) }),
+    }),
+  ),
+});
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  extreme: 4,
+  severe: 3,
+  moderate: 2,
+  minor: 1,
+  unknown: 0,
+};
+
+const TYPE_RANK: Record<AlertType, number> = {
+  warning: 3,
+  watch: 2,
+  advisory: 1,
+  statement: 0,
+};
+
+/** Active EC alerts whose zone polygon contains the point, most severe first. */
+export async function getEcAlertsForPoint(
+  lat: number,
+  lon: number,
+  lang: Language,
+  context: RequestContext,
+): Promise<AlertItem[]> {
+  const collection = await fetchEcAlerts(
+    {
+      west: lon - POINT_SEARCH_DEGREES,
+      south: lat - POINT_SEARCH_DEGREES,
+      east: lon + POINT_SEARCH_DEGREES,
+      north: lat + POINT_SEARCH_DEGREES,
+    },
+    context,
+  );
+
+  // Group first so an alert touching the point keeps every zone the query returned.
+  const containing = groupEcAlerts(collection.features ?? [], lang).filter(
+    (alert) => !alert.geometry || geometryContains(alert.geometry, lat, lon),
+  );
+
+  return sortAlerts(containing);
+}
+
+/** Active EC alerts with any zone inside the box, for drawing on a map. */
+export async function getEcAlertsForBbox(
+  bbox: BoundingBox,
+  lang: Language,
+  context: RequestContext,
+): Promise<AlertItem[]> {
+  const collection = await fetchEcAlerts(bbox, context);
+  return sortAlerts(groupEcAlerts(collection.features ?? [], lang));
+}
+
+/** A cached alert list older than this is not served even when the upstream is down; alerts change too fast. */
+export const ALERTS_STALE_IF_ERROR_SECONDS = 900;
+
+/** Drop alerts whose expiry has passed, e.g. when serving a cached list. */
+export function withoutExpired(alerts: AlertItem[], now = Date.now()): AlertItem[] {
+  return alerts.filter((alert) => !alert.expiresAt || new Date(alert.expiresAt).getTime() >= now);
+}
+
+/** Most severe first; ties go to the stronger alert type, then the newest. */
+export function sortAlerts(alerts: AlertItem[]): AlertItem[] {
+  return [...alerts].sort(
+    (a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      TYPE_RANK[b.type] - TYPE_RANK[a.type] ||
+      (b.issuedAt ?? '').localeCompare(a.issuedAt ?? ''),
+  );
+}
+
+/** Map free-text alert names or CAP message kinds onto the four alert types. */
+export function toAlertType(value: string | undefined): AlertType {
+  const normalized = value?.toLowerCase() ?? '';
+
+  if (normalized.includes('warning')) {
+    return 'warning';
+  }
+
+  if (normalized.includes('watch')) {
+    return 'watch';
+  }
+
+  if (normalized.includes('advisory')) {
+    return 'advisory';
+  }
+
+  return 'statement';
+}
+
+/**
+ * Normalize CAP severities (`Severe`) and EC risk colours (`orange`);
+ * anything else falls back to a severity implied by the alert type.
+ */
+export function toAlertSeverity(value: string | undefined, type: AlertType): AlertSeverity {
+  switch (value?.trim().toLowerCase()) {
+    case 'extreme':
+    case 'red':
+      return 'extreme';
+    case 'severe':
+    case 'orange':
+      return 'severe';
+    case 'moderate':
+    case 'yellow':
+      return 'moderate';
+    case 'minor':
+      return 'minor';
+    default:
+      break;
+  }
+
+  if (type === 'warning') {
+    return 'severe';
+  }
+
+  if (type === 'watch') {
+    return 'moderate';
+  }
+
+  return 'minor';
+}
+
+async function fetchEcAlerts(bbox: BoundingBox, context: RequestContext): Promise<EcAlertFeatureCollection> {
+  const url = new URL(EC_ALERTS_ITEMS_URL);
+  url.searchParams.set('f', 'json');
+  url.searchParams.set('limit', '500');
+  url.searchParams.set('bbox', `${bbox.west},${bbox.south},${bbox.east},${bbox.north}`);
+
+  const response = await trackedFetch(context, url.toString(), {
+    headers: {
+      'user-agent': 'LiivSky2-Worker/0.1 (+https://liivsky2.pages.dev)',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Environment Canada alerts request failed with status ${response.status}`);
+  }
+
+  return parseWith(ecAlertCollectionSchema, await response.json(), 'Environment Canada alerts');
+}
+
+/**
+ * EC publishes one feature per zone; fold zones of the same alert into a
+ * single item listing every area, keeping the geometry as a MultiPolygon.
+ */
+function groupEcAlerts(features: EcAlertFeature[], lang: Language): AlertItem[] {
+  const now = Date.now();
+  const grouped = new Map<string, AlertItem>();
+
+  for (const feature of features) {
+    const properties = feature.properties;
+    if (!properties || properties.status_en?.toLowerCase() === 'ended') {
+      continue;
+    }
+
+    const expiresAt = properties.expiration_datetime ?? properties.event_end_datetime;
+    if (expiresAt && new Date(expiresAt).getTime() < now) {
+      continue;
+    }
+
+    // Type detection and grouping use the English name; the French one is display-only.
+    const englishTitle = (properties.alert_name_en ?? properties.alert_short_name_en ?? '').trim();
+    if (!englishTitle) {
+      continue;
+    }
+
+    const title =
+      lang === 'fr'
+        ? (properties.alert_name_fr ?? properties.alert_short_name_fr ?? '').trim() || englishTitle
+        : englishTitle;
+    const key = `${properties.alert_code ?? englishTitle}|${properties.publication_datetime ?? ''}`;
+    const area = (lang === 'fr' ? properties.feature_name_fr : undefined)?.trim() || properties.feature_name_en?.trim();
+    const existing = grouped.get(key);
+
+    if (existing) {
+      if (area && !existing.areas.includes(area)) {
+        existing.areas.push(area);
+      }
+      existing.geometry = mergeGeometry(existing.geometry, feature.geometry ?? undefined);
+      continue;
+    }
+
+    const type = toAlertType(properties.alert_type ?? englishTitle);
+    grouped.set(key, {
+      id: properties.id ?? feature.id ?? key,
+      title,
+      type,
+      severity: toAlertSeverity(properties.risk_colour_en, type),
+      description: (lang === 'fr' ? properties.alert_text_fr : undefined)?.trim() || properties.alert_text_en?.trim() || undefined,
+      issuedAt: properties.publication_datetime,
+      expiresAt,
+      areas: area ? [area] : [],
+      geometry: feature.geometry ?? undefined,
+    });
+  }
+
+  return Array.from(grouped.values());
+}
+
+function mergeGeometry(a: AlertGeometry | undefined, b: AlertGeometry | undefined): AlertGeometry | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+
+  const polygons = (geometry: AlertGeometry): number[][][][] =>
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+  return { type: 'MultiPolygon', coordinates: [...polygons(a), ...polygons(b)] };
+}
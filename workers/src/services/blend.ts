@@ -0,0 +1,300 @@
+import type { HomeWeatherRequest, WeatherProviderAdapter } from '../providers/types';
+import type {
+  AlertItem,
+  BlendStat,
+  CurrentConditions,
+  DailyItem,
+  HomeWeatherResponse,
+  HourlyItem,
+  ProviderAttempt,
+  WeatherProvider,
+} from '../types';
+import { sortAlerts } from './alerts';
+
+export const BLEND_PROVIDER = 'blend';
+
+/** Current fields taken from the first provider that reported them rather than averaged. */
+type FirstReportedField = 'humidity' | 'windSpeed' | 'visibility' | 'uvIndex';
+
+/** Pressure and its history come from one provider so the series, tendency and value agree. */
+type PressureField = 'pressure' | 'pressureTrend' | 'pressureTendency' | 'pressureHistory';
+
+type HourlyNumericField = 'temp' | 'feelsLike' | 'precipChance' | 'precipAmount' | 'humidity' | 'windSpeed' | 'windGust';
+
+type DailyNumericField = 'high' | 'low' | 'precipChance' | 'rainAmount' | 'snowAmount' | 'windSpeed' | 'windGust' | 'uvIndex';
+
+interface ProviderResult {
+  provider: WeatherProvider;
+  data: HomeWeatherResponse;
+}
+
+interface Contribution<T> {
+  provider: WeatherProvider;
+  item: T;
+}
+
+interface Blended {
+  value: number | null;
+  stat: BlendStat;
+}
+
+/**
+ * Calls every adapter in parallel and merges the answers.
+ * Temperatures, humidity and wind speed are averaged, precipitation chances
+ * and amounts, gusts and UV take the max, days merge on their local date, and other
+ * current fields the first provider left null come from the next one that has them.
+ * Providers that fail are reported in `sources` instead of failing the request;
+ * only when every provider fails does this throw.
+ */
+export async function getBlendedHomeWeather(
+  request: HomeWeatherRequest,
+  adapters: WeatherProviderAdapter[],
+): Promise<HomeWeatherResponse> {
+  const settled = await Promise.allSettled(adapters.map((adapter) => adapter.getHomeWeather(request)));
+
+  const results: ProviderResult[] = [];
+  const sources: ProviderAttempt[] = settled.map((outcome, index) => {
+    const provider = adapters[index]?.id ?? 'unknown';
+    if (outcome.status === 'fulfilled') {
+      results.push({ provider, data: outcome.value });
+      return { provider, ok: true };
+    }
+
+    const error = outcome.reason instanceof Error ? outcome.reason.message : 'Provider request failed.';
+    return { provider, ok: false, error };
+  });
+
+  const primary = results[0];
+  if (!primary) {
+    const details = sources.map((source) => `${source.provider}: ${source.error ?? 'failed'}`).join('; ');
+    throw new Error(`All providers failed. ${details}`);
+  }
+
+  const temperature = blendValues(results.map((result) => ({ provider: result.provider, item: result.data.current.temperature })));
+  const feelsLike = blendValues(results.map((result) => ({ provider: result.provider, item: result.data.current.feelsLike })));
+
+  return {
+    provider: BLEND_PROVIDER,
+    location: primary.data.location,
+    current: {
+      ...primary.data.current,
+      ...firstReported(results),
+      ...pressureFrom(results, primary),
+      temperature: temperature.value,
+      feelsLike: feelsLike.value,
+      blend: {
+        temperature: temperature.stat,
+        feelsLike: feelsLike.stat,
+      },
+    },
+    hourly: blendHourly(results),
+    daily: blendDaily(results),
+    alerts: mergeAlerts(results),
+    updatedAt: latestTimestamp(results),
+    units: request.units,
+    source: {
+      ...primary.data.source,
+      attribution: results.map((result) => result.data.source.attribution).join('; '),
+    },
+    sources,
+  };
+}
+
+function firstReported(results: ProviderResult[]): Pick<CurrentConditions, FirstReportedField> {
+  const pick = (field: FirstReportedField) =>
+    results.map((result) => result.data.current[field]).find((value) => value !== null) ?? null;
+
+  return {
+    humidity: pick('humidity'),
+    windSpeed: pick('windSpeed'),
+    visibility: pick('visibility'),
+    uvIndex: pick('uvIndex'),
+  };
+}
+
+function pressureFrom(results: ProviderResult[], primary: ProviderResult): Pick<CurrentConditions, PressureField> {
+  // Prefer a provider with observed history, then any that reported a value.
+  const source =
+    results.find((result) => result.data.current.pressure !== null && result.data.current.pressureHistory.length > 0) ??
+    results.find((result) => result.data.current.pressure !== null) ??
+    primary;
+  const { pressure, pressureTrend, pressureTendency, pressureHistory } = source.data.current;
+  return { pressure, pressureTrend, pressureTendency, pressureHistory };
+}
+
+function blendHourly(results: ProviderResult[]): HourlyItem[] {
+  const buckets = new Map<string, Array<Contribution<HourlyItem>>>();
+
+  for (const result of results) {
+    for (const item of result.data.hourly) {
+      const key = hourKey(item.time);
+      if (!key) {
+        continue;
+      }
+
+      const bucket = buckets.get(key) ?? [];
+      bucket.push({ provider: result.provider, item });
+      buckets.set(key, bucket);
+    }
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(0, 24)
+    .map(([time, contributions]) => {
+      const field = (key: HourlyNumericField) => contributions.map(({ provider, item }) => ({ provider, item: item[key] }));
+      const blended = {
+        temp: blendValues(field('temp')),
+        feelsLike: blendValues(field('feelsLike')),
+        precipChance: maxValue(field('precipChance')),
+        precipAmount: maxValue(field('precipAmount')),
+        humidity: blendValues(field('humidity')),
+        windSpeed: blendValues(field('windSpeed')),
+        windGust: maxValue(field('windGust')),
+      };
+
+      return {
+        time,
+        ...valuesOf(blended),
+        icon: contributions[0]?.item.icon ?? 'na',
+        windDirection: contributions.find(({ item }) => item.windDirection)?.item.windDirection,
+        blend: statsOf(blended),
+      };
+    });
+}
+
+function blendDaily(results: ProviderResult[]): DailyItem[] {
+  const buckets = new Map<string, Array<Contribution<DailyItem>>>();
+
+  for (const result of results) {
+    for (const item of result.data.daily) {
+      const key = item.date.match(/^\d{4}-\d{2}-\d{2}$/)?.[0];
+      if (!key) {
+        continue;
+      }
+
+      const bucket = buckets.get(key) ?? [];
+      bucket.push({ provider: result.provider, item });
+      buckets.set(key, bucket);
+    }
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(0, 8)
+    .map(([date, contributions]) => {
+      const first = contributions[0]?.item;
+      const field = (key: DailyNumericField) => contributions.map(({ provider, item }) => ({ provider, item: item[key] }));
+      const blended = {
+        high: blendValues(field('high')),
+        low: blendValues(field('low')),
+        precipChance: maxValue(field('precipChance')),
+        rainAmount: maxValue(field('rainAmount')),
+        snowAmount: maxValue(field('snowAmount')),
+        windSpeed: blendValues(field('windSpeed')),
+        windGust: maxValue(field('windGust')),
+        uvIndex: maxValue(field('uvIndex')),
+      };
+
+      return {
+        date,
+        ...valuesOf(blended),
+        icon: first?.icon ?? 'na',
+        daySummary: contributions.find(({ item }) => item.daySummary)?.item.daySummary,
+        nightSummary: contributions.find(({ item }) => item.nightSummary)?.item.nightSummary,
+        windDirection: contributions.find(({ item }) => item.windDirection)?.item.windDirection,
+        blend: statsOf(blended),
+      };
+    });
+}
+
+/** The blended values of `fields`, keyed like the item they belong to. */
+function valuesOf<K extends string>(fields: Record<K, Blended>): Record<K, number | null> {
+  const entries = Object.entries<Blended>(fields).map(([key, { value }]) => [key, value]);
+  return Object.fromEntries(entries) as Record<K, number | null>;
+}
+
+/** How each of `fields` was blended, for the item's `blend` block. */
+function statsOf<K extends string>(fields: Record<K, Blended>): Record<K, BlendStat> {
+  const entries = Object.entries<Blended>(fields).map(([key, { stat }]) => [key, stat]);
+  return Object.fromEntries(entries) as Record<K, BlendStat>;
+}
+
+/** Mean of the providers that reported a value; `null` when none did. */
+function blendValues(contributions: Array<Contribution<number | null>>): Blended {
+  const finite = reported(contributions);
+  if (finite.length === 0) {
+    return { value: null, stat: { providers: [], spread: 0 } };
+  }
+
+  const values = finite.map(({ item }) => item);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return {
+    value: Math.round(mean),
+    stat: toStat(finite),
+  };
+}
+
+function maxValue(contributions: Array<Contribution<number | null>>): Blended {
+  const finite = reported(contributions);
+  if (finite.length === 0) {
+    return { value: null, stat: { providers: [], spread: 0 } };
+  }
+
+  return {
+    value: Math.max(...finite.map(({ item }) => item)),
+    stat: toStat(finite),
+  };
+}
+
+function reported(contributions: Array<Contribution<number | null>>): Array<Contribution<number>> {
+  return contributions.filter((entry): entry is Contribution<number> => Number.isFinite(entry.item));
+}
+
+function toStat(contributions: Array<Contribution<number>>): BlendStat {
+  const values = contributions.map(({ item }) => item);
+  return {
+    providers: contributions.map(({ provider }) => provider),
+    spread: Math.round(Math.max(...values) - Math.min(...values)),
+  };
+}
+
+function mergeAlerts(results: ProviderResult[]): AlertItem[] {
+  const seen = new Set<string>();
+  const merged: AlertItem[] = [];
+
+  for (const result of results) {
+    for (const alert of result.data.alerts) {
+      const key = `${alert.title.toLowerCase()}|${alert.issuedAt ?? ''}`;
+      if (seen.has(key)) {
+        continue;
+      }
+
+      seen.add(key);
+      merged.push(alert);
+    }
+  }
+
+  return sortAlerts(merged);
+}
+
+function latestTimestamp(results: ProviderResult[]): string {
+  const times = results
+    .map((result) => new Date(result.data.updatedAt).getTime())
+    .filter((time) => Number.isFinite(time));
+
+  return times.length > 0 ? new Date(Math.max(...times)).toISOString() : new Date().toISOString();
+}
+
+/** UTC hour bucket (`YYYY-MM-DDTHH:00:00.000Z`) for an absolute timestamp. */
+function hourKey(value: string): string | null {
+  const time = new Date(value).getTime();
+  if (!Number.isFinite(time)) {
+    return null;
+  }
+
+  const date = new Date(time);
+  date.setUTCMinutes(0, 0, 0);
+  return date.toISOString();
+}
@@ -1,4 +1,11 @@
-import type { GeocodeResult } from '../types';
+import type { GeocodeResult, Language } from '../types';
+import { cacheKey, createMemoryCacheStore, toGrid } from '../utils/cache';
+import { coalesce } from '../utils/coalesce';
+import { takeUpstreamBudget } from '../utils/rateLimit';
+import { trackedFetch } from '../utils/requestContext';
+import type { RequestContext } from '../utils/requestContext';
+import { array, object, optional, parseWith, string, union } from '../utils/schema';
+import type { Schema } from '../utils/schema';
 
 interface NominatimSearchItem {
   display_name: string;
@@ -11,48 +18,114 @@ interface NominatimSearchItem {
   };
 }
 
-export async function searchGeocode(query: string): Promise<GeocodeResult[]> {
+const searchItemSchema: Schema<NominatimSearchItem> = object({
+  display_name: string(),
+  lat: string(),
+  lon: string(),
+  address: optional(object({ country: optional(string()), state: optional(string()), province: optional(string()) })),
+});
+
+/** Place names barely change; a week keeps lookups to about one per grid cell. */
+const LOCATION_NAME_TTL_SECONDS = 7 * 86400;
+
+/** Process-local, like the rate-limit budget: names are cheap to look up again after an isolate restart. */
+const locationNames = createMemoryCacheStore();
+
+/** Reverse lookups over open water answer 200 with `{ error: 'Unable to geocode' }`. */
+const reverseSchema: Schema<NominatimSearchItem | { error: string }> = union(searchItemSchema, object({ error: string() }));
+
+export async function searchGeocode(query: string, lang: Language, context: RequestContext): Promise<GeocodeResult[]> {
   const url = new URL('https://nominatim.openstreetmap.org/search');
   url.searchParams.set('q', query);
   url.searchParams.set('format', 'jsonv2');
   url.searchParams.set('addressdetails', '1');
   url.searchParams.set('limit', '8');
+  url.searchParams.set('accept-language', lang);
 
-  const response = await fetch(url.toString(), {
-    headers: {
-      'user-agent': 'LiivSky2-Worker/0.1 (+https://liivsky2.pages.dev)',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Geocode search failed with status ${response.status}`);
-  }
-
-  const payload = (await response.json()) as NominatimSearchItem[];
+  const payload = await fetchNominatim(url, array(searchItemSchema), 'Geocode search', context);
   return payload.map(toGeocodeResult);
 }
 
-export async function reverseGeocode(lat: number, lon: number): Promise<GeocodeResult> {
+export async function reverseGeocode(
+  lat: number,
+  lon: number,
+  lang: Language,
+  context: RequestContext,
+): Promise<GeocodeResult> {
   const url = new URL('https://nominatim.openstreetmap.org/reverse');
   url.searchParams.set('lat', String(lat));
   url.searchParams.set('lon', String(lon));
   url.searchParams.set('format', 'jsonv2');
   url.searchParams.set('addressdetails', '1');
+  url.searchParams.set('accept-language', lang);
 
-  const response = await fetch(url.toString(), {
-    headers: {
-      'user-agent': 'LiivSky2-Worker/0.1 (+https://liivsky2.pages.dev)',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Reverse geocode failed with status ${response.status}`);
+  const payload = await fetchNominatim(url, reverseSchema, 'Reverse geocode', context);
+  if ('error' in payload) {
+    throw new Error(`Reverse geocode failed: ${payload.error}`);
   }
 
-  const payload = (await response.json()) as NominatimSearchItem;
   return toGeocodeResult(payload);
 }
 
+/**
+ * Best-effort place name for a coordinate; falls back to the formatted coordinates.
+ * Names are looked up and cached per cache-grid cell, so repeated forecasts for
+ * the same area do not each call Nominatim.
+ */
+export async function resolveLocationName(
+  lat: number,
+  lon: number,
+  lang: Language,
+  context: RequestContext,
+): Promise<string> {
+  const gridLat = toGrid(lat);
+  const gridLon = toGrid(lon);
+  const key = cacheKey('geocode/name', { lat: gridLat, lon: gridLon, lang });
+  const cached = await locationNames.get(key);
+  if (typeof cached?.value === 'string') {
+    return cached.value;
+  }
+
+  try {
+    const result = await reverseGeocode(gridLat, gridLon, lang, context);
+    if (result.name?.trim()) {
+      await locationNames.put(
+        key,
+        { value: result.name, storedAt: Date.now(), freshSeconds: LOCATION_NAME_TTL_SECONDS, staleSeconds: 0 },
+        LOCATION_NAME_TTL_SECONDS,
+      );
+      return result.name;
+    }
+  } catch {
+    // Lookup failures are not cached; the next request tries again.
+  }
+
+  return `${lat.toFixed(3)}, ${lon.toFixed(3)}`;
+}
+
+/**
+ * Nominatim allows about one request per second: identical concurrent lookups
+ * share one fetch, and only that fetch spends rate-limit budget (and is
+ * logged against the request that started it).
+ */
+function fetchNominatim<T>(url: URL, schema: Schema<T>, operation: string, context: RequestContext): Promise<T> {
+  return coalesce(url.toString(), async () => {
+    takeUpstreamBudget('nominatim');
+
+    const response = await trackedFetch(context, url.toString(), {
+      headers: {
+        'user-agent': 'LiivSky2-Worker/0.1 (+https://liivsky2.pages.dev)',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`${operation} failed with status ${response.status}`);
+    }
+
+    return parseWith(schema, await response.json(), `Nominatim (${operation.toLowerCase()})`);
+  });
+}
+
 function toGeocodeResult(item: NominatimSearchItem): GeocodeResult {
   return {
     name: item.display_name,
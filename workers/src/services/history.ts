@@ -0,0 +1,362 @@
+import type {
+  ClimateNormals,
+  ClimateStation,
+  HistoryDay,
+  UnitPreferences,
+  WeatherHistoryResponse,
+} from '../types';
+import { haversineKm } from '../utils/geo';
+import { trackedFetch } from '../utils/requestContext';
+import type { RequestContext } from '../utils/requestContext';
+import { convertPrecip, convertReported, convertTemp, toFinite } from '../utils/units';
+import { array, number, object, optional, parseWith, string } from '../utils/schema';
+import type { Schema } from '../utils/schema';
+
+const EC_COLLECTIONS_URL = 'https://api.weather.gc.ca/collections';
+
+/** Half-width (degrees) of the box searched for climate stations. */
+const STATION_SEARCH_DEGREES = 0.5;
+
+/** Hourly observations only stand in for a missing daily record when most of the day was reported. */
+const MIN_HOURS_FOR_DAY = 20;
+
+type HistoryUnits = Pick<UnitPreferences, 'temperature' | 'precipitation'>;
+
+/** A day's observations in °C and mm, before unit conversion. */
+type ObservedDay = Omit<HistoryDay, 'date'>;
+
+interface EcPointGeometry {
+  type?: string;
+  /** `[lon, lat]`. */
+  coordinates?: number[];
+}
+
+interface EcClimateDailyFeature {
+  geometry?: EcPointGeometry | null;
+  properties?: {
+    CLIMATE_IDENTIFIER?: string;
+    STATION_NAME?: string;
+    /** `YYYY-MM-DD 00:00:00`, local standard time. */
+    LOCAL_DATE?: string;
+    MAX_TEMPERATURE?: number | null;
+    MIN_TEMPERATURE?: number | null;
+    /** Millimetres, rain plus snow water equivalent. */
+    TOTAL_PRECIPITATION?: number | null;
+  };
+}
+
+interface EcClimateHourlyFeature {
+  properties?: {
+    CLIMATE_IDENTIFIER?: string;
+    /** `YYYY-MM-DD HH:mm:ss`, local standard time. */
+    LOCAL_DATE?: string;
+    TEMP?: number | null;
+    /** Millimetres in the hour. */
+    PRECIP_AMOUNT?: number | null;
+  };
+}
+
+/** One feature per station, month and normal element. */
+interface EcClimateNormalFeature {
+  geometry?: EcPointGeometry | null;
+  properties?: {
+    CLIMATE_IDENTIFIER?: string;
+    STATION_NAME?: string;
+    /** 1–12, or 13 for the annual value. */
+    MONTH?: number;
+    VALUE?: number | null;
+    /** e.g. `Daily Maximum (°C)`, `Precipitation (mm)`. */
+    E_NORMAL_ELEMENT_NAME?: string;
+  };
+}
+
+interface EcFeatureCollection<F> {
+  features?: F[];
+}
+
+const climateDailySchema: Schema<EcFeatureCollection<EcClimateDailyFeature>> = object({
+  features: array(object({ properties: object({ CLIMATE_IDENTIFIER: string(), LOCAL_DATE: string() }) })),
+});
+
+const climateHourlySchema: Schema<EcFeatureCollection<EcClimateHourlyFeature>> = object({
+  features: array(object({ properties: object({ LOCAL_DATE: string() }) })),
+});
+
+const climateNormalsSchema: Schema<EcFeatureCollection<EcClimateNormalFeature>> = object({
+  features: array(
+    object({
+      properties: object({
+        CLIMATE_IDENTIFIER: string(),
+        MONTH: number(),
+        E_NORMAL_ELEMENT_NAME: optional(string()),
+      }),
+    }),
+  ),
+});
+
+/**
+ * Observed highs, lows and precipitation for the `days` days before today at
+ * the nearest reporting climate station, with the month's climate normals.
+ * Days missing from the daily archive (usually yesterday) are filled from the
+ * station's hourly observations when enough hours were reported.
+ */
+export async function getEcWeatherHistory(
+  lat: number,
+  lon: number,
+  days: number,
+  units: HistoryUnits,
+  context: RequestContext,
+): Promise<WeatherHistoryResponse> {
+  const today = localDateAt(Date.now(), lon);
+  const dates = Array.from({ length: days }, (_, index) => addDays(today, index - days));
+  const first = dates[0] ?? today;
+  const last = dates[dates.length - 1] ?? today;
+
+  // Normals are context for the observations; the endpoint still answers without them.
+  const [daily, normals] = await Promise.all([
+    fetchEcCollection('climate-daily', climateDailySchema, 'climate daily', context, {
+      bbox: searchBox(lat, lon),
+      datetime: `${first}/${last}`,
+      // Newest first, so a truncated page drops the oldest days; days are matched by date, not order.
+      sortby: '-LOCAL_DATE',
+    }),
+    getEcClimateNormals(lat, lon, Number(today.slice(5, 7)), units, context).catch(() => null),
+  ]);
+
+  const nearest = nearestDailyStation(daily.features ?? [], lat, lon);
+  const observed = new Map<string, ObservedDay>();
+  for (const feature of nearest?.features ?? []) {
+    const properties = feature.properties ?? {};
+    observed.set((properties.LOCAL_DATE ?? '').slice(0, 10), {
+      high: toFinite(properties.MAX_TEMPERATURE),
+      low: toFinite(properties.MIN_TEMPERATURE),
+      precipitation: toFinite(properties.TOTAL_PRECIPITATION),
+    });
+  }
+
+  const missing = dates.filter((date) => {
+    const day = observed.get(date);
+    return !day || (day.high === null && day.low === null);
+  });
+  if (nearest && missing.length > 0) {
+    const hourly = await fetchHourlyDays(nearest.station.id, missing, context).catch(
+      () => new Map<string, ObservedDay>(),
+    );
+    for (const [date, day] of hourly) {
+      observed.set(date, day);
+    }
+  }
+
+  return {
+    days: dates.map((date) => {
+      const day = observed.get(date);
+      return {
+        date,
+        high: convertReported(day?.high ?? null, units.temperature, convertTemp),
+        low: convertReported(day?.low ?? null, units.temperature, convertTemp),
+        precipitation: convertReported(day?.precipitation ?? null, units.precipitation, convertPrecip),
+      };
+    }),
+    station: nearest?.station ?? null,
+    normals,
+    units,
+    updatedAt: new Date().toISOString(),
+    attribution: 'Environment and Climate Change Canada',
+  };
+}
+
+/** Normals for `month` at the nearest station publishing daily temperature normals. */
+async function getEcClimateNormals(
+  lat: number,
+  lon: number,
+  month: number,
+  units: HistoryUnits,
+  context: RequestContext,
+): Promise<ClimateNormals | null> {
+  const collection = await fetchEcCollection('climate-normals', climateNormalsSchema, 'climate normals', context, {
+    bbox: searchBox(lat, lon),
+    MONTH: String(month),
+  });
+
+  const stations = new Map<string, { station: ClimateStation } & ObservedDay>();
+  for (const feature of collection.features ?? []) {
+    const properties = feature.properties ?? {};
+    const id = properties.CLIMATE_IDENTIFIER;
+    const position = toPosition(feature.geometry);
+    if (!id || !position || properties.MONTH !== month) {
+      continue;
+    }
+
+    const entry = stations.get(id) ?? {
+      station: { id, name: properties.STATION_NAME?.trim() || id, distanceKm: distanceFrom(lat, lon, position) },
+      high: null,
+      low: null,
+      precipitation: null,
+    };
+    const element = properties.E_NORMAL_ELEMENT_NAME?.trim().toLowerCase() ?? '';
+    const value = toFinite(properties.VALUE);
+    if (element.startsWith('daily maximum')) {
+      entry.high = value;
+    } else if (element.startsWith('daily minimum')) {
+      entry.low = value;
+    } else if (element.startsWith('precipitation')) {
+      entry.precipitation = value;
+    }
+    stations.set(id, entry);
+  }
+
+  const nearest = Array.from(stations.values())
+    .filter((entry) => entry.high !== null || entry.low !== null)
+    .sort((a, b) => a.station.distanceKm - b.station.distanceKm)[0];
+  if (!nearest) {
+    return null;
+  }
+
+  return {
+    month,
+    high: convertReported(nearest.high, units.temperature, convertTemp),
+    low: convertReported(nearest.low, units.temperature, convertTemp),
+    precipitation: convertReported(nearest.precipitation, units.precipitation, convertPrecip),
+    station: nearest.station,
+  };
+}
+
+/** The closest station that reported a temperature on any day in the range. */
+function nearestDailyStation(
+  features: EcClimateDailyFeature[],
+  lat: number,
+  lon: number,
+): { station: ClimateStation; features: EcClimateDailyFeature[] } | null {
+  const stations = new Map<string, { station: ClimateStation; features: EcClimateDailyFeature[] }>();
+
+  for (const feature of features) {
+    const properties = feature.properties ?? {};
+    const id = properties.CLIMATE_IDENTIFIER;
+    const position = toPosition(feature.geometry);
+    if (!id || !position) {
+      continue;
+    }
+
+    const entry = stations.get(id) ?? {
+      station: { id, name: properties.STATION_NAME?.trim() || id, distanceKm: distanceFrom(lat, lon, position) },
+      features: [],
+    };
+    entry.features.push(feature);
+    stations.set(id, entry);
+  }
+
+  return (
+    Array.from(stations.values())
+      .filter((entry) =>
+        entry.features.some(
+          (feature) =>
+            toFinite(feature.properties?.MAX_TEMPERATURE) !== null || toFinite(feature.properties?.MIN_TEMPERATURE) !== null,
+        ),
+      )
+      .sort((a, b) => a.station.distanceKm - b.station.distanceKm)[0] ?? null
+  );
+}
+
+/** Daily extremes and totals rebuilt from one station's hourly observations. */
+async function fetchHourlyDays(
+  stationId: string,
+  dates: string[],
+  context: RequestContext,
+): Promise<Map<string, ObservedDay>> {
+  const sorted = [...dates].sort();
+  // Pad a day either side; the server filters on UTC while LOCAL_DATE is what groups the hours.
+  const collection = await fetchEcCollection('climate-hourly', climateHourlySchema, 'climate hourly', context, {
+    CLIMATE_IDENTIFIER: stationId,
+    datetime: `${addDays(sorted[0] as string, -1)}/${addDays(sorted[sorted.length - 1] as string, 1)}`,
+    sortby: '-LOCAL_DATE',
+  });
+
+  const wanted = new Set(dates);
+  const hours = new Map<string, { temps: number[]; precip: number[] }>();
+  for (const feature of collection.features ?? []) {
+    const date = (feature.properties?.LOCAL_DATE ?? '').slice(0, 10);
+    if (!wanted.has(date)) {
+      continue;
+    }
+
+    const entry = hours.get(date) ?? { temps: [], precip: [] };
+    const temp = toFinite(feature.properties?.TEMP);
+    const precip = toFinite(feature.properties?.PRECIP_AMOUNT);
+    if (temp !== null) {
+      entry.temps.push(temp);
+    }
+    if (precip !== null) {
+      entry.precip.push(precip);
+    }
+    hours.set(date, entry);
+  }
+
+  const result = new Map<string, ObservedDay>();
+  for (const [date, { temps, precip }] of hours) {
+    if (temps.length < MIN_HOURS_FOR_DAY) {
+      continue;
+    }
+
+    result.set(date, {
+      high: Math.max(...temps),
+      low: Math.min(...temps),
+      precipitation: precip.length > 0 ? precip.reduce((sum, value) => sum + value, 0) : null,
+    });
+  }
+
+  return result;
+}
+
+async function fetchEcCollection<T>(
+  collection: string,
+  schema: Schema<T>,
+  product: string,
+  context: RequestContext,
+  params: Record<string, string>,
+): Promise<T> {
+  const url = new URL(`${EC_COLLECTIONS_URL}/${collection}/items`);
+  url.searchParams.set('f', 'json');
+  url.searchParams.set('limit', '1000');
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, value);
+  }
+
+  const response = await trackedFetch(context, url.toString(), {
+    headers: {
+      'user-agent': 'LiivSky2-Worker/0.1 (+https://liivsky2.pages.dev)',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Environment Canada ${product} request failed with status ${response.status}`);
+  }
+
+  return parseWith(schema, await response.json(), `Environment Canada ${product}`);
+}
+
+function searchBox(lat: number, lon: number): string {
+  return [
+    lon - STATION_SEARCH_DEGREES,
+    lat - STATION_SEARCH_DEGREES,
+    lon + STATION_SEARCH_DEGREES,
+    lat + STATION_SEARCH_DEGREES,
+  ].join(',');
+}
+
+function toPosition(geometry: EcPointGeometry | null | undefined): { lat: number; lon: number } | null {
+  const [lon, lat] = geometry?.coordinates ?? [];
+  return typeof lat === 'number' && typeof lon === 'number' ? { lat, lon } : null;
+}
+
+function distanceFrom(lat: number, lon: number, position: { lat: number; lon: number }): number {
+  return Math.round(haversineKm(lat, lon, position.lat, position.lon) * 10) / 10;
+}
+
+/** Calendar date (`YYYY-MM-DD`) at `time` in solar local time at `lon`. */
+function localDateAt(time: number, lon: number): string {
+  return new Date(time + (lon / 15) * 3600_000).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400_000).toISOString().slice(0, 10);
+}
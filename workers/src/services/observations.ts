@@ -0,0 +1,228 @@
+import type { NearbyStationsResponse, StationObservation, UnitPreferences } from '../types';
+import { haversineKm, toCompass } from '../utils/geo';
+import { trackedFetch } from '../utils/requestContext';
+import type { RequestContext } from '../utils/requestContext';
+import { array, nullable, number, object, optional, parseWith, string } from '../utils/schema';
+import type { Schema } from '../utils/schema';
+import type { PressureObservation } from '../utils/pressure';
+import { convertDistance, convertPressure, convertReported, convertTemp, convertWind, toFinite } from '../utils/units';
+
+const EC_SWOB_ITEMS_URL = 'https://api.weather.gc.ca/collections/swob-realtime/items';
+
+/** Most stations report hourly; older observations are not "live". */
+const OBSERVATION_WINDOW_HOURS = 2;
+
+const MAX_STATIONS = 5;
+
+/** A day of readings covers the sparkline and the three-hour tendency. */
+const PRESSURE_WINDOW_HOURS = 24;
+
+/** Pressure from a station farther out than this no longer describes the location. */
+const PRESSURE_STATION_RADIUS_KM = 25;
+
+/**
+ * One SWOB-ML observation. Element names carry the averaging window; units
+ * are fixed by the SWOB spec (°C, %, km/h, degrees, hPa, km).
+ */
+interface SwobFeature {
+  geometry?: { coordinates?: number[] } | null;
+  properties?: {
+    'msc_id-value'?: string;
+    'stn_nam-value'?: string;
+    /** ISO 8601, UTC. */
+    'date_tm-value'?: string;
+    air_temp?: number | null;
+    dwpt_temp?: number | null;
+    rel_hum?: number | null;
+    avg_wnd_spd_10m_pst10mts?: number | null;
+    avg_wnd_dir_10m_pst10mts?: number | null;
+    max_wnd_spd_10m_pst10mts?: number | null;
+    mslp?: number | null;
+    vis?: number | null;
+  };
+}
+
+interface SwobFeatureCollection {
+  features?: SwobFeature[];
+}
+
+/** Coordinates and time are what station selection cannot work without. */
+const swobCollectionSchema: Schema<SwobFeatureCollection> = object({
+  features: array(
+    object({
+      geometry: optional(nullable(object({ coordinates: array(number()) }))),
+      properties: object({ 'msc_id-value': string(), 'date_tm-value': string() }),
+    }),
+  ),
+});
+
+/**
+ * Latest observation at each of the nearest stations within `radiusKm`,
+ * nearest first. A station's newest report in the window wins.
+ */
+export async function getNearbyStationObservations(
+  lat: number,
+  lon: number,
+  radiusKm: number,
+  units: UnitPreferences,
+  context: RequestContext,
+): Promise<NearbyStationsResponse> {
+  const now = Date.now();
+  const collection = await fetchSwob(
+    {
+      bbox: searchBox(lat, lon, radiusKm),
+      datetime: timeWindow(now, OBSERVATION_WINDOW_HOURS),
+      // Newest first, so a truncated page still holds every station's latest report.
+      sortby: '-date_tm-value',
+    },
+    context,
+  );
+
+  const latest = new Map<string, { feature: SwobFeature; time: number; distanceKm: number }>();
+  for (const feature of collection.features ?? []) {
+    const id = feature.properties?.['msc_id-value'];
+    const [stationLon, stationLat] = feature.geometry?.coordinates ?? [];
+    const time = Date.parse(feature.properties?.['date_tm-value'] ?? '');
+    if (!id || typeof stationLat !== 'number' || typeof stationLon !== 'number' || !Number.isFinite(time)) {
+      continue;
+    }
+
+    const distanceKm = haversineKm(lat, lon, stationLat, stationLon);
+    const existing = latest.get(id);
+    if (distanceKm <= radiusKm && (!existing || time > existing.time)) {
+      latest.set(id, { feature, time, distanceKm });
+    }
+  }
+
+  const stations = Array.from(latest.entries())
+    .sort(([, a], [, b]) => a.distanceKm - b.distanceKm)
+    .slice(0, MAX_STATIONS)
+    .map(([id, { feature, time, distanceKm }]) => toStationObservation(id, feature, time, distanceKm, now, units));
+
+  return {
+    stations,
+    units,
+    updatedAt: new Date(now).toISOString(),
+    attribution: 'Environment and Climate Change Canada',
+  };
+}
+
+/**
+ * The past day's mean sea-level pressure at the nearest station that
+ * currently reports it, oldest first. Empty when no station is close enough.
+ */
+export async function getNearestStationPressure(
+  lat: number,
+  lon: number,
+  context: RequestContext,
+): Promise<PressureObservation[]> {
+  const now = Date.now();
+  const recent = await fetchSwob(
+    {
+      bbox: searchBox(lat, lon, PRESSURE_STATION_RADIUS_KM),
+      datetime: timeWindow(now, OBSERVATION_WINDOW_HOURS),
+      // Newest first, so a truncated page still holds every station's latest report.
+      sortby: '-date_tm-value',
+    },
+    context,
+  );
+
+  let nearest: { id: string; distanceKm: number } | null = null;
+  for (const feature of recent.features ?? []) {
+    const id = feature.properties?.['msc_id-value'];
+    const [stationLon, stationLat] = feature.geometry?.coordinates ?? [];
+    const reportsPressure = toFinite(feature.properties?.mslp) !== null;
+    if (!id || !reportsPressure || typeof stationLat !== 'number' || typeof stationLon !== 'number') {
+      continue;
+    }
+
+    const distanceKm = haversineKm(lat, lon, stationLat, stationLon);
+    if (distanceKm <= PRESSURE_STATION_RADIUS_KM && (!nearest || distanceKm < nearest.distanceKm)) {
+      nearest = { id, distanceKm };
+    }
+  }
+
+  if (!nearest) {
+    return [];
+  }
+
+  const history = await fetchSwob(
+    {
+      'msc_id-value': nearest.id,
+      datetime: timeWindow(now, PRESSURE_WINDOW_HOURS),
+      // Newest first, so a truncated page drops the oldest readings; summarizePressure re-sorts.
+      sortby: '-date_tm-value',
+    },
+    context,
+  );
+
+  return (history.features ?? []).flatMap((feature) => {
+    const time = Date.parse(feature.properties?.['date_tm-value'] ?? '');
+    const pressureHpa = toFinite(feature.properties?.mslp);
+    return Number.isFinite(time) && pressureHpa !== null ? [{ time, kpa: pressureHpa / 10 }] : [];
+  });
+}
+
+async function fetchSwob(params: Record<string, string>, context: RequestContext): Promise<SwobFeatureCollection> {
+  const url = new URL(EC_SWOB_ITEMS_URL);
+  url.searchParams.set('f', 'json');
+  url.searchParams.set('limit', '1000');
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, value);
+  }
+
+  const response = await trackedFetch(context, url.toString(), {
+    headers: {
+      'user-agent': 'LiivSky2-Worker/0.1 (+https://liivsky2.pages.dev)',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Environment Canada observations request failed with status ${response.status}`);
+  }
+
+  return parseWith(swobCollectionSchema, await response.json(), 'Environment Canada observations');
+}
+
+function searchBox(lat: number, lon: number, radiusKm: number): string {
+  const latSpan = radiusKm / 111;
+  const lonSpan = radiusKm / (111 * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+  return [lon - lonSpan, lat - latSpan, lon + lonSpan, lat + latSpan].join(',');
+}
+
+function timeWindow(now: number, hours: number): string {
+  return `${new Date(now - hours * 3600_000).toISOString()}/${new Date(now).toISOString()}`;
+}
+
+function toStationObservation(
+  id: string,
+  feature: SwobFeature,
+  time: number,
+  distanceKm: number,
+  now: number,
+  units: UnitPreferences,
+): StationObservation {
+  const properties = feature.properties ?? {};
+  const [lon = 0, lat = 0] = feature.geometry?.coordinates ?? [];
+  const humidity = toFinite(properties.rel_hum);
+  const windDirection = toFinite(properties.avg_wnd_dir_10m_pst10mts);
+  const pressureHpa = toFinite(properties.mslp);
+
+  return {
+    id,
+    name: properties['stn_nam-value']?.trim() || id,
+    lat,
+    lon,
+    distance: convertDistance(distanceKm, units.distance),
+    observedAt: new Date(time).toISOString(),
+    ageMinutes: Math.max(0, Math.round((now - time) / 60_000)),
+    temperature: convertReported(toFinite(properties.air_temp), units.temperature, convertTemp),
+    dewPoint: convertReported(toFinite(properties.dwpt_temp), units.temperature, convertTemp),
+    humidity: humidity === null ? null : Math.round(Math.min(Math.max(humidity, 0), 100)),
+    windSpeed: convertReported(toFinite(properties.avg_wnd_spd_10m_pst10mts), units.wind, convertWind),
+    windGust: convertReported(toFinite(properties.max_wnd_spd_10m_pst10mts), units.wind, convertWind),
+    windDirection: windDirection === null ? undefined : toCompass(windDirection),
+    pressure: convertReported(pressureHpa === null ? null : pressureHpa / 10, units.pressure, convertPressure),
+    visibility: convertReported(toFinite(properties.vis), units.distance, convertDistance),
+  };
+}
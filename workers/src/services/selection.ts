@@ -0,0 +1,77 @@
+import type { HomeWeatherRequest, WeatherProviderAdapter } from '../providers/types';
+import type { HomeWeatherResponse, ProviderAttempt } from '../types';
+import { haversineKm } from '../utils/geo';
+import { SchemaError } from '../utils/schema';
+
+export const AUTO_PROVIDER = 'auto';
+
+/**
+ * Providers that snap to forecast sites (EC citypages) only count as covering
+ * the point when a site is at least this close; farther means a different city.
+ */
+export const MAX_SITE_DISTANCE_KM = 25;
+
+/** Below this the provider is treated as answering for the point itself. */
+const SAME_LOCATION_KM = 1;
+
+/**
+ * Tries each adapter in order and returns the first answer, annotated with a
+ * `selection` block. Callers pass only adapters whose coverage contains the
+ * point; upstream errors and too-distant forecast sites fall through to the next.
+ * When every adapter fails, a `SchemaError` from any of them is rethrown so the
+ * router still answers `upstream_schema_error`.
+ */
+export async function getAutoHomeWeather(
+  request: HomeWeatherRequest,
+  adapters: WeatherProviderAdapter[],
+): Promise<HomeWeatherResponse> {
+  const attempts: ProviderAttempt[] = [];
+  let schemaError: SchemaError | null = null;
+
+  for (const adapter of adapters) {
+    try {
+      const data = await adapter.getHomeWeather({ ...request, maxDistanceKm: MAX_SITE_DISTANCE_KM });
+      attempts.push({ provider: adapter.id, ok: true });
+
+      const distanceKm = haversineKm(request.lat, request.lon, data.location.lat, data.location.lon);
+      return {
+        ...data,
+        selection: {
+          provider: adapter.id,
+          reason: describeChoice(adapter, data, distanceKm, attempts),
+          distanceKm: Number(distanceKm.toFixed(1)),
+          attempts,
+        },
+      };
+    } catch (error) {
+      if (error instanceof SchemaError) {
+        schemaError ??= error;
+      }
+
+      const message = error instanceof Error ? error.message : 'Provider request failed.';
+      attempts.push({ provider: adapter.id, ok: false, error: message });
+    }
+  }
+
+  if (schemaError) {
+    throw schemaError;
+  }
+
+  const details = attempts.map((attempt) => `${attempt.provider}: ${attempt.error ?? 'failed'}`).join('; ');
+  throw new Error(`All providers failed. ${details}`);
+}
+
+function describeChoice(
+  adapter: WeatherProviderAdapter,
+  data: HomeWeatherResponse,
+  distanceKm: number,
+  attempts: ProviderAttempt[],
+): string {
+  const base =
+    distanceKm > SAME_LOCATION_KM
+      ? `${adapter.displayName} forecast location ${data.location.name} is ${distanceKm.toFixed(1)} km away`
+      : `Location is inside ${adapter.displayName} coverage`;
+
+  const failed = attempts.filter((attempt) => !attempt.ok).map((attempt) => attempt.provider);
+  return failed.length > 0 ? `${base}; ${failed.join(', ')} failed first` : base;
+}
@@ -1,5 +1,57 @@
-export type WeatherProvider = 'ec' | 'twn';
+/** Provider identifier, as declared by a registered adapter (e.g. `ec`, `twn`). */
+export type WeatherProvider = string;
 export type TemperatureUnit = 'C' | 'F';
+export type WindUnit = 'kmh' | 'mph' | 'ms' | 'kn';
+export type PressureUnit = 'kpa' | 'hpa' | 'inhg';
+export type DistanceUnit = 'km' | 'mi';
+export type PrecipUnit = 'mm' | 'in';
+
+/** Units every quantity in a home-weather response is expressed in. */
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  wind: WindUnit;
+  pressure: PressureUnit;
+  /** Visibility and the distance to the observing station. */
+  distance: DistanceUnit;
+  precipitation: PrecipUnit;
+}
+/** Display language for provider text (conditions, forecasts, alerts, place names). */
+export type Language = 'en' | 'fr';
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export type ProviderCapability =
+  | 'current'
+  | 'hourly'
+  | 'daily'
+  | 'alerts'
+  | 'sunriseSunset'
+  | 'uvIndex'
+  | 'visibility'
+  | 'windDirection'
+  | 'windGust'
+  | 'dewPoint';
+
+/** A selectable mode that is not a single provider (e.g. `blend`). */
+export interface ProviderMode {
+  id: string;
+  name: string;
+  shortName: string;
+}
+
+export interface ProviderSummary {
+  id: WeatherProvider;
+  name: string;
+  shortName: string;
+  coverage: BoundingBox;
+  cacheTtlSeconds: number;
+  capabilities: ProviderCapability[];
+}
 
 export interface LocationSummary {
   name: string;
@@ -7,41 +59,150 @@ export interface LocationSummary {
   lon: number;
 }
 
+/**
+ * Numeric fields are `null` when the provider did not report them; providers
+ * never substitute a default.
+ */
 export interface CurrentConditions {
-  temperature: number;
-  feelsLike: number;
+  temperature: number | null;
+  feelsLike: number | null;
   condition: string;
   icon: string;
-  humidity: number;
-  windKph: number;
-  pressureKpa: number;
+  humidity: number | null;
+  /** Wind speed in the requested wind unit. */
+  windSpeed: number | null;
+  /** 16-point compass direction the wind is blowing from (e.g. `NW`). */
+  windDirection?: string;
+  windGust?: number;
+  /** Dew point in the requested temperature unit. */
+  dewPoint?: number;
+  /** Pressure in the requested pressure unit. */
+  pressure: number | null;
   pressureTrend: 'rising' | 'falling' | 'steady';
-  visibilityKm: number;
-  uvIndex: number;
+  /** Observed three-hour pressure change in the requested pressure unit. */
+  pressureTendency: number | null;
+  /** Hourly pressure over the past 24 hours, oldest first; empty when the provider keeps no history. */
+  pressureHistory: PressureReading[];
+  /** Visibility in the requested distance unit. */
+  visibility: number | null;
+  uvIndex: number | null;
   sunrise?: string;
   sunset?: string;
+  /**
+   * Present for `provider=blend`. Only the temperatures are averaged; the other
+   * current fields are taken from a single provider, so they carry no stat.
+   */
+  blend?: {
+    temperature: BlendStat;
+    feelsLike: BlendStat;
+  };
+}
+
+export interface PressureReading {
+  time: string;
+  /** Pressure in the requested pressure unit. */
+  pressure: number;
 }
 
+/** Hourly fields follow the same `null`-when-unreported rule as `CurrentConditions`. */
 export interface HourlyItem {
   time: string;
-  temp: number;
+  temp: number | null;
+  feelsLike: number | null;
   icon: string;
-  precipChance: number;
+  precipChance: number | null;
+  /** Liquid-equivalent precipitation for the hour in the requested precipitation unit. */
+  precipAmount: number | null;
+  humidity: number | null;
+  /** Wind speed in the requested wind unit. */
+  windSpeed: number | null;
+  windGust: number | null;
+  /** 16-point compass direction the wind is blowing from (e.g. `NW`). */
+  windDirection?: string;
+  /** Present for `provider=blend`: one stat per blended numeric field. */
+  blend?: {
+    temp: BlendStat;
+    feelsLike: BlendStat;
+    precipChance: BlendStat;
+    precipAmount: BlendStat;
+    humidity: BlendStat;
+    windSpeed: BlendStat;
+    windGust: BlendStat;
+  };
 }
 
 export interface DailyItem {
-  day: string;
-  high: number;
-  low: number;
+  /** Local calendar date at the forecast point, `YYYY-MM-DD`. */
+  date: string;
+  high: number | null;
+  low: number | null;
   icon: string;
   daySummary?: string;
   nightSummary?: string;
+  /** Highest chance of precipitation across the day and night, in percent. */
+  precipChance: number | null;
+  /** Expected rain in the requested precipitation unit. */
+  rainAmount: number | null;
+  /** Expected snowfall depth in the requested precipitation unit. */
+  snowAmount: number | null;
+  /** Strongest sustained wind in the requested wind unit. */
+  windSpeed: number | null;
+  windGust: number | null;
+  /** 16-point compass direction of the strongest wind. */
+  windDirection?: string;
+  /** Peak UV index. */
+  uvIndex: number | null;
+  /** Present for `provider=blend`: one stat per blended numeric field. */
+  blend?: {
+    high: BlendStat;
+    low: BlendStat;
+    precipChance: BlendStat;
+    rainAmount: BlendStat;
+    snowAmount: BlendStat;
+    windSpeed: BlendStat;
+    windGust: BlendStat;
+    uvIndex: BlendStat;
+  };
 }
 
+/** How a blended value was produced. */
+export interface BlendStat {
+  /** Providers whose value contributed. */
+  providers: WeatherProvider[];
+  /** Max minus min of the contributing values; 0 when only one provider answered. */
+  spread: number;
+}
+
+/** Per-provider outcome of a blended or auto-selected request. */
+export interface ProviderAttempt {
+  provider: WeatherProvider;
+  ok: boolean;
+  error?: string;
+}
+
+export type AlertType = 'warning' | 'watch' | 'advisory' | 'statement';
+
+/** CAP severity scale, lower-cased. */
+export type AlertSeverity = 'extreme' | 'severe' | 'moderate' | 'minor' | 'unknown';
+
+/** GeoJSON geometry for an alert's affected area, `[lon, lat]` positions. */
+export type AlertGeometry =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
 export interface AlertItem {
+  /** Upstream identifier, stable across refreshes of the same alert. */
+  id: string;
   title: string;
-  severity?: string;
+  type: AlertType;
+  severity: AlertSeverity;
   description?: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  /** Names of the forecast zones the alert covers. */
+  areas: string[];
+  /** Omitted from home-weather responses; returned by `/api/v1/alerts`. */
+  geometry?: AlertGeometry;
 }
 
 export interface HomeWeatherResponse {
@@ -52,6 +213,132 @@ export interface HomeWeatherResponse {
   daily: DailyItem[];
   alerts: AlertItem[];
   updatedAt: string;
+  /** Units the response is expressed in, echoing the request. */
+  units: UnitPreferences;
+  /** Where the data came from and how far it is from the requested point. */
+  source: SourceMetadata;
+  /** Present for `provider=blend`: which upstreams answered. */
+  sources?: ProviderAttempt[];
+  /** Present for `provider=auto`: which provider answered and why it was chosen. */
+  selection?: ProviderSelection;
+}
+
+export interface SourceMetadata {
+  /** Provider's forecast site or grid cell (EC citypage id, NWS gridpoint). */
+  siteId?: string;
+  /** Observing station behind current conditions, when the provider names one. */
+  stationId?: string;
+  stationName?: string;
+  /**
+   * Distance from the requested point to the observing station, or to the
+   * forecast site when no station is named, in the requested distance unit.
+   * 0 when the provider answers for the point itself.
+   */
+  distance: number;
+  /** When current conditions were observed (or modelled); separate from the forecast issue time. */
+  observedAt?: string;
+  forecastIssuedAt?: string;
+  /** Canonical credit line required or requested by the upstream. */
+  attribution: string;
+}
+
+export interface ProviderSelection {
+  provider: WeatherProvider;
+  reason: string;
+  /** Distance from the requested point to the provider's forecast location. */
+  distanceKm: number;
+  /** Providers tried in order, including the one that answered. */
+  attempts: ProviderAttempt[];
+}
+
+/** One point of a `/weather/batch` response: the home response or why it failed. */
+export type BatchWeatherItem =
+  | { lat: number; lon: number; ok: true; data: HomeWeatherResponse }
+  | { lat: number; lon: number; ok: false; error: ErrorEnvelope['error'] };
+
+export interface BatchWeatherResponse {
+  /** Same order as the requested points. */
+  results: BatchWeatherItem[];
+  updatedAt: string;
+}
+
+/**
+ * Latest observation at one station. Quantities are in the requested units
+ * and `null` when the station did not report them.
+ */
+export interface StationObservation {
+  /** MSC station identifier. */
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  /** Distance from the requested point, in the requested distance unit. */
+  distance: number;
+  observedAt: string;
+  /** Minutes between the observation and the response. */
+  ageMinutes: number;
+  temperature: number | null;
+  dewPoint: number | null;
+  humidity: number | null;
+  windSpeed: number | null;
+  windGust: number | null;
+  /** 16-point compass direction the wind is blowing from. */
+  windDirection?: string;
+  /** Mean sea-level pressure. */
+  pressure: number | null;
+  visibility: number | null;
+}
+
+export interface NearbyStationsResponse {
+  /** Nearest first. */
+  stations: StationObservation[];
+  units: UnitPreferences;
+  updatedAt: string;
+  attribution: string;
+}
+
+/** One observed day; `null` when the station did not report the value. */
+export interface HistoryDay {
+  /** Local calendar date at the station, `YYYY-MM-DD`. */
+  date: string;
+  high: number | null;
+  low: number | null;
+  /** Rain plus the water equivalent of snow. */
+  precipitation: number | null;
+}
+
+/** Climate station behind a history response. */
+export interface ClimateStation {
+  /** Environment Canada climate identifier (e.g. `6106001`). */
+  id: string;
+  name: string;
+  /** Distance from the requested point; kilometres, as a diagnostic. */
+  distanceKm: number;
+}
+
+/**
+ * Monthly climate normals for the month of the requested date. EC publishes
+ * normals per month, so `high` and `low` are the month's mean daily extremes.
+ */
+export interface ClimateNormals {
+  month: number;
+  high: number | null;
+  low: number | null;
+  /** Mean total precipitation for the month. */
+  precipitation: number | null;
+  station: ClimateStation;
+}
+
+export interface WeatherHistoryResponse {
+  /** Oldest first, ending yesterday (local date at the requested point). */
+  days: HistoryDay[];
+  /** Station the days were observed at; `null` when no station nearby reported. */
+  station: ClimateStation | null;
+  /** Normals for today's month; `null` when no normals station is nearby. */
+  normals: ClimateNormals | null;
+  units: { temperature: TemperatureUnit; precipitation: PrecipUnit };
+  updatedAt: string;
+  attribution: string;
 }
 
 export interface GeocodeResult {
@@ -67,11 +354,102 @@ export interface ErrorEnvelope {
     code: string;
     message: string;
     details?: string;
+    /** For `upstream_schema_error`: paths of required fields the upstream left out. */
+    missingFields?: string[];
+  };
+}
+
+// ======== 7Timer ASTRO (proxied as-is by /api/v1/darksky) ========
+
+/**
+ * Cloud cover scale (1–9) from the 7Timer API.
+ * 1 = 0–6%, 9 = 94–100%.
+ */
+export type CloudCoverValue = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+/**
+ * Astronomical seeing scale (1–8).
+ * 1 = <0.5" (excellent), 8 = >2.5" (poor).
+ */
+export type SeeingValue = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+/**
+ * Atmospheric transparency scale (1–8).
+ * 1 = <0.3 mag/airmass (excellent), 8 = >1 mag/airmass (poor).
+ */
+export type TransparencyValue = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+/** Lifted index values from the 7Timer API */
+export type LiftedIndexValue = -10 | -6 | -4 | -1 | 2 | 6 | 10 | 15;
+
+/** 10m wind speed scale (1–8) */
+export type WindSpeedValue = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+/** Precipitation type from the 7Timer API */
+export type PrecipType = 'snow' | 'rain' | 'frzr' | 'icep' | 'none';
+
+/** A single 3-hourly forecast timestep from the ASTRO product */
+export interface AstroTimestep {
+  /** Hours offset from forecast init time */
+  timepoint: number;
+  /** Cloud cover (1–9 scale) */
+  cloudcover: CloudCoverValue;
+  /** Astronomical seeing (1–8 scale) */
+  seeing: SeeingValue;
+  /** Atmospheric transparency (1–8 scale) */
+  transparency: TransparencyValue;
+  /** Atmospheric instability / lifted index */
+  lifted_index: LiftedIndexValue;
+  /** 2m relative humidity (-4 to 16 scale) */
+  rh2m: number;
+  /** 10m wind direction */
+  wind10m: {
+    direction: string;
+    speed: WindSpeedValue;
   };
+  /** 2m temperature in °C */
+  temp2m: number;
+  /** Precipitation type */
+  prec_type: PrecipType;
+}
+
+/** Raw 7Timer ASTRO API response */
+export interface AstroApiResponse {
+  /** Forecast product identifier */
+  product: string;
+  /** Forecast initialization time (YYYYMMDDHH format) */
+  init: string;
+  /** Array of 3-hourly forecast data */
+  dataseries: AstroTimestep[];
+}
+
+// ======== Satellite visual passes (N2YO) ========
+
+/** A single visible satellite pass. */
+export interface SatellitePass {
+  /** Satellite name (e.g. "ISS (ZARYA)") */
+  satName: string;
+  /** NORAD catalog ID */
+  satId: number;
+  /** Pass start UTC timestamp (seconds) */
+  startUTC: number;
+  /** Max elevation in degrees above horizon */
+  maxEl: number;
+  /** Duration of visibility in seconds */
+  duration: number;
+  /** Start azimuth label (e.g. "NW") */
+  startAz: string;
+  /** Start compass degrees */
+  startAzCompass: number;
+  /** End azimuth label */
+  endAz: string;
+  /** End compass degrees */
+  endAzCompass: number;
+  /** Apparent magnitude (lower = brighter, e.g. -3.5 for ISS) */
+  mag: number;
 }
 
-export interface Env {
-  CORS_ORIGIN?: string;
-  TWN_API_KEY?: string;
-  N2YO_API_KEY?: string;
+/** Response from our worker satellite passes endpoint. */
+export interface SatellitePassesResponse {
+  passes: SatellitePass[];
 }
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ALERTS_STALE_IF_ERROR_SECONDS, withoutExpired } from '../services/alerts';
+import type { AlertItem } from '../types';
+import { createMemoryCacheStore, createResponseCache } from './cache';
+import type { CachePolicy, ResponseCache } from './cache';
+
+const POLICY: CachePolicy = { freshSeconds: 60, staleSeconds: 120, staleIfErrorSeconds: 600 };
+
+/** A cache over a fresh memory store whose background work can be awaited. */
+function setup(): { cache: ResponseCache; settle: () => Promise<unknown> } {
+  const pending: Promise<unknown>[] = [];
+  const cache = createResponseCache(createMemoryCacheStore(), (promise) => pending.push(promise));
+  return { cache, settle: () => Promise.all(pending.splice(0)) };
+}
+
+describe('createResponseCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-20T16:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves a fresh entry without loading again', async () => {
+    const { cache, settle } = setup();
+    const load = vi.fn(async () => 'first');
+
+    expect(await cache.getOrLoad('key', load, POLICY)).toEqual({ value: 'first', status: 'miss' });
+    await settle();
+    vi.advanceTimersByTime(59_000);
+
+    expect(await cache.getOrLoad('key', load, POLICY)).toEqual({ value: 'first', status: 'hit' });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a stale entry while refreshing it in the background', async () => {
+    const { cache, settle } = setup();
+    await cache.getOrLoad('key', async () => 'first', POLICY);
+    await settle();
+    vi.advanceTimersByTime(90_000);
+
+    const refresh = vi.fn(async () => 'second');
+    expect(await cache.getOrLoad('key', refresh, POLICY)).toEqual({ value: 'first', status: 'stale' });
+    await settle();
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(await cache.getOrLoad('key', refresh, POLICY)).toEqual({ value: 'second', status: 'hit' });
+  });
+
+  it('falls back to an expired entry when the upstream fails, until the fallback window ends', async () => {
+    const { cache, settle } = setup();
+    await cache.getOrLoad('key', async () => 'first', POLICY);
+    await settle();
+    const fail = async (): Promise<string> => {
+      throw new Error('upstream down');
+    };
+
+    vi.advanceTimersByTime(600_000);
+    expect(await cache.getOrLoad('key', fail, POLICY)).toEqual({ value: 'first', status: 'stale-error' });
+
+    vi.advanceTimersByTime(200_000);
+    await expect(cache.getOrLoad('key', fail, POLICY)).rejects.toThrow('upstream down');
+  });
+
+  it('takes the policy from the loaded value', async () => {
+    const { cache, settle } = setup();
+    await cache.getOrLoad('key', async () => ({ ttl: 10 }), (value) => ({ freshSeconds: value.ttl, staleSeconds: 0 }));
+    await settle();
+    vi.advanceTimersByTime(11_000);
+
+    const load = vi.fn(async () => ({ ttl: 10 }));
+    expect((await cache.getOrLoad('key', load, POLICY)).status).toBe('miss');
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets readers drop alerts that expired while the list sat in the cache', async () => {
+    const { cache, settle } = setup();
+    const alert = (id: string, expiresAt: string): AlertItem => ({
+      id,
+      title: id,
+      type: 'warning',
+      severity: 'severe',
+      expiresAt,
+      areas: [],
+    });
+    const policy: CachePolicy = {
+      freshSeconds: 120,
+      staleSeconds: 300,
+      staleIfErrorSeconds: ALERTS_STALE_IF_ERROR_SECONDS,
+    };
+    await cache.getOrLoad(
+      'alerts',
+      async () => [alert('ending', '2024-06-20T16:05:00Z'), alert('ongoing', '2024-06-20T20:00:00Z')],
+      policy,
+    );
+    await settle();
+    vi.advanceTimersByTime(10 * 60_000);
+
+    const failing = async (): Promise<AlertItem[]> => {
+      throw new Error('upstream down');
+    };
+    const { value, status } = await cache.getOrLoad('alerts', failing, policy);
+
+    expect(status).toBe('stale-error');
+    expect(withoutExpired(value).map((item) => item.id)).toEqual(['ongoing']);
+
+    // Past the alert fallback window nothing is served.
+    vi.advanceTimersByTime(ALERTS_STALE_IF_ERROR_SECONDS * 1000);
+    await expect(cache.getOrLoad('alerts', failing, policy)).rejects.toThrow('upstream down');
+  });
+});
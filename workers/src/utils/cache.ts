@@ -0,0 +1,230 @@
+import type { Env } from '../env';
+
+/** A cached value plus what is needed to judge its age. */
+export interface CacheRecord {
+  value: unknown;
+  /** Epoch milliseconds when the value was loaded. */
+  storedAt: number;
+  freshSeconds: number;
+  staleSeconds: number;
+}
+
+/** Backing storage; implementations may drop entries at any time. */
+export interface CacheStore {
+  get: (key: string) => Promise<CacheRecord | null>;
+  put: (key: string, record: CacheRecord, ttlSeconds: number) => Promise<void>;
+}
+
+export interface CachePolicy {
+  /** Served without contacting the upstream. */
+  freshSeconds: number;
+  /** After going stale, still served while a background refresh runs. */
+  staleSeconds: number;
+  /** How long past the stale window the entry is kept as an upstream-failure fallback; defaults to a day. */
+  staleIfErrorSeconds?: number;
+}
+
+/**
+ * `hit` fresh entry, `miss` loaded now, `stale` served while refreshing,
+ * `stale-error` served because the upstream failed.
+ */
+export type CacheStatus = 'hit' | 'miss' | 'stale' | 'stale-error';
+
+export interface CachedValue<T> {
+  value: T;
+  status: CacheStatus;
+}
+
+export interface ResponseCache {
+  /**
+   * Return the cached value for `key`, loading it on a miss. `policy` may be
+   * derived from the loaded value when the TTL depends on which provider answered.
+   */
+  getOrLoad: <T>(
+    key: string,
+    load: () => Promise<T>,
+    policy: CachePolicy | ((value: T) => CachePolicy),
+  ) => Promise<CachedValue<T>>;
+}
+
+/** Default for `CachePolicy.staleIfErrorSeconds`. */
+const STALE_IF_ERROR_SECONDS = 86400;
+
+const MEMORY_CACHE_LIMIT = 500;
+
+/** Decimal places for coordinates in cache keys; 2 is a ~1 km grid. */
+export const CACHE_GRID_DECIMALS = 2;
+
+/** Snap a coordinate to the cache grid so nearby requests share an entry. */
+export function toGrid(value: number, decimals = CACHE_GRID_DECIMALS): number {
+  return Number(value.toFixed(decimals));
+}
+
+/** Normalized key: route plus params sorted by name, empty params dropped. */
+export function cacheKey(route: string, params: Record<string, string | number | undefined>): string {
+  const query = Object.keys(params)
+    .filter((name) => params[name] !== undefined && params[name] !== '')
+    .sort()
+    .map((name) => `${name}=${String(params[name])}`)
+    .join('&');
+
+  return `${route}?${query}`;
+}
+
+/** Process-local store; also the fallback when no Cache API or KV is available. */
+export function createMemoryCacheStore(limit = MEMORY_CACHE_LIMIT): CacheStore {
+  const entries = new Map<string, { record: CacheRecord; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+
+      return entry.record;
+    },
+
+    async put(key, record, ttlSeconds) {
+      entries.delete(key);
+      entries.set(key, { record, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+      // Maps iterate in insertion order, so the first key is the oldest write.
+      while (entries.size > limit) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+/** Per-colo Cache API store; records are stored as JSON responses under a synthetic URL. */
+export function createCacheApiStore(cache: Cache): CacheStore {
+  const toRequest = (key: string): Request => new Request(`https://cache.liivsky.internal/${encodeURIComponent(key)}`);
+
+  return {
+    async get(key) {
+      const response = await cache.match(toRequest(key));
+      return response ? ((await response.json()) as CacheRecord) : null;
+    },
+
+    async put(key, record, ttlSeconds) {
+      await cache.put(
+        toRequest(key),
+        new Response(JSON.stringify(record), {
+          headers: {
+            'content-type': 'application/json',
+            'cache-control': `public, max-age=${ttlSeconds}`,
+          },
+        }),
+      );
+    },
+  };
+}
+
+/** Global KV store; KV rejects TTLs under 60 seconds. */
+export function createKvCacheStore(kv: KVNamespace): CacheStore {
+  return {
+    async get(key) {
+      return kv.get<CacheRecord>(key, 'json');
+    },
+
+    async put(key, record, ttlSeconds) {
+      await kv.put(key, JSON.stringify(record), { expirationTtl: Math.max(60, Math.ceil(ttlSeconds)) });
+    },
+  };
+}
+
+const memoryStore = createMemoryCacheStore();
+
+/** KV when bound, else the colo's Cache API, else process memory. */
+export function selectCacheStore(env: Env): CacheStore {
+  if (env.WEATHER_CACHE) {
+    return createKvCacheStore(env.WEATHER_CACHE);
+  }
+
+  // The DOM lib's CacheStorage typing shadows the Workers one, which adds `default`.
+  const colo = typeof caches !== 'undefined' ? (caches as unknown as { default?: Cache }).default : undefined;
+  if (colo) {
+    return createCacheApiStore(colo);
+  }
+
+  return memoryStore;
+}
+
+/**
+ * Stale-while-revalidate over a `CacheStore`. Background refreshes and writes
+ * go through `waitUntil` when an execution context is available. Store
+ * failures never fail the request; they only cost a cache miss. `observe`
+ * sees the outcome of every lookup, for request logging.
+ */
+export function createResponseCache(
+  store: CacheStore,
+  waitUntil?: (promise: Promise<unknown>) => void,
+  observe?: (key: string, status: CacheStatus) => void,
+): ResponseCache {
+  const background = (promise: Promise<unknown>): void => {
+    const settled = promise.catch(() => undefined);
+    if (waitUntil) {
+      waitUntil(settled);
+    }
+  };
+
+  const save = async <T>(
+    key: string,
+    value: T,
+    policy: CachePolicy | ((value: T) => CachePolicy),
+  ): Promise<void> => {
+    const {
+      freshSeconds,
+      staleSeconds,
+      staleIfErrorSeconds = STALE_IF_ERROR_SECONDS,
+    } = typeof policy === 'function' ? policy(value) : policy;
+    const record: CacheRecord = { value, storedAt: Date.now(), freshSeconds, staleSeconds };
+    await store.put(key, record, freshSeconds + staleSeconds + staleIfErrorSeconds);
+  };
+
+  const report = <T>(key: string, result: CachedValue<T>): CachedValue<T> => {
+    observe?.(key, result.status);
+    return result;
+  };
+
+  return {
+    async getOrLoad<T>(
+      key: string,
+      load: () => Promise<T>,
+      policy: CachePolicy | ((value: T) => CachePolicy),
+    ): Promise<CachedValue<T>> {
+      const record = await store.get(key).catch(() => null);
+      const ageSeconds = record ? (Date.now() - record.storedAt) / 1000 : Number.POSITIVE_INFINITY;
+
+      if (record && ageSeconds < record.freshSeconds) {
+        return report(key, { value: record.value as T, status: 'hit' });
+      }
+
+      if (record && ageSeconds < record.freshSeconds + record.staleSeconds) {
+        background(load().then((value) => save(key, value, policy)));
+        return report(key, { value: record.value as T, status: 'stale' });
+      }
+
+      try {
+        const value = await load();
+        background(save(key, value, policy));
+        return report(key, { value, status: 'miss' });
+      } catch (error) {
+        if (record) {
+          return report(key, { value: record.value as T, status: 'stale-error' });
+        }
+        throw error;
+      }
+    },
+  };
+}
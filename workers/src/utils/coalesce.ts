@@ -0,0 +1,19 @@
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Share one in-flight call between concurrent callers with the same key.
+ * The entry is dropped once the call settles, so later callers start fresh;
+ * failures propagate to every waiter.
+ */
+export function coalesce<T>(key: string, run: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const promise = run().finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, promise);
+  return promise;
+}
@@ -0,0 +1,125 @@
+import type { AlertGeometry } from '../types';
+import { geometryContains } from './geo';
+
+/**
+ * Canada as one [lon, lat] ring: the US border traced west to east (Juan de
+ * Fuca, the 49th parallel, the lakes and rivers, the 45th parallel, Maine),
+ * closed around the Atlantic and Arctic and back down the Alaska panhandle.
+ * The border follows the river channel between twin towns such as
+ * Windsor–Detroit, Sarnia–Port Huron, Fort Erie–Buffalo and
+ * Edmundston–Madawaska; it is coarser elsewhere, where few people live.
+ */
+const CANADA: AlertGeometry = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      // Pacific, Juan de Fuca and Haro Strait.
+      [-128.0, 48.3],
+      [-124.73, 48.49],
+      [-124.0, 48.29],
+      [-123.25, 48.23],
+      [-123.17, 48.4],
+      [-123.25, 48.62],
+      [-123.27, 48.7],
+      [-123.0, 48.77],
+      [-123.0, 48.83],
+      [-123.32, 49.0],
+      // 49th parallel to Lake of the Woods, then the Rainy River and Boundary Waters.
+      [-95.15, 49.0],
+      [-95.15, 49.38],
+      [-94.82, 49.32],
+      [-94.64, 48.72],
+      [-93.85, 48.55],
+      [-93.4, 48.605],
+      [-92.95, 48.62],
+      [-91.5, 48.05],
+      [-90.8, 48.1],
+      [-89.6, 48.0],
+      // Lake Superior, the St Marys River and Lake Huron.
+      [-88.37, 48.3],
+      [-84.85, 46.9],
+      [-84.55, 46.63],
+      [-84.35, 46.505],
+      [-84.12, 46.43],
+      [-84.15, 46.1],
+      [-83.6, 46.05],
+      [-83.4, 45.95],
+      [-82.5, 45.35],
+      [-82.2, 44.0],
+      // St Clair River, Lake St Clair and the Detroit River.
+      [-82.42, 43.0],
+      [-82.415, 42.96],
+      [-82.46, 42.9],
+      [-82.48, 42.8],
+      [-82.52, 42.57],
+      [-82.93, 42.345],
+      [-83.04, 42.325],
+      [-83.1, 42.29],
+      [-83.13, 42.1],
+      // Lake Erie and the Niagara River.
+      [-82.7, 41.68],
+      [-81.25, 42.2],
+      [-80.5, 42.3],
+      [-79.3, 42.55],
+      [-78.93, 42.86],
+      [-78.905, 42.9],
+      [-79.02, 43.0],
+      [-79.065, 43.08],
+      [-79.05, 43.16],
+      [-79.07, 43.27],
+      // Lake Ontario and the St Lawrence.
+      [-78.0, 43.63],
+      [-76.8, 43.62],
+      [-76.44, 44.08],
+      [-76.36, 44.14],
+      [-76.2, 44.2],
+      [-76.1, 44.26],
+      [-75.8, 44.45],
+      [-75.5, 44.7],
+      [-75.0, 44.98],
+      [-74.66, 45.005],
+      // 45th parallel, Quebec–Maine, the Saint John and St Croix rivers.
+      [-71.5, 45.01],
+      [-71.08, 45.3],
+      [-70.8, 45.4],
+      [-70.25, 45.9],
+      [-70.0, 46.4],
+      [-69.23, 47.45],
+      [-68.3, 47.36],
+      [-67.79, 47.07],
+      [-67.78, 45.94],
+      [-67.43, 45.58],
+      [-67.28, 45.185],
+      [-67.05, 45.0],
+      [-66.98, 44.87],
+      [-66.9, 44.78],
+      // Atlantic and Arctic.
+      [-66.9, 43.0],
+      [-50.0, 43.0],
+      [-50.0, 84.0],
+      [-141.0, 84.0],
+      // Yukon–Alaska and the panhandle, then down the Pacific past Haida Gwaii.
+      [-141.0, 60.3],
+      [-139.07, 60.33],
+      [-137.6, 59.24],
+      [-135.03, 59.56],
+      [-133.4, 58.4],
+      [-131.8, 56.6],
+      [-130.1, 56.1],
+      [-130.01, 55.93],
+      [-130.0, 55.6],
+      [-130.6, 54.7],
+      [-133.0, 54.6],
+      [-134.0, 54.3],
+      [-128.0, 48.3],
+    ],
+  ],
+};
+
+/**
+ * Whether the point lies in Canada. Decides between Environment Canada and
+ * NWS where their coverage boxes overlap; both grids reach across the border.
+ */
+export function isInCanada(lat: number, lon: number): boolean {
+  return geometryContains(CANADA, lat, lon);
+}
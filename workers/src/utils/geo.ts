@@ -1,3 +1,5 @@
+import type { AlertGeometry, BoundingBox } from '../types';
+
 export function toFiniteNumber(input: string | null): number | null {
   if (!input) {
     return null;
@@ -21,3 +23,42 @@ export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: numb
   const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
   return earthRadiusKm * c;
 }
+
+const COMPASS_POINTS = [
+  'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+  'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW',
+];
+
+/** Convert a bearing in degrees to a 16-point compass label. */
+export function toCompass(degrees: number): string {
+  const normalized = ((degrees % 360) + 360) % 360;
+  return COMPASS_POINTS[Math.round(normalized / 22.5) % COMPASS_POINTS.length] ?? 'N';
+}
+
+export function bboxContains(bbox: BoundingBox, lat: number, lon: number): boolean {
+  return lat >= bbox.south && lat <= bbox.north && lon >= bbox.west && lon <= bbox.east;
+}
+
+/** Even-odd point-in-polygon test; holes are honoured because each ring toggles the result. */
+export function geometryContains(geometry: AlertGeometry, lat: number, lon: number): boolean {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some((rings) => rings.reduce((inside, ring) => (ringContains(ring, lat, lon) ? !inside : inside), false));
+}
+
+function ringContains(ring: number[][], lat: number, lon: number): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i] ?? [];
+    const [xj, yj] = ring[j] ?? [];
+    if (xi === undefined || yi === undefined || xj === undefined || yj === undefined) {
+      continue;
+    }
+
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
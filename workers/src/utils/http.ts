@@ -1,4 +1,7 @@
-import type { Env, ErrorEnvelope } from '../types';
+import type { Env } from '../env';
+import type { ErrorEnvelope } from '../types';
+import { formatIssues } from './schema';
+import type { SchemaError } from './schema';
 
 const JSON_HEADERS = {
   'content-type': 'application/json; charset=utf-8',
@@ -28,11 +31,36 @@ export function errorResponse(
   return jsonResponse(payload, { status }, env);
 }
 
+/** 429 in the standard envelope, telling the client when the budget refills. */
+export function rateLimitedResponse(retryAfterSeconds: number, details?: string, env?: Env): Response {
+  const response = errorResponse(429, 'rate_limited', 'Upstream request budget exhausted; retry later.', details, env);
+  response.headers.set('retry-after', String(retryAfterSeconds));
+  return response;
+}
+
+/** Envelope body for an upstream payload that failed validation, listing the offending fields. */
+export function schemaErrorBody(error: SchemaError): ErrorEnvelope['error'] {
+  const { missingFields } = error;
+  return {
+    code: 'upstream_schema_error',
+    message: `${error.source} returned an unexpected payload.`,
+    details: formatIssues(error.issues),
+    ...(missingFields.length > 0 ? { missingFields } : {}),
+  };
+}
+
+/** 502 `upstream_schema_error`; see `schemaErrorBody`. */
+export function schemaErrorResponse(error: SchemaError, env?: Env): Response {
+  const payload: ErrorEnvelope = { error: schemaErrorBody(error) };
+  return jsonResponse(payload, { status: 502 }, env);
+}
+
 export function preflightResponse(env?: Env): Response {
   const headers = new Headers();
   applyCors(headers, env);
   headers.set('access-control-allow-methods', 'GET, OPTIONS');
-  headers.set('access-control-allow-headers', 'content-type');
+  // Clients may send their own request id to correlate with the worker log.
+  headers.set('access-control-allow-headers', 'content-type, x-request-id');
   headers.set('access-control-max-age', '86400');
   return new Response(null, { status: 204, headers });
 }
@@ -47,7 +75,14 @@ export function withCache(response: Response, maxAgeSeconds: number): Response {
   });
 }
 
+/** Report how the worker cache answered (`hit`, `miss`, `stale`, `stale-error`). */
+export function withCacheStatus(response: Response, status: string): Response {
+  response.headers.set('x-cache', status.toUpperCase());
+  return response;
+}
+
 function applyCors(headers: Headers, env?: Env): void {
   headers.set('access-control-allow-origin', env?.CORS_ORIGIN ?? '*');
   headers.set('vary', 'origin');
+  headers.set('access-control-expose-headers', 'x-request-id, x-cache, retry-after');
 }
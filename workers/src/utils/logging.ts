@@ -0,0 +1,90 @@
+import type { Env } from '../env';
+import type { ErrorEnvelope } from '../types';
+import { errorResponse } from './http';
+import { createRequestContext } from './requestContext';
+import type { CacheLookup, RequestContext, UpstreamCall } from './requestContext';
+
+interface RequestLogLine {
+  level: 'info' | 'warn' | 'error';
+  requestId: string;
+  method: string;
+  route: string;
+  status: number;
+  durationMs: number;
+  upstream: UpstreamCall[];
+  cache: CacheLookup[];
+  error?: { code: string; details?: string; missingFields?: string[] };
+}
+
+/**
+ * Run `handle` with a fresh request context, then write one JSON log line
+ * (route, status, latency, upstream calls, cache lookups). The request id is
+ * echoed in `x-request-id` and appended to error envelope details so a user
+ * report can be matched to its log line. A throw from `handle` becomes a 500
+ * `internal_error`; its message goes to the log line, not the client.
+ */
+export async function withRequestLogging(
+  request: Request,
+  handle: (context: RequestContext) => Promise<Response>,
+  env?: Env,
+): Promise<Response> {
+  const startedAt = Date.now();
+  const context = createRequestContext(request);
+
+  let response: Response;
+  let thrown: string | undefined;
+  try {
+    response = await handle(context);
+  } catch (caught) {
+    thrown = caught instanceof Error ? caught.message : 'Unknown worker error.';
+    response = errorResponse(500, 'internal_error', 'Unexpected worker error.', undefined, env);
+  }
+
+  const envelope = response.status >= 400 ? await readErrorEnvelope(response) : null;
+  const error = envelope
+    ? {
+        code: envelope.error.code,
+        details: thrown ?? envelope.error.details,
+        missingFields: envelope.error.missingFields,
+      }
+    : undefined;
+  if (envelope) {
+    const { details } = envelope.error;
+    envelope.error.details = details ? `${details} (request ${context.requestId})` : `request ${context.requestId}`;
+    response = new Response(JSON.stringify(envelope), response);
+  }
+  response.headers.set('x-request-id', context.requestId);
+
+  const line: RequestLogLine = {
+    level: response.status >= 500 ? 'error' : response.status >= 400 ? 'warn' : 'info',
+    requestId: context.requestId,
+    method: request.method,
+    route: new URL(request.url).pathname,
+    status: response.status,
+    durationMs: Date.now() - startedAt,
+    upstream: context.upstreamCalls,
+    cache: context.cacheLookups,
+    ...(error ? { error } : {}),
+  };
+  const serialized = JSON.stringify(line);
+  if (line.level === 'error') {
+    console.error(serialized);
+  } else {
+    console.log(serialized);
+  }
+
+  return response;
+}
+
+async function readErrorEnvelope(response: Response): Promise<ErrorEnvelope | null> {
+  if (!response.headers.get('content-type')?.includes('application/json')) {
+    return null;
+  }
+
+  try {
+    const body = (await response.clone().json()) as Partial<ErrorEnvelope>;
+    return body.error && typeof body.error.code === 'string' ? (body as ErrorEnvelope) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,76 @@
+import type { CurrentConditions, PressureReading, PressureUnit } from '../types';
+import { convertPressure } from './units';
+
+/** Pressure change over three hours (kPa) that counts as rising or falling. */
+const PRESSURE_TREND_THRESHOLD_KPA = 0.1;
+
+const TENDENCY_WINDOW_MS = 3 * 3600_000;
+
+/** The reading compared against must fall this close to three hours before the latest one. */
+const TENDENCY_TOLERANCE_MS = 45 * 60_000;
+
+const HISTORY_WINDOW_MS = 24 * 3600_000;
+
+/** A raw observation: epoch milliseconds and pressure in kPa. */
+export interface PressureObservation {
+  time: number;
+  kpa: number;
+}
+
+type PressureFields = Pick<CurrentConditions, 'pressureTrend' | 'pressureTendency' | 'pressureHistory'>;
+
+/**
+ * Three-hour tendency and a 24-hour hourly series from a provider's own
+ * observations. `fallbackTrend` is kept when the observations cannot
+ * span three hours.
+ */
+export function summarizePressure(
+  observations: PressureObservation[],
+  unit: PressureUnit,
+  fallbackTrend: CurrentConditions['pressureTrend'],
+): PressureFields {
+  // One reading per hour; the newest report in each hour wins.
+  const hourly = new Map<number, PressureObservation>();
+  for (const observation of observations) {
+    if (!Number.isFinite(observation.time) || !Number.isFinite(observation.kpa)) {
+      continue;
+    }
+
+    const hour = Math.floor(observation.time / 3600_000);
+    const existing = hourly.get(hour);
+    if (!existing || observation.time > existing.time) {
+      hourly.set(hour, observation);
+    }
+  }
+
+  const series = Array.from(hourly.values()).sort((a, b) => a.time - b.time);
+  const latest = series[series.length - 1];
+  if (!latest) {
+    return { pressureTrend: fallbackTrend, pressureTendency: null, pressureHistory: [] };
+  }
+
+  const history: PressureReading[] = series
+    .filter((observation) => observation.time > latest.time - HISTORY_WINDOW_MS)
+    .map((observation) => ({
+      time: new Date(observation.time).toISOString(),
+      pressure: convertPressure(observation.kpa, unit),
+    }));
+
+  const target = latest.time - TENDENCY_WINDOW_MS;
+  const previous = series
+    .filter((observation) => Math.abs(observation.time - target) <= TENDENCY_TOLERANCE_MS)
+    .sort((a, b) => Math.abs(a.time - target) - Math.abs(b.time - target))[0];
+  if (!previous) {
+    return { pressureTrend: fallbackTrend, pressureTendency: null, pressureHistory: history };
+  }
+
+  const deltaKpa = latest.kpa - previous.kpa;
+  const pressureTrend =
+    deltaKpa >= PRESSURE_TREND_THRESHOLD_KPA ? 'rising' : deltaKpa <= -PRESSURE_TREND_THRESHOLD_KPA ? 'falling' : 'steady';
+
+  return {
+    pressureTrend,
+    pressureTendency: convertPressure(deltaKpa, unit),
+    pressureHistory: history,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Per-isolate token buckets for upstreams with published usage limits.
+ * Each isolate keeps its own budget, so the limits are set below the
+ * upstream's to leave room for parallel isolates.
+ */
+
+export type RateLimitedUpstream = 'nominatim' | 'n2yo';
+
+interface BucketConfig {
+  /** Burst size. */
+  capacity: number;
+  /** Tokens regained per second. */
+  refillPerSecond: number;
+}
+
+const UPSTREAM_LIMITS: Record<RateLimitedUpstream, BucketConfig> = {
+  // Nominatim's policy: an absolute maximum of 1 request per second.
+  nominatim: { capacity: 2, refillPerSecond: 1 },
+  // N2YO allows 1000 visual-pass transactions per hour; one satellites call spends 14.
+  n2yo: { capacity: 140, refillPerSecond: 1000 / 3600 },
+};
+
+/** Thrown when an upstream's budget is spent; maps to a 429 with `retry-after`. */
+export class RateLimitError extends Error {
+  readonly upstream: RateLimitedUpstream;
+  readonly retryAfterSeconds: number;
+
+  constructor(upstream: RateLimitedUpstream, retryAfterSeconds: number) {
+    super(`Rate limit for ${upstream} exceeded; retry in ${retryAfterSeconds} s.`);
+    this.name = 'RateLimitError';
+    this.upstream = upstream;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const buckets = new Map<RateLimitedUpstream, { tokens: number; updatedAt: number }>();
+
+/** Spend `cost` tokens from the upstream's bucket or throw `RateLimitError`. */
+export function takeUpstreamBudget(upstream: RateLimitedUpstream, cost = 1): void {
+  const { capacity, refillPerSecond } = UPSTREAM_LIMITS[upstream];
+  const now = Date.now();
+  const bucket = buckets.get(upstream) ?? { tokens: capacity, updatedAt: now };
+
+  const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+  const tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * refillPerSecond);
+
+  if (tokens < cost) {
+    buckets.set(upstream, { tokens, updatedAt: now });
+    throw new RateLimitError(upstream, Math.max(1, Math.ceil((cost - tokens) / refillPerSecond)));
+  }
+
+  buckets.set(upstream, { tokens: tokens - cost, updatedAt: now });
+}
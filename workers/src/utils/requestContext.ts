@@ -0,0 +1,51 @@
+import type { CacheStatus } from './cache';
+
+export interface UpstreamCall {
+  host: string;
+  /** HTTP status, or 0 when the fetch itself failed. */
+  status: number;
+  durationMs: number;
+}
+
+export interface CacheLookup {
+  key: string;
+  status: CacheStatus;
+}
+
+/**
+ * Per-request bookkeeping for the request log. Workers give us no async-local
+ * storage, so handlers pass this down to every call that reaches an upstream.
+ */
+export interface RequestContext {
+  requestId: string;
+  upstreamCalls: UpstreamCall[];
+  cacheLookups: CacheLookup[];
+}
+
+/** Client-supplied ids are echoed only when they are short and header-safe. */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+export function createRequestContext(request: Request): RequestContext {
+  const incoming = request.headers.get('x-request-id');
+
+  return {
+    requestId: incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID(),
+    upstreamCalls: [],
+    cacheLookups: [],
+  };
+}
+
+/** `fetch` that records host, status and duration on the request context. */
+export async function trackedFetch(context: RequestContext, url: string, init?: RequestInit): Promise<Response> {
+  const startedAt = Date.now();
+  const host = new URL(url).host;
+
+  try {
+    const response = await fetch(url, init);
+    context.upstreamCalls.push({ host, status: response.status, durationMs: Date.now() - startedAt });
+    return response;
+  } catch (error) {
+    context.upstreamCalls.push({ host, status: 0, durationMs: Date.now() - startedAt });
+    throw error;
+  }
+}
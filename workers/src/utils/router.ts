@@ -0,0 +1,197 @@
+import { API_BASE_PATH } from '../contract';
+import type { ApiPath, ApiQuery, ApiResponse } from '../contract';
+import type { Env } from '../env';
+import { createResponseCache, selectCacheStore } from './cache';
+import type { CacheStatus, ResponseCache } from './cache';
+import {
+  errorResponse,
+  jsonResponse,
+  preflightResponse,
+  rateLimitedResponse,
+  schemaErrorResponse,
+  withCache,
+  withCacheStatus,
+} from './http';
+import { RateLimitError } from './rateLimit';
+import type { RequestContext } from './requestContext';
+import { SchemaError } from './schema';
+import type { JsonSchema, Schema } from './schema';
+
+/** A query parameter; `parse` returns null for a bad value, which becomes a 400 with `error`. */
+export interface QueryParam<T> {
+  parse: (raw: string | null) => T | null;
+  error: { code: string; message: string };
+  /** How the parameter appears in the OpenAPI document. */
+  doc: { schema: JsonSchema; required: boolean; description?: string };
+}
+
+export type QuerySchema = Record<string, QueryParam<unknown>>;
+
+export type QueryValues<S extends QuerySchema> = {
+  [K in keyof S]: S[K] extends QueryParam<infer T> ? T : never;
+};
+
+export interface RouteInput<Q> {
+  url: URL;
+  query: Q;
+  env: Env;
+  cache: ResponseCache;
+  context: RequestContext;
+}
+
+/** A JSON body plus how long clients may cache it and how the worker cache answered. */
+export interface RouteResult<T = unknown> {
+  data: T;
+  maxAgeSeconds: number;
+  cacheStatus?: CacheStatus;
+}
+
+/**
+ * One GET endpoint of the API contract. The query is validated against
+ * `query` before `handle` runs; a handler returns a `RouteResult`, or a
+ * `Response` for errors the schema cannot express.
+ */
+export interface Route<P extends ApiPath = ApiPath, S extends QuerySchema = QuerySchema> {
+  /** Path below `API_BASE_PATH`. */
+  path: P;
+  summary: string;
+  query: S;
+  /** Schema of the 200 body, for the OpenAPI document. */
+  response: Schema<ApiResponse<P>>;
+  /** Message for the 502 `upstream_error` when `handle` throws; without it a throw is a 500. */
+  upstreamError?: string;
+  handle(
+    input: RouteInput<QueryValues<S>>,
+  ): Promise<RouteResult<ApiResponse<P>> | Response> | RouteResult<ApiResponse<P>> | Response;
+}
+
+/** A parser for every query parameter the contract declares for `P`, and no others. */
+type ContractSchema<P extends ApiPath, S> = {
+  [K in keyof ApiQuery<P>]-?: QueryParam<unknown>;
+} & Record<Exclude<keyof S, keyof ApiQuery<P>>, never>;
+
+/**
+ * Identity helper that infers the route's query values from its schema and
+ * checks the path, parameters and response type against the contract.
+ */
+export function defineRoute<P extends ApiPath, S extends QuerySchema>(
+  route: Route<P, S> & { query: ContractSchema<P, S> },
+): Route<P, S> {
+  return route;
+}
+
+/** A required finite number within `[min, max]`. */
+export function numberParam(min: number, max: number, error: QueryParam<number>['error']): QueryParam<number> {
+  return {
+    doc: { schema: { type: 'number', minimum: min, maximum: max }, required: true },
+    parse(raw) {
+      if (raw === null || raw.trim() === '') {
+        return null;
+      }
+
+      const value = Number(raw);
+      return Number.isFinite(value) && value >= min && value <= max ? value : null;
+    },
+    error,
+  };
+}
+
+/** One of `values`, matched case-insensitively; `fallback` when absent. */
+export function enumParam<T extends string>(
+  values: readonly T[],
+  fallback: T,
+  error: QueryParam<T>['error'],
+): QueryParam<T> {
+  return {
+    doc: { schema: { type: 'string', enum: [...values], default: fallback }, required: false },
+    parse(raw) {
+      if (raw === null) {
+        return fallback;
+      }
+
+      const normalized = raw.trim().toLowerCase();
+      return values.find((value) => value.toLowerCase() === normalized) ?? null;
+    },
+    error,
+  };
+}
+
+/** Accept a missing parameter as `undefined`; a present one must still parse. */
+export function optionalParam<T>(param: QueryParam<T>): QueryParam<T | undefined> {
+  return {
+    parse: (raw) => (raw === null ? undefined : param.parse(raw)),
+    error: param.error,
+    doc: { ...param.doc, required: false },
+  };
+}
+
+/**
+ * Dispatch by path with the shared middleware: CORS preflight, automatic 404
+ * and 405, query validation, the response cache (reported to the request log),
+ * `cache-control`/`x-cache` headers and mapping thrown errors to envelopes
+ * (`SchemaError` becomes a 502 `upstream_schema_error` on every route).
+ */
+export function createRouter(
+  routes: Route[],
+): (request: Request, env: Env, context: RequestContext, ctx?: ExecutionContext) => Promise<Response> {
+  const byPath = new Map<string, Route>(routes.map((route) => [`${API_BASE_PATH}${route.path}`, route]));
+
+  return async (request, env, context, ctx) => {
+    if (request.method === 'OPTIONS') {
+      return preflightResponse(env);
+    }
+
+    const url = new URL(request.url);
+    const route = byPath.get(url.pathname);
+    if (!route) {
+      return errorResponse(404, 'not_found', 'Endpoint not found.', undefined, env);
+    }
+
+    if (request.method !== 'GET') {
+      const response = errorResponse(405, 'method_not_allowed', 'Only GET is supported.', undefined, env);
+      response.headers.set('allow', 'GET, OPTIONS');
+      return response;
+    }
+
+    // Query parsing and cache setup share the try; only the handler's own failures count as upstream errors.
+    let handling = false;
+    try {
+      const query: Record<string, unknown> = {};
+      for (const [name, param] of Object.entries(route.query)) {
+        const value = param.parse(url.searchParams.get(name));
+        if (value === null) {
+          return errorResponse(400, param.error.code, param.error.message, undefined, env);
+        }
+        query[name] = value;
+      }
+
+      const cache = createResponseCache(
+        selectCacheStore(env),
+        ctx ? (promise) => ctx.waitUntil(promise) : undefined,
+        (key, status) => context.cacheLookups.push({ key, status }),
+      );
+
+      handling = true;
+      const result = await route.handle({ url, query, env, cache, context });
+      if (result instanceof Response) {
+        return result;
+      }
+
+      const response = withCache(jsonResponse(result.data, { status: 200 }, env), result.maxAgeSeconds);
+      return result.cacheStatus ? withCacheStatus(response, result.cacheStatus) : response;
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        return rateLimitedResponse(error.retryAfterSeconds, error.message, env);
+      }
+
+      if (error instanceof SchemaError) {
+        return schemaErrorResponse(error, env);
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown worker error.';
+      return handling && route.upstreamError
+        ? errorResponse(502, 'upstream_error', route.upstreamError, message, env)
+        : errorResponse(500, 'internal_error', 'Unexpected worker error.', message, env);
+    }
+  };
+}
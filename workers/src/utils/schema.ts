@@ -0,0 +1,275 @@
+/**
+ * Small schema builder for the API contract and upstream payloads. A
+ * `Schema<T>` validates a parsed JSON value and carries the JSON Schema used
+ * in the OpenAPI document; its type parameter lets the compiler check a
+ * schema against the TypeScript type it describes.
+ * Platform-neutral: the frontend imports it too.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+/** One problem found while validating, e.g. `current.temperature` is missing. */
+export interface SchemaIssue {
+  /** Dotted path from the payload root, e.g. `hourly[3].temp`. */
+  path: string;
+  /** `missing`, or what was expected (`expected number, got string`). */
+  problem: string;
+}
+
+export interface Schema<T> {
+  /** JSON Schema; named schemas appear as `$ref`s into `components`. */
+  readonly json: JsonSchema;
+  /** Named schemas referenced from `json`, keyed by component name. */
+  readonly components: Record<string, JsonSchema>;
+  /** Append an issue for every way `value` (at `path`) fails the schema. */
+  readonly check: (value: unknown, path: string, issues: SchemaIssue[]) => void;
+  /** Never set; carries the described type. */
+  readonly type?: T;
+}
+
+/** A property that may be omitted from its object. */
+export interface OptionalSchema<T> extends Schema<T> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** Thrown when a payload does not match its schema; `issues` says which fields were wrong or missing. */
+export class SchemaError extends Error {
+  /** Who produced the payload, e.g. `Environment Canada citypage`. */
+  readonly source: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(source: string, issues: SchemaIssue[]) {
+    super(`${source} returned an unexpected payload: ${formatIssues(issues)}`);
+    this.name = 'SchemaError';
+    this.source = source;
+    this.issues = issues;
+  }
+
+  /** Paths of required fields that were absent. */
+  get missingFields(): string[] {
+    return this.issues.filter((issue) => issue.problem === 'missing').map((issue) => issue.path);
+  }
+}
+
+/** At most this many issues are spelled out in messages; the rest are counted. */
+const MAX_LISTED_ISSUES = 8;
+
+export function formatIssues(issues: SchemaIssue[]): string {
+  const listed = issues.slice(0, MAX_LISTED_ISSUES).map((issue) => `${issue.path || '(root)'} ${issue.problem}`);
+  const more = issues.length - listed.length;
+  return more > 0 ? `${listed.join('; ')}; and ${more} more` : listed.join('; ');
+}
+
+/** Return `value` typed as `T`, or throw `SchemaError` naming `source`. */
+export function parseWith<T>(schema: Schema<T>, value: unknown, source: string): T {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, '', issues);
+  if (issues.length > 0) {
+    throw new SchemaError(source, issues);
+  }
+
+  return value as T;
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+
+type ObjectType<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+const COMPONENT_PREFIX = '#/components/schemas/';
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function leaf<T>(json: JsonSchema, expected: string, accepts: (value: unknown) => boolean): Schema<T> {
+  return {
+    json,
+    components: {},
+    check(value, path, issues) {
+      if (value === undefined) {
+        issues.push({ path, problem: 'missing' });
+      } else if (!accepts(value)) {
+        issues.push({ path, problem: `expected ${expected}, got ${describeValue(value)}` });
+      }
+    },
+  };
+}
+
+function mergeComponents(schemas: Array<Schema<unknown>>): Record<string, JsonSchema> {
+  return Object.assign({}, ...schemas.map((schema) => schema.components)) as Record<string, JsonSchema>;
+}
+
+export function string(): Schema<string> {
+  return leaf({ type: 'string' }, 'string', (value) => typeof value === 'string');
+}
+
+export function number(): Schema<number> {
+  return leaf({ type: 'number' }, 'number', (value) => typeof value === 'number' && Number.isFinite(value));
+}
+
+export function boolean(): Schema<boolean> {
+  return leaf({ type: 'boolean' }, 'boolean', (value) => typeof value === 'boolean');
+}
+
+/** Any JSON value; for payloads the worker passes through untouched. */
+export function unknown(): Schema<unknown> {
+  return { json: {}, components: {}, check: () => undefined };
+}
+
+export function literal<T extends string | number | boolean>(value: T): Schema<T> {
+  return leaf({ const: value }, JSON.stringify(value), (candidate) => candidate === value);
+}
+
+export function oneOf<T extends string | number>(values: readonly T[]): Schema<T> {
+  return leaf({ enum: [...values] }, `one of ${values.join(', ')}`, (value) => values.includes(value as T));
+}
+
+/**
+ * Also accept `marker`, an in-band "no data" value the type does not model
+ * (7Timer's -9999); consumers must filter it out.
+ */
+export function allowing<T>(schema: Schema<T>, marker: string | number): Schema<T> {
+  return {
+    json: { anyOf: [schema.json, { const: marker }] },
+    components: schema.components,
+    check(value, path, issues) {
+      if (value !== marker) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    json: { type: 'array', items: item.json },
+    components: item.components,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, problem: value === undefined ? 'missing' : `expected array, got ${describeValue(value)}` });
+        return;
+      }
+
+      value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+/** May be omitted (or `undefined`); a present value must still match. */
+export function optional<T>(schema: Schema<T>): OptionalSchema<T | undefined> {
+  return {
+    ...schema,
+    optional: true,
+    check(value, path, issues) {
+      if (value !== undefined) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+/** `null` is a value ("no data"), unlike a missing field. */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    json: { anyOf: [schema.json, { type: 'null' }] },
+    components: schema.components,
+    check(value, path, issues) {
+      if (value !== null) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+/** Unknown properties are allowed, so upstreams may add fields without failing validation. */
+export function object<S extends Shape>(shape: S): Schema<ObjectType<S>> {
+  const entries = Object.entries(shape);
+  const required = entries.filter(([, schema]) => !('optional' in schema)).map(([name]) => name);
+
+  return {
+    json: {
+      type: 'object',
+      properties: Object.fromEntries(entries.map(([name, schema]) => [name, schema.json])),
+      ...(required.length > 0 ? { required } : {}),
+    },
+    components: mergeComponents(entries.map(([, schema]) => schema)),
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, problem: value === undefined ? 'missing' : `expected object, got ${describeValue(value)}` });
+        return;
+      }
+
+      const record = value as Record<string, unknown>;
+      for (const [name, schema] of entries) {
+        schema.check(record[name], path ? `${path}.${name}` : name, issues);
+      }
+    },
+  };
+}
+
+/** String-keyed map with values of one schema (e.g. JSON objects of unknown keys). */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    json: { type: 'object', additionalProperties: value.json },
+    components: value.components,
+    check(candidate, path, issues) {
+      if (typeof candidate !== 'object' || candidate === null || Array.isArray(candidate)) {
+        issues.push({
+          path,
+          problem: candidate === undefined ? 'missing' : `expected object, got ${describeValue(candidate)}`,
+        });
+        return;
+      }
+
+      for (const [name, entry] of Object.entries(candidate)) {
+        value.check(entry, path ? `${path}.${name}` : name, issues);
+      }
+    },
+  };
+}
+
+/** Matches when any option does; otherwise reports the issues of the closest option. */
+export function union<S extends Array<Schema<unknown>>>(...options: S): Schema<Infer<S[number]>> {
+  return {
+    json: { oneOf: options.map((option) => option.json) },
+    components: mergeComponents(options),
+    check(value, path, issues) {
+      let closest: SchemaIssue[] | null = null;
+      for (const option of options) {
+        const optionIssues: SchemaIssue[] = [];
+        option.check(value, path, optionIssues);
+        if (optionIssues.length === 0) {
+          return;
+        }
+        if (!closest || optionIssues.length < closest.length) {
+          closest = optionIssues;
+        }
+      }
+
+      issues.push(...(closest ?? []));
+    },
+  };
+}
+
+/** Register `schema` as an OpenAPI component and refer to it by name. */
+export function named<T>(name: string, schema: Schema<T>): Schema<T> {
+  return {
+    json: { $ref: `${COMPONENT_PREFIX}${name}` },
+    components: { ...schema.components, [name]: schema.json },
+    check: schema.check,
+  };
+}
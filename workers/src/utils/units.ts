@@ -0,0 +1,98 @@
+import type { DistanceUnit, PrecipUnit, PressureUnit, TemperatureUnit, UnitPreferences, WindUnit } from '../types';
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  temperature: 'C',
+  wind: 'kmh',
+  pressure: 'kpa',
+  distance: 'km',
+  precipitation: 'mm',
+};
+
+export const WIND_UNITS: WindUnit[] = ['kmh', 'mph', 'ms', 'kn'];
+export const PRESSURE_UNITS: PressureUnit[] = ['kpa', 'hpa', 'inhg'];
+export const DISTANCE_UNITS: DistanceUnit[] = ['km', 'mi'];
+export const PRECIP_UNITS: PrecipUnit[] = ['mm', 'in'];
+
+/** Convert °C to whole degrees in `unit`. */
+export function convertTemp(valueC: number, unit: TemperatureUnit): number {
+  if (unit === 'F') {
+    return Math.round((valueC * 9) / 5 + 32);
+  }
+
+  return Math.round(valueC);
+}
+
+/** Convert km/h; m/s keeps one decimal, the others are whole numbers. */
+export function convertWind(kph: number, unit: WindUnit): number {
+  switch (unit) {
+    case 'mph':
+      return Math.round(kph / 1.609344);
+    case 'ms':
+      return round(kph / 3.6, 1);
+    case 'kn':
+      return Math.round(kph / 1.852);
+    default:
+      return Math.round(kph);
+  }
+}
+
+/** Convert kPa; hPa is whole, inHg keeps two decimals. */
+export function convertPressure(kpa: number, unit: PressureUnit): number {
+  switch (unit) {
+    case 'hpa':
+      return Math.round(kpa * 10);
+    case 'inhg':
+      return round(kpa * 0.2953, 2);
+    default:
+      return round(kpa, 1);
+  }
+}
+
+export function convertDistance(km: number, unit: DistanceUnit): number {
+  return round(unit === 'mi' ? km / 1.609344 : km, 1);
+}
+
+export function convertPrecip(mm: number, unit: PrecipUnit): number {
+  return unit === 'in' ? round(mm / 25.4, 2) : round(mm, 1);
+}
+
+/** Apply `convert` to a reported value; `null` (not reported) stays `null`. */
+export function convertReported<U>(
+  value: number | null,
+  unit: U,
+  convert: (value: number, unit: U) => number,
+): number | null {
+  return value === null ? null : convert(value, unit);
+}
+
+/** The larger of two reported values; `null` only when neither was reported. */
+export function maxReported(a: number | null, b: number | null): number | null {
+  return a === null ? b : b === null ? a : Math.max(a, b);
+}
+
+/** The sum of two reported values; `null` only when neither was reported. */
+export function sumReported(a: number | null, b: number | null): number | null {
+  return a === null ? b : b === null ? a : a + b;
+}
+
+/** The value when it is a finite number, otherwise `null` (not reported). */
+export function toFinite(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/** Round a percentage to a whole number within 0–100. */
+export function clampPercent(value: number): number {
+  if (value < 0) {
+    return 0;
+  }
+
+  if (value > 100) {
+    return 100;
+  }
+
+  return Math.round(value);
+}
+
+function round(value: number, decimals: number): number {
+  return Number(value.toFixed(decimals));
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Keeps the run from picking up the frontend's Vite config and React plugin one directory up.
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});